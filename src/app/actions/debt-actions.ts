@@ -0,0 +1,75 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "../../../supabase/server";
+import type { PayoffPlan, PayoffResult } from "@/utils/debt-payoff";
+
+/**
+ * Save a payoff plan as the user's active plan
+ * @param plan The strategy, extra payment and custom order
+ * @param result The simulation of the plan, stored as its projection
+ */
+export async function saveDebtPayoffPlan(
+  plan: PayoffPlan,
+  result: Pick<PayoffResult, "months" | "totalInterest" | "debtFreeDate">,
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const { error } = await supabase.from("debt_payoff_plans").upsert(
+    {
+      user_id: user.id,
+      strategy: plan.strategy,
+      extra_payment: Math.max(plan.extraPayment, 0),
+      custom_order: plan.customOrder,
+      months_to_payoff: result.months,
+      total_interest: result.totalInterest,
+      debt_free_date: result.debtFreeDate,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" },
+  );
+
+  if (error) {
+    console.error("Error saving payoff plan:", error);
+    return { error: error.message };
+  }
+
+  revalidatePath("/dashboard/debts");
+  return { success: true };
+}
+
+/**
+ * Remove the user's active payoff plan
+ */
+export async function deleteDebtPayoffPlan() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const { error } = await supabase
+    .from("debt_payoff_plans")
+    .delete()
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error deleting payoff plan:", error);
+    return { error: error.message };
+  }
+
+  revalidatePath("/dashboard/debts");
+  return { success: true };
+}
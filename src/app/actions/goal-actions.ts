@@ -0,0 +1,98 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "../../../supabase/server";
+
+export interface GoalInput {
+  id?: string;
+  name: string;
+  targetAmount: number;
+  deadline: string | null;
+  linkedAssetIds: string[];
+  linkedCategorySlugs: string[];
+  manualAmount: number;
+  monthlyContribution: number;
+  expectedReturn: number;
+}
+
+/**
+ * Create a goal, or update it when an ID is given
+ * @param input The goal's fields
+ */
+export async function saveGoal(input: GoalInput) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  if (!input.name.trim()) {
+    return { error: "Name is required" };
+  }
+
+  if (!(input.targetAmount > 0)) {
+    return { error: "Target must be greater than zero" };
+  }
+
+  const values = {
+    name: input.name.trim(),
+    target_amount: input.targetAmount,
+    deadline: input.deadline || null,
+    linked_asset_ids: input.linkedAssetIds,
+    linked_category_slugs: input.linkedCategorySlugs,
+    manual_amount: Math.max(input.manualAmount || 0, 0),
+    monthly_contribution: Math.max(input.monthlyContribution || 0, 0),
+    expected_return: Math.max(input.expectedReturn || 0, 0),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = input.id
+    ? await supabase
+        .from("goals")
+        .update(values)
+        .eq("id", input.id)
+        .eq("user_id", user.id)
+    : await supabase.from("goals").insert({ ...values, user_id: user.id });
+
+  if (error) {
+    console.error("Error saving goal:", error);
+    return { error: error.message };
+  }
+
+  revalidatePath("/dashboard/goals");
+  return { success: true };
+}
+
+/**
+ * Delete a goal
+ * @param goalId The goal to delete
+ */
+export async function deleteGoal(goalId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const { error } = await supabase
+    .from("goals")
+    .delete()
+    .eq("id", goalId)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Error deleting goal:", error);
+    return { error: error.message };
+  }
+
+  revalidatePath("/dashboard/goals");
+  return { success: true };
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/supabase/admin";
+import { isAuthorizedCronRequest } from "@/utils/cron";
+import { revalueVehicles } from "@/utils/vehicles";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Scheduled job: revalue vehicles with the valuation engine so they
+// depreciate over time. Call with "Authorization: Bearer $CRON_SECRET", e.g.
+// daily; each vehicle is revalued at most once a month.
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const summary = await revalueVehicles(supabase);
+
+    console.log(
+      `Vehicle revaluation finished: ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.skipped} skipped, ${summary.failed} failed`,
+    );
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error revaluing vehicles:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -1,13 +1,27 @@
 import { NextResponse } from "next/server";
+import {
+  getVehicleValuationProvider,
+  isVehicleCondition,
+  isVehicleRegion,
+  type VehicleCondition,
+  type VehicleRegion,
+} from "@/utils/vehicle-valuation";
 
-// MarketCheck API credentials
-const API_KEY = "yEoXLHm7KxTMJVI4csppA3DNpg96ACUH";
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
 
+// Estimated value of a vehicle, e.g.
+// /api/car-prices?make=Toyota&model=Camry&year=2020&mileage=45000&condition=good
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const make = searchParams.get("make");
   const model = searchParams.get("model");
   const year = searchParams.get("year");
+  const trim = searchParams.get("trim") || undefined;
+  const mileage = searchParams.get("mileage");
+  const condition = searchParams.get("condition");
+  const region = searchParams.get("region");
 
   if (!make || !model || !year) {
     return NextResponse.json(
@@ -16,88 +30,52 @@ export async function GET(request: Request) {
     );
   }
 
-  try {
-    // Since we're having TLS certificate issues with the MarketCheck API,
-    // we'll generate mock data based on the input parameters
-    const mockData = generateMockCarData(make, model, year);
+  const parsedYear = parseInt(year);
+  if (isNaN(parsedYear) || parsedYear < 1900) {
+    return NextResponse.json({ error: "Invalid year" }, { status: 400 });
+  }
 
-    return NextResponse.json(mockData);
-  } catch (error) {
-    console.error("Error generating car data:", error);
+  const parsedMileage = mileage ? Number(mileage) : undefined;
+  if (parsedMileage !== undefined && !(parsedMileage >= 0)) {
+    return NextResponse.json({ error: "Invalid mileage" }, { status: 400 });
+  }
+
+  if (condition && !isVehicleCondition(condition)) {
     return NextResponse.json(
-      { error: "Failed to generate car data" },
-      { status: 500 },
+      {
+        error: "Invalid condition. Must be one of: excellent, good, fair, poor",
+      },
+      { status: 400 },
     );
   }
-}
-
-// Generate mock car data based on input parameters
-function generateMockCarData(make: string, model: string, year: string) {
-  // Base price calculation based on make and year
-  const currentYear = new Date().getFullYear();
-  const age = currentYear - parseInt(year);
-
-  // Different base prices for different makes
-  const makeBasePrices: Record<string, number> = {
-    toyota: 30000,
-    honda: 28000,
-    ford: 32000,
-    chevrolet: 33000,
-    bmw: 50000,
-    mercedes: 55000,
-    audi: 48000,
-    tesla: 60000,
-    volkswagen: 28000,
-    hyundai: 25000,
-    kia: 24000,
-    nissan: 27000,
-    subaru: 29000,
-    mazda: 26000,
-    lexus: 45000,
-  };
-
-  // Get base price for the make or use default
-  const basePrice = makeBasePrices[make.toLowerCase()] || 30000;
-
-  // Depreciation calculation (roughly 10% per year)
-  const depreciation = Math.min(0.8, age * 0.1); // Max 80% depreciation
-  const averagePrice = basePrice * (1 - depreciation);
-
-  // Add some randomness to the price
-  const randomFactor = 0.9 + Math.random() * 0.2; // Between 0.9 and 1.1
-  const finalPrice = averagePrice * randomFactor;
-
-  // Generate mock listings
-  const listings = [];
-  const numListings = 3 + Math.floor(Math.random() * 5); // Between 3 and 7 listings
 
-  for (let i = 0; i < numListings; i++) {
-    const listingPrice = finalPrice * (0.9 + Math.random() * 0.2); // Vary by ±10%
-    const miles = Math.floor((10000 + Math.random() * 15000) * age);
-
-    listings.push({
-      price: Math.round(listingPrice),
-      miles: miles,
-      build: {
-        year: year,
-        make: make,
-        model: model,
-        trim: ["SE", "LE", "Sport", "Limited", "Base"][
-          Math.floor(Math.random() * 5)
-        ],
-      },
-      dealer: {
-        city: ["New York", "Los Angeles", "Chicago", "Houston", "Phoenix"][
-          Math.floor(Math.random() * 5)
-        ],
-        state: ["NY", "CA", "IL", "TX", "AZ"][Math.floor(Math.random() * 5)],
+  if (region && !isVehicleRegion(region)) {
+    return NextResponse.json(
+      {
+        error:
+          "Invalid region. Must be one of: northeast, midwest, south, west",
       },
-    });
+      { status: 400 },
+    );
   }
 
-  return {
-    averagePrice: Math.round(finalPrice),
-    totalListings: numListings + Math.floor(Math.random() * 20), // Add some extra for total
-    listings: listings,
-  };
+  try {
+    const valuation = await getVehicleValuationProvider().valueVehicle({
+      make,
+      model,
+      year: parsedYear,
+      trim,
+      mileage: parsedMileage,
+      condition: (condition || undefined) as VehicleCondition | undefined,
+      region: (region || undefined) as VehicleRegion | undefined,
+    });
+
+    return NextResponse.json(valuation);
+  } catch (error) {
+    console.error("Error valuing vehicle:", error);
+    return NextResponse.json(
+      { error: "Failed to value vehicle" },
+      { status: 500 },
+    );
+  }
 }
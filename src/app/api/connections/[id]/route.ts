@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/supabase/server";
+import {
+  disconnectBrokerConnection,
+  isImportedAssetsMode,
+} from "@/utils/broker-connections";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Disconnect a broker: revoke its access, then purge the assets it imported
+// or keep them as manual assets ({ "assets": "purge" | "keep" })
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const { assets } = await request.json().catch(() => ({}));
+
+    if (typeof assets !== "string" || !isImportedAssetsMode(assets)) {
+      return NextResponse.json(
+        { error: 'assets must be "purge" or "keep"' },
+        { status: 400 },
+      );
+    }
+
+    // Verify the user is authenticated
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "User not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const summary = await disconnectBrokerConnection(
+      supabase,
+      user.id,
+      params.id,
+      assets,
+    );
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error disconnecting broker:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    // Someone else's connection is reported the same as a missing one
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: errorMessage === "Connection not found" ? 404 : 500 },
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/supabase/admin";
+import { rotateBrokerCredentials } from "@/utils/credentials";
+import { isAuthorizedCronRequest } from "@/utils/cron";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Maintenance job: re-wrap every broker credential with the current master
+// key in CREDENTIAL_MASTER_KEYS. Run once after adding a key version:
+// curl -H "Authorization: Bearer $CRON_SECRET" <site>/api/credentials/rotate
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await rotateBrokerCredentials(createAdminClient());
+
+    console.log(
+      `Credential rotation finished: ${summary.rewrapped} re-wrapped, ${summary.encrypted} encrypted, ${summary.unreadable} unreadable, ${summary.failed} failed`,
+    );
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error rotating broker credentials:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/supabase/server";
+import { importExchangeConnections } from "@/utils/exchange-sync";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Import the balances stored on the user's exchange connections as crypto
+// assets, called right after connecting an exchange
+export async function POST() {
+  try {
+    // Verify the user is authenticated
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "User not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const results = await importExchangeConnections(supabase, user.id);
+
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    console.error("Error importing exchange balances:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/supabase/admin";
+import { isAuthorizedCronRequest } from "@/utils/cron";
+import {
+  fetchExchangeBalances,
+  syncExchangeConnections,
+} from "@/utils/exchange-sync";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Scheduled job: refresh the balances of every active crypto exchange
+// connection and reprice the assets imported from them.
+// Call with "Authorization: Bearer $CRON_SECRET", e.g. every hour.
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const results = await syncExchangeConnections(supabase, (connection) =>
+      fetchExchangeBalances(supabase, connection),
+    );
+
+    const count = (status: string) =>
+      results.filter((result) => result.status === status).length;
+
+    console.log(
+      `Exchange sync finished: ${count("synced")} synced, ${count("failed")} failed, ${count("skipped")} skipped`,
+    );
+    return NextResponse.json({
+      success: true,
+      synced: count("synced"),
+      failed: count("failed"),
+      skipped: count("skipped"),
+      results,
+    });
+  } catch (error) {
+    console.error("Error syncing exchange connections:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/supabase/admin";
+import { isAuthorizedCronRequest } from "@/utils/cron";
+import { refreshFxRates } from "@/utils/fx";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Daily job: store today's exchange rates in fx_rates.
+// Call with "Authorization: Bearer $CRON_SECRET", before the net worth
+// snapshot so it converts at today's rates.
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const rates = await refreshFxRates(supabase);
+
+    console.log(`Stored ${rates} fx rates`);
+    return NextResponse.json({ success: true, rates });
+  } catch (error) {
+    console.error("Error refreshing fx rates:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/supabase/server";
+import { getMarketDataProvider, isMarketAssetClass } from "@/utils/market-data";
+import { toSnapshotDate } from "@/utils/net-worth-history";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Daily closes of a symbol, e.g.
+// /api/market-data/history?type=stock&symbol=AAPL&from=2024-01-01&to=2024-06-30
+// Defaults to the last year.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get("type") || "stock";
+  const symbol = searchParams.get("symbol");
+
+  const yearAgo = new Date();
+  yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+  const from = searchParams.get("from") || toSnapshotDate(yearAgo);
+  const to = searchParams.get("to") || toSnapshotDate(new Date());
+
+  if (!isMarketAssetClass(type)) {
+    return NextResponse.json(
+      { error: "Invalid type. Must be one of: stock, crypto" },
+      { status: 400 },
+    );
+  }
+
+  if (!symbol) {
+    return NextResponse.json(
+      { error: "Symbol parameter is required" },
+      { status: 400 },
+    );
+  }
+
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+    return NextResponse.json(
+      { error: "Invalid date range. Use from/to as YYYY-MM-DD" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const closes = await getMarketDataProvider(type).getHistoricalCloses(
+      symbol,
+      from,
+      to,
+    );
+
+    return NextResponse.json({ symbol, from, to, closes });
+  } catch (error) {
+    console.error("Error fetching price history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch price history" },
+      { status: 500 },
+    );
+  }
+}
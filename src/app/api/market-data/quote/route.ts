@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/supabase/server";
+import { getMarketDataProvider, isMarketAssetClass } from "@/utils/market-data";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Latest price of a symbol, e.g. /api/market-data/quote?type=crypto&symbol=BTC
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get("type") || "stock";
+  const symbol = searchParams.get("symbol");
+
+  if (!isMarketAssetClass(type)) {
+    return NextResponse.json(
+      { error: "Invalid type. Must be one of: stock, crypto" },
+      { status: 400 },
+    );
+  }
+
+  if (!symbol) {
+    return NextResponse.json(
+      { error: "Symbol parameter is required" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const quote = await getMarketDataProvider(type).getQuote(symbol);
+
+    if (!quote) {
+      return NextResponse.json(
+        { error: `No quote found for ${symbol}` },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(quote);
+  } catch (error) {
+    console.error("Error fetching quote:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quote" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/supabase/admin";
+import { isAuthorizedCronRequest } from "@/utils/cron";
+import { revalueMarketHoldings } from "@/utils/market-data";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Scheduled job: reprice every manually added stock and crypto holding from
+// the configured market data providers.
+// Call with "Authorization: Bearer $CRON_SECRET", e.g. every hour.
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const summary = await revalueMarketHoldings(supabase);
+
+    console.log(
+      `Market revaluation finished: ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.failed} failed`,
+    );
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error revaluing market holdings:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/supabase/server";
+import {
+  isMarketAssetClass,
+  searchSymbolsWithQuotes,
+} from "@/utils/market-data";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Search stocks or cryptocurrencies by ticker or name, with their latest
+// price, e.g. /api/market-data/search?type=stock&q=apple
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get("type") || "stock";
+  const query = (searchParams.get("q") || "").trim();
+
+  if (!isMarketAssetClass(type)) {
+    return NextResponse.json(
+      { error: "Invalid type. Must be one of: stock, crypto" },
+      { status: 400 },
+    );
+  }
+
+  if (query.length < 2) {
+    return NextResponse.json({ results: [] });
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const results = await searchSymbolsWithQuotes(type, query);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error searching market data:", error);
+    return NextResponse.json(
+      { error: "Failed to search market data" },
+      { status: 500 },
+    );
+  }
+}
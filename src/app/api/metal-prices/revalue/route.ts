@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/supabase/admin";
+import { isAuthorizedCronRequest } from "@/utils/cron";
+import { revalueMetalHoldings } from "@/utils/metal-holdings";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Scheduled job: revalue every precious-metal holding at the cached spot
+// price. Call with "Authorization: Bearer $CRON_SECRET", e.g. every hour.
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const summary = await revalueMetalHoldings(supabase);
+
+    console.log(
+      `Metal revaluation finished: ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.stale} stale, ${summary.failed} failed`,
+    );
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error revaluing metal holdings:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -1,12 +1,25 @@
 import { NextResponse } from "next/server";
-import { fetchMetalPrice } from "@/utils/metal-api";
+import { createAdminClient } from "@/supabase/admin";
+import {
+  getMetalSpotPrice,
+  METAL_SYMBOLS,
+  type MetalSymbol,
+} from "@/utils/metal-api";
+import { fetchPriceHistory } from "@/utils/price-quotes";
 
-// This is a server-side API route that proxies requests to the GoldAPI
-// to avoid exposing the API key in client-side code
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// This is a server-side API route that serves metal spot prices from the
+// price_quotes cache, refreshing from GoldAPI when they expire, to avoid
+// exposing the API key in client-side code.
+// Pass ?days=N to include N days of daily closes.
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const metal = searchParams.get("metal");
   const currency = searchParams.get("currency") || "USD";
+  const days = parseInt(searchParams.get("days") || "0", 10);
 
   if (!metal) {
     return NextResponse.json(
@@ -15,29 +28,37 @@ export async function GET(request: Request) {
     );
   }
 
-  try {
-    // Validate metal parameter
-    if (!["XAU", "XAG", "XPT", "XPD"].includes(metal)) {
-      return NextResponse.json(
-        {
-          error: "Invalid metal parameter. Must be one of: XAU, XAG, XPT, XPD",
-        },
-        { status: 400 },
-      );
-    }
+  // Validate metal parameter
+  if (!METAL_SYMBOLS.includes(metal as MetalSymbol)) {
+    return NextResponse.json(
+      {
+        error: "Invalid metal parameter. Must be one of: XAU, XAG, XPT, XPD",
+      },
+      { status: 400 },
+    );
+  }
 
-    // Fetch the price from the GoldAPI
-    const priceData = await fetchMetalPrice(
-      metal as "XAU" | "XAG" | "XPT" | "XPD",
-      currency as "USD",
+  if (currency !== "USD") {
+    return NextResponse.json(
+      { error: "Invalid currency parameter. Must be: USD" },
+      { status: 400 },
     );
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const quote = await getMetalSpotPrice(supabase, metal as MetalSymbol);
+    const history =
+      days > 0
+        ? await fetchPriceHistory(supabase, metal, currency, days)
+        : undefined;
 
-    return NextResponse.json(priceData);
+    return NextResponse.json({ metal, ...quote, history });
   } catch (error) {
     console.error("Error fetching metal price:", error);
     return NextResponse.json(
       { error: "Failed to fetch metal price" },
-      { status: 500 },
+      { status: 502 },
     );
   }
 }
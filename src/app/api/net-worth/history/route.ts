@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/supabase/server";
+import { fetchNetWorthHistory, isTimeframe } from "@/utils/net-worth-history";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET(request: Request) {
+  const requestUrl = new URL(request.url);
+  const timeframe = requestUrl.searchParams.get("timeframe") || "1m";
+
+  if (!isTimeframe(timeframe)) {
+    return NextResponse.json(
+      { error: "Invalid timeframe. Must be one of: 1d, 7d, 1m, ytd, 1y, all" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "User not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const history = await fetchNetWorthHistory(supabase, user.id, timeframe);
+
+    return NextResponse.json(
+      { timeframe, history },
+      {
+        headers: {
+          "Cache-Control": "no-store, max-age=0, must-revalidate",
+          Pragma: "no-cache",
+          Expires: "0",
+        },
+      },
+    );
+  } catch (error) {
+    console.error("Error fetching net worth history:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json(
+      { error: errorMessage },
+      {
+        status: 500,
+        headers: {
+          "Cache-Control": "no-store, max-age=0, must-revalidate",
+          Pragma: "no-cache",
+          Expires: "0",
+        },
+      },
+    );
+  }
+}
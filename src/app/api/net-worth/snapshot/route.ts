@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/supabase/admin";
+import { isAuthorizedCronRequest } from "@/utils/cron";
+import { recordNetWorthSnapshots } from "@/utils/net-worth-history";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Daily job: snapshot every user's assets into asset_history and
+// net_worth_history. Call with "Authorization: Bearer $CRON_SECRET".
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const snapshots = await recordNetWorthSnapshots(supabase);
+
+    console.log(`Recorded net worth snapshots for ${snapshots} users`);
+    return NextResponse.json({ success: true, snapshots });
+  } catch (error) {
+    console.error("Error recording net worth snapshots:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/supabase/admin";
+import { isAuthorizedCronRequest } from "@/utils/cron";
+import { revalueProperties } from "@/utils/real-estate";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Scheduled job: apply appreciation and new appraisals to every property.
+// Call with "Authorization: Bearer $CRON_SECRET", e.g. daily.
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const summary = await revalueProperties(supabase);
+
+    console.log(
+      `Property revaluation finished: ${summary.valued} valued, ${summary.skipped} skipped, ${summary.failed} failed`,
+    );
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Error revaluing properties:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -64,12 +64,20 @@ export async function GET(request: Request) {
     }
 
     // Handle the callback
-    await handleSnapTradeCallback(userId, authorizationId, brokerage);
+    const summary = await handleSnapTradeCallback(
+      userId,
+      authorizationId,
+      brokerage,
+      supabase,
+    );
 
     console.log("Successfully processed callback, redirecting to assets page");
-    // Redirect to assets page with success message
+    // Redirect to assets page with success message and sync summary
     return NextResponse.redirect(
-      new URL("/dashboard/assets?success=true", requestUrl.origin),
+      new URL(
+        `/dashboard/assets?success=true&added=${summary.added}&updated=${summary.updated}&removed=${summary.removed}`,
+        requestUrl.origin,
+      ),
     );
   } catch (error) {
     console.error("Error processing SnapTrade callback:", error);
@@ -44,6 +44,7 @@ export async function GET(request: Request) {
 
     // Get holdings for the user
     const holdings = await fetchSnapTradeHoldings(
+      supabase,
       userId,
       accountId || undefined,
     );
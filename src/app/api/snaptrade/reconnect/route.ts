@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { createSnapTradeReconnectLink } from "@/utils/snaptrade";
+import { createClient } from "@/supabase/server";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Generate a connection portal URL that repairs a disabled brokerage
+// authorization
+export async function POST(request: Request) {
+  try {
+    const { authorizationId, redirectUri } = await request.json();
+
+    if (!authorizationId) {
+      return NextResponse.json(
+        { error: "Authorization ID is required" },
+        { status: 400 },
+      );
+    }
+
+    if (!redirectUri) {
+      return NextResponse.json(
+        { error: "Redirect URI is required" },
+        { status: 400 },
+      );
+    }
+
+    // Verify the user is authenticated
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "User not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const redirectURL = await createSnapTradeReconnectLink(
+      user.id,
+      authorizationId,
+      redirectUri,
+      supabase,
+    );
+
+    return NextResponse.json({ redirectUri: redirectURL });
+  } catch (error) {
+    console.error("Error reconnecting SnapTrade authorization:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { createAdminClient } from "@/supabase/admin";
+import { isAuthorizedCronRequest } from "@/utils/cron";
+import {
+  fetchSnapTradeActivities,
+  fetchSnapTradeHoldings,
+} from "@/utils/snaptrade";
+import { syncSnapTradeConnections } from "@/utils/snaptrade-sync";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Scheduled job: refresh the positions and recent activities of every active
+// SnapTrade connection.
+// Call with "Authorization: Bearer $CRON_SECRET", e.g. every hour.
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const supabase = createAdminClient();
+    const results = await syncSnapTradeConnections(supabase, {
+      holdings: (userId) => fetchSnapTradeHoldings(supabase, userId),
+      activities: (userId, since) =>
+        fetchSnapTradeActivities(supabase, userId, since),
+    });
+
+    const count = (status: string) =>
+      results.filter((result) => result.status === status).length;
+
+    console.log(
+      `SnapTrade sync finished: ${count("synced")} synced, ${count("failed")} failed, ${count("skipped")} skipped`,
+    );
+    return NextResponse.json({
+      success: true,
+      synced: count("synced"),
+      failed: count("failed"),
+      skipped: count("skipped"),
+      results,
+    });
+  } catch (error) {
+    console.error("Error syncing SnapTrade connections:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/supabase/server";
+import { isWalletChain, normalizeWalletAddress } from "@/utils/chain-indexer";
+import { syncCryptoWallet, toCryptoWallet } from "@/utils/crypto-wallets";
+
+// Set cache control headers to prevent caching
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Register a watch-only wallet, or find it if already registered, and sync
+// its balances into the user's crypto assets
+export async function POST(request: Request) {
+  try {
+    const { chain, address, label } = await request.json();
+
+    if (typeof chain !== "string" || !isWalletChain(chain)) {
+      return NextResponse.json({ error: "Unsupported chain" }, { status: 400 });
+    }
+
+    const normalizedAddress =
+      typeof address === "string"
+        ? normalizeWalletAddress(chain, address)
+        : null;
+    if (!normalizedAddress) {
+      return NextResponse.json(
+        { error: `Invalid ${chain} address` },
+        { status: 400 },
+      );
+    }
+
+    // Verify the user is authenticated
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: "User not authenticated" },
+        { status: 401 },
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from("crypto_wallets")
+      .upsert(
+        {
+          user_id: user.id,
+          chain,
+          address: normalizedAddress,
+          label:
+            (typeof label === "string" && label.trim()) ||
+            `${normalizedAddress.slice(0, 6)}…${normalizedAddress.slice(-4)}`,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id,chain,address" },
+      )
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error saving crypto wallet:", error);
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const wallet = toCryptoWallet(row);
+    const summary = await syncCryptoWallet(supabase, wallet);
+
+    return NextResponse.json({ success: true, wallet, ...summary });
+  } catch (error) {
+    console.error("Error adding crypto wallet:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
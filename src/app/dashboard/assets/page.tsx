@@ -8,6 +8,17 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { CheckCircle2, AlertCircle, Trash2 } from "lucide-react";
 import { revalidatePath } from "next/cache";
+import Link from "next/link";
+import AssetSparkline from "@/components/dashboard/asset-sparkline";
+import {
+  fetchAssetHistory,
+  type AssetHistoryPoint,
+} from "@/utils/asset-history";
+import {
+  calculateEquity,
+  fetchSecuredLoans,
+  type SecuredLoan,
+} from "@/utils/liabilities";
 
 async function deleteAsset(formData: FormData) {
   "use server";
@@ -34,7 +45,13 @@ async function deleteAsset(formData: FormData) {
 export default async function AssetsPage({
   searchParams,
 }: {
-  searchParams: { success?: string; error?: string };
+  searchParams: {
+    success?: string;
+    error?: string;
+    added?: string;
+    updated?: string;
+    removed?: string;
+  };
 }) {
   const supabase = await createClient();
 
@@ -52,8 +69,40 @@ export default async function AssetsPage({
     .select("*, asset_categories(name, slug, icon)")
     .eq("is_liability", false);
 
+  // Fetch recent value history for the trend sparklines
+  let historyByAsset: Record<string, AssetHistoryPoint[]> = {};
+  try {
+    historyByAsset = await fetchAssetHistory(
+      supabase,
+      (assets || []).map((asset) => asset.id),
+    );
+  } catch (error) {
+    console.error("Error loading asset history:", error);
+  }
+
+  // Fetch the loans secured by vehicles and properties to show their equity
+  let loansByAsset: Record<string, SecuredLoan[]> = {};
+  try {
+    loansByAsset = await fetchSecuredLoans(
+      supabase,
+      (assets || [])
+        .filter(
+          (asset) =>
+            asset.metadata?.asset_type === "vehicle" ||
+            asset.asset_categories?.slug === "real-estate",
+        )
+        .map((asset) => asset.id),
+    );
+  } catch (error) {
+    console.error("Error loading secured loans:", error);
+  }
+
   const showSuccessAlert = searchParams.success === "true";
   const showErrorAlert = searchParams.error === "true";
+  const hasSyncSummary =
+    searchParams.added !== undefined ||
+    searchParams.updated !== undefined ||
+    searchParams.removed !== undefined;
 
   return (
     <SubscriptionCheck>
@@ -70,6 +119,13 @@ export default async function AssetsPage({
                 <AlertDescription className="text-green-700">
                   Your accounts have been successfully linked and assets
                   imported from SnapTrade.
+                  {hasSyncSummary && (
+                    <span className="block mt-1">
+                      {Number(searchParams.added) || 0} added,{" "}
+                      {Number(searchParams.updated) || 0} updated,{" "}
+                      {Number(searchParams.removed) || 0} closed.
+                    </span>
+                  )}
                 </AlertDescription>
               </Alert>
             )}
@@ -134,6 +190,9 @@ export default async function AssetsPage({
                           <th className="text-right p-3 font-medium text-sm">
                             Gain/Loss
                           </th>
+                          <th className="text-right p-3 font-medium text-sm">
+                            Trend
+                          </th>
                           <th className="text-right p-3 font-medium text-sm">
                             Actions
                           </th>
@@ -145,6 +204,9 @@ export default async function AssetsPage({
                           const isStock =
                             asset.metadata?.asset_type === "stock";
                           const stockMetadata = isStock ? asset.metadata : null;
+                          const isClosed =
+                            asset.metadata?.position_status === "closed";
+                          const securedLoans = loansByAsset[asset.id];
 
                           // Calculate gain/loss if it's a stock
                           const gainLoss =
@@ -179,11 +241,41 @@ export default async function AssetsPage({
                               className="hover:bg-muted/30 transition-colors"
                             >
                               <td className="p-3">
-                                <div className="font-medium">{asset.name}</div>
+                                <div className="font-medium">
+                                  {asset.asset_categories?.slug ===
+                                  "real-estate" ? (
+                                    <Link
+                                      href={`/dashboard/properties/${asset.id}`}
+                                      className="hover:underline"
+                                    >
+                                      {asset.name}
+                                    </Link>
+                                  ) : (
+                                    asset.name
+                                  )}
+                                  {isClosed && (
+                                    <span className="ml-2 rounded bg-gray-100 px-1.5 py-0.5 text-xs font-normal text-muted-foreground">
+                                      Closed
+                                    </span>
+                                  )}
+                                </div>
                                 <div className="text-xs text-muted-foreground">
                                   {asset.asset_categories?.name ||
                                     "Uncategorized"}
                                 </div>
+                                {securedLoans && (
+                                  <div className="text-xs text-muted-foreground">
+                                    Equity $
+                                    {calculateEquity(
+                                      asset.value,
+                                      securedLoans,
+                                    ).toFixed(2)}{" "}
+                                    after{" "}
+                                    {securedLoans
+                                      .map((loan) => loan.name)
+                                      .join(", ")}
+                                  </div>
+                                )}
                               </td>
                               <td className="p-3 text-right">
                                 {isStock
@@ -225,6 +317,11 @@ export default async function AssetsPage({
                                   "-"
                                 )}
                               </td>
+                              <td className="p-3 text-right">
+                                <AssetSparkline
+                                  history={historyByAsset[asset.id]}
+                                />
+                              </td>
                               <td className="p-3 text-right">
                                 <form action={deleteAsset}>
                                   <input
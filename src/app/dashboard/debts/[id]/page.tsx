@@ -0,0 +1,413 @@
+import DashboardNavbar from "@/components/dashboard-navbar";
+import Sidebar from "@/components/dashboard/sidebar";
+import { createClient } from "../../../../../supabase/server";
+import { notFound, redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import Link from "next/link";
+import { SubscriptionCheck } from "@/components/subscription-check";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft } from "lucide-react";
+import {
+  LOAN_TYPES,
+  fetchLiabilityDetails,
+  getLoanTypeLabel,
+  getTermStartDate,
+  projectLiability,
+} from "@/utils/liabilities";
+import { getAssetCurrency } from "@/utils/fx";
+import { fetchVehicles } from "@/utils/vehicles";
+
+async function saveLiabilityDetails(formData: FormData) {
+  "use server";
+
+  const assetId = formData.get("assetId") as string;
+  if (!assetId) {
+    return;
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/sign-in");
+  }
+
+  const toNumber = (key: string) => {
+    const value = formData.get(key) as string;
+    return value ? parseFloat(value) : null;
+  };
+
+  // The debt must be the user's own
+  const { data: liability } = await supabase
+    .from("assets")
+    .select("id")
+    .eq("id", assetId)
+    .eq("user_id", user.id)
+    .eq("is_liability", true)
+    .maybeSingle();
+
+  if (!liability) {
+    console.error("Error saving liability details: debt not found");
+    return;
+  }
+
+  // Only the user's own non-liability assets can secure a loan
+  const securedAssetId = (formData.get("securedAssetId") as string) || null;
+  if (securedAssetId) {
+    const { data: securedAsset } = await supabase
+      .from("assets")
+      .select("id")
+      .eq("id", securedAssetId)
+      .eq("user_id", user.id)
+      .eq("is_liability", false)
+      .maybeSingle();
+
+    if (!securedAsset) {
+      console.error("Error saving liability details: invalid secured asset");
+      return;
+    }
+  }
+
+  // Keep the term's start date unless the term itself was changed
+  const termMonths = toNumber("termMonths");
+  const existing = await fetchLiabilityDetails(supabase, [assetId]);
+
+  const { error } = await supabase.from("liability_details").upsert(
+    {
+      asset_id: assetId,
+      user_id: user.id,
+      loan_type: (formData.get("loanType") as string) || "other",
+      interest_rate: toNumber("interestRate") ?? 0,
+      minimum_payment: toNumber("minimumPayment"),
+      term_months: termMonths,
+      term_start_date: getTermStartDate(termMonths, existing[assetId]),
+      payment_day: toNumber("paymentDay"),
+      secured_asset_id: securedAssetId,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "asset_id" },
+  );
+
+  if (error) {
+    console.error("Error saving liability details:", error);
+  }
+
+  revalidatePath(`/dashboard/debts/${assetId}`);
+  revalidatePath("/dashboard/debts");
+}
+
+const formatCurrency = (value: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(value);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export default async function DebtSchedulePage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/sign-in");
+  }
+
+  const { data: liability } = await supabase
+    .from("assets")
+    .select("*")
+    .eq("id", params.id)
+    .eq("is_liability", true)
+    .maybeSingle();
+
+  if (!liability) {
+    notFound();
+  }
+
+  let details = null;
+  try {
+    details = (await fetchLiabilityDetails(supabase, [liability.id]))[
+      liability.id
+    ];
+  } catch (error) {
+    console.error("Error loading liability details:", error);
+  }
+
+  let vehicles: Awaited<ReturnType<typeof fetchVehicles>> = [];
+  try {
+    vehicles = await fetchVehicles(supabase);
+  } catch (error) {
+    console.error("Error loading vehicles:", error);
+  }
+
+  const schedule = details ? projectLiability(liability.value, details) : null;
+  const securedVehicle = vehicles.find(
+    (vehicle) => vehicle.id === details?.securedAssetId,
+  );
+  // The schedule is shown in the loan's own currency
+  const currency = getAssetCurrency(liability);
+
+  return (
+    <SubscriptionCheck>
+      <DashboardNavbar />
+      <div className="flex">
+        <Sidebar />
+        <main className="w-full bg-gray-50 min-h-screen pl-64">
+          <div className="container mx-auto px-4 py-8 flex flex-col gap-8">
+            {/* Header Section */}
+            <header className="flex flex-col gap-2">
+              <Link
+                href="/dashboard/debts"
+                className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back to debts
+              </Link>
+              <h1 className="text-3xl font-bold">{liability.name}</h1>
+              <p className="text-muted-foreground">
+                {getLoanTypeLabel(details?.loanType)} •{" "}
+                {liability.location || "No lender"}
+              </p>
+              {securedVehicle && (
+                <p className="text-sm text-muted-foreground">
+                  Secured by {securedVehicle.name} • Equity{" "}
+                  {formatCurrency(
+                    securedVehicle.value - liability.value,
+                    currency,
+                  )}
+                </p>
+              )}
+            </header>
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Balance</p>
+                  <p className="text-2xl font-bold text-red-600">
+                    {formatCurrency(liability.value, currency)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">
+                    Monthly Payment
+                  </p>
+                  <p className="text-2xl font-bold">
+                    {schedule
+                      ? formatCurrency(schedule.monthlyPayment, currency)
+                      : "-"}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Payoff Date</p>
+                  <p className="text-2xl font-bold">
+                    {schedule?.payoffDate
+                      ? formatDate(schedule.payoffDate)
+                      : "-"}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">
+                    Total Interest
+                  </p>
+                  <p className="text-2xl font-bold">
+                    {schedule?.paysOff
+                      ? formatCurrency(schedule.totalInterest, currency)
+                      : "-"}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Loan Terms */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Loan Terms</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form
+                  action={saveLiabilityDetails}
+                  className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end"
+                >
+                  <input type="hidden" name="assetId" value={liability.id} />
+                  <div className="space-y-2">
+                    <Label htmlFor="loanType">Loan Type</Label>
+                    <select
+                      id="loanType"
+                      name="loanType"
+                      defaultValue={details?.loanType || "other"}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      {LOAN_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="interestRate">APR (%)</Label>
+                    <Input
+                      id="interestRate"
+                      name="interestRate"
+                      type="number"
+                      step="any"
+                      min="0"
+                      defaultValue={details?.interestRate ?? ""}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="minimumPayment">Minimum Payment</Label>
+                    <Input
+                      id="minimumPayment"
+                      name="minimumPayment"
+                      type="number"
+                      step="any"
+                      min="0"
+                      defaultValue={details?.minimumPayment ?? ""}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="termMonths">Remaining Term (months)</Label>
+                    <Input
+                      id="termMonths"
+                      name="termMonths"
+                      type="number"
+                      min="1"
+                      defaultValue={details?.termMonths ?? ""}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentDay">Payment Day</Label>
+                    <Input
+                      id="paymentDay"
+                      name="paymentDay"
+                      type="number"
+                      min="1"
+                      max="31"
+                      defaultValue={details?.paymentDay ?? ""}
+                    />
+                  </div>
+                  {vehicles.length > 0 && (
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="securedAssetId">Secured By Vehicle</Label>
+                      <select
+                        id="securedAssetId"
+                        name="securedAssetId"
+                        defaultValue={details?.securedAssetId || ""}
+                        className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                      >
+                        <option value="">None</option>
+                        {vehicles.map((vehicle) => (
+                          <option key={vehicle.id} value={vehicle.id}>
+                            {vehicle.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <div className="md:col-span-5 flex justify-end">
+                    <Button type="submit">Save Terms</Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Amortization Schedule */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Payoff Schedule</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!schedule ? (
+                  <p className="text-center py-8 text-muted-foreground">
+                    Add the interest rate and a minimum payment or term to
+                    project this debt's payoff.
+                  </p>
+                ) : !schedule.paysOff ? (
+                  <p className="text-center py-8 text-muted-foreground">
+                    The monthly payment doesn't cover the interest, so this debt
+                    never gets paid off. Increase the minimum payment.
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="bg-muted/50">
+                          <th className="text-left p-3 text-sm font-medium">
+                            #
+                          </th>
+                          <th className="text-left p-3 text-sm font-medium">
+                            Date
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Payment
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Principal
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Interest
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Balance
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {schedule.rows.map((row) => (
+                          <tr key={row.period}>
+                            <td className="p-3 text-sm">{row.period}</td>
+                            <td className="p-3 text-sm">
+                              {formatDate(row.date)}
+                            </td>
+                            <td className="p-3 text-sm text-right">
+                              {formatCurrency(row.payment, currency)}
+                            </td>
+                            <td className="p-3 text-sm text-right">
+                              {formatCurrency(row.principal, currency)}
+                            </td>
+                            <td className="p-3 text-sm text-right">
+                              {formatCurrency(row.interest, currency)}
+                            </td>
+                            <td className="p-3 text-sm text-right font-medium">
+                              {formatCurrency(row.balance, currency)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </SubscriptionCheck>
+  );
+}
@@ -5,6 +5,39 @@ import { redirect } from "next/navigation";
 import { SubscriptionCheck } from "@/components/subscription-check";
 import AddAssetButton from "@/components/dashboard/add-asset-button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import Link from "next/link";
+import {
+  fetchLiabilityDetails,
+  getLoanTypeLabel,
+  projectLiability,
+  type LiabilityDetails,
+} from "@/utils/liabilities";
+import {
+  PAYOFF_STRATEGIES,
+  simulatePayoff,
+  toPayoffDebts,
+  toPayoffPlan,
+} from "@/utils/debt-payoff";
+import DebtPayoffSimulator from "@/components/dashboard/debt-payoff-simulator";
+import {
+  convertAmount,
+  convertAssetValues,
+  fetchCurrencyContext,
+  getAssetCurrency,
+} from "@/utils/fx";
+
+const formatCurrency = (value: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+const formatMonth = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+  });
 
 export default async function DebtsPage() {
   const supabase = await createClient();
@@ -18,11 +51,80 @@ export default async function DebtsPage() {
   }
 
   // Fetch user's liabilities
-  const { data: liabilities } = await supabase
+  const { data: liabilityRows } = await supabase
     .from("assets")
     .select("*, asset_categories(name, slug, icon)")
     .eq("is_liability", true);
 
+  // Show every debt in the user's base currency
+  const { baseCurrency, rates } = await fetchCurrencyContext(supabase, user.id);
+  const liabilities = convertAssetValues(
+    liabilityRows || [],
+    baseCurrency,
+    rates,
+  );
+
+  // Fetch loan terms for the payoff projections
+  let detailsByAsset: Record<string, LiabilityDetails> = {};
+  try {
+    detailsByAsset = await fetchLiabilityDetails(
+      supabase,
+      liabilities.map((liability) => liability.id),
+    );
+  } catch (error) {
+    console.error("Error loading liability details:", error);
+  }
+
+  // Minimum payments are in the loan's currency too
+  for (const liability of liabilities) {
+    const details = detailsByAsset[liability.id];
+    if (details?.minimumPayment) {
+      detailsByAsset[liability.id] = {
+        ...details,
+        minimumPayment: convertAmount(
+          details.minimumPayment,
+          getAssetCurrency(liability),
+          baseCurrency,
+          rates,
+        ),
+      };
+    }
+  }
+
+  // Fetch the vehicles securing auto loans to show their equity
+  const securedAssetIds = Object.values(detailsByAsset)
+    .map((details) => details.securedAssetId)
+    .filter((id): id is string => Boolean(id));
+  const { data: securedAssetRows } = securedAssetIds.length
+    ? await supabase
+        .from("assets")
+        .select("id, name, value, currency, metadata")
+        .in("id", securedAssetIds)
+    : { data: [] };
+  const securedAssets = new Map(
+    convertAssetValues(securedAssetRows || [], baseCurrency, rates).map(
+      (asset) => [asset.id, asset],
+    ),
+  );
+
+  // Fetch the active payoff plan and project it from today's balances
+  const { data: planRow } = await supabase
+    .from("debt_payoff_plans")
+    .select("*")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  const payoffDebts = toPayoffDebts(liabilities, detailsByAsset);
+  const activePlan = planRow ? toPayoffPlan(planRow) : null;
+  const activePlanResult = activePlan
+    ? simulatePayoff(
+        payoffDebts,
+        activePlan.extraPayment,
+        activePlan.strategy,
+        activePlan.customOrder,
+      )
+    : null;
+
   return (
     <SubscriptionCheck>
       <DashboardNavbar />
@@ -36,48 +138,158 @@ export default async function DebtsPage() {
               <AddAssetButton />
             </header>
 
+            {/* Active Payoff Plan */}
+            {activePlan && activePlanResult && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Active Payoff Plan</CardTitle>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Strategy</p>
+                    <p className="text-xl font-bold">
+                      {PAYOFF_STRATEGIES.find(
+                        (strategy) => strategy.value === activePlan.strategy,
+                      )?.label || activePlan.strategy}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">
+                      Extra per month
+                    </p>
+                    <p className="text-xl font-bold">
+                      {formatCurrency(activePlan.extraPayment, baseCurrency)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Debt-free</p>
+                    <p className="text-xl font-bold">
+                      {activePlanResult.debtFreeDate
+                        ? formatMonth(activePlanResult.debtFreeDate)
+                        : "Not on track"}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">
+                      Interest remaining
+                    </p>
+                    <p className="text-xl font-bold">
+                      {activePlanResult.paysOff
+                        ? formatCurrency(
+                            activePlanResult.totalInterest,
+                            baseCurrency,
+                          )
+                        : "-"}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Liabilities List */}
             <Card>
               <CardHeader>
                 <CardTitle>All Liabilities</CardTitle>
               </CardHeader>
               <CardContent>
-                {liabilities && liabilities.length > 0 ? (
+                {liabilities.length > 0 ? (
                   <div className="divide-y">
-                    {liabilities.map((liability) => (
-                      <div
-                        key={liability.id}
-                        className="py-4 flex justify-between items-center"
-                      >
-                        <div>
-                          <h3 className="font-medium">{liability.name}</h3>
-                          <p className="text-sm text-muted-foreground">
-                            {liability.asset_categories?.name ||
-                              "Uncategorized"}{" "}
-                            • {liability.location || "No lender"}
-                          </p>
-                        </div>
-                        <div className="text-right">
-                          <p className="font-bold text-red-600">
-                            {new Intl.NumberFormat("en-US", {
-                              style: "currency",
-                              currency: "USD",
-                              maximumFractionDigits: 0,
-                            }).format(liability.value)}
-                          </p>
-                          {liability.acquisition_value && (
-                            <p className="text-xs text-muted-foreground">
-                              Original amount:{" "}
-                              {new Intl.NumberFormat("en-US", {
-                                style: "currency",
-                                currency: "USD",
-                                maximumFractionDigits: 0,
-                              }).format(liability.acquisition_value)}
+                    {liabilities.map((liability) => {
+                      const details = detailsByAsset[liability.id];
+                      const schedule = details
+                        ? projectLiability(liability.value, details)
+                        : null;
+                      const securedAsset = details?.securedAssetId
+                        ? securedAssets.get(details.securedAssetId)
+                        : undefined;
+
+                      return (
+                        <div
+                          key={liability.id}
+                          className="py-4 flex justify-between items-center gap-4"
+                        >
+                          <div>
+                            <Link
+                              href={`/dashboard/debts/${liability.id}`}
+                              className="font-medium hover:underline"
+                            >
+                              {liability.name}
+                            </Link>
+                            <p className="text-sm text-muted-foreground">
+                              {details
+                                ? getLoanTypeLabel(details.loanType)
+                                : liability.asset_categories?.name ||
+                                  "Uncategorized"}{" "}
+                              • {liability.location || "No lender"}
+                            </p>
+                            {details ? (
+                              <p className="text-xs text-muted-foreground">
+                                {details.interestRate}% APR
+                                {schedule && schedule.monthlyPayment > 0 && (
+                                  <>
+                                    {" "}
+                                    •{" "}
+                                    {formatCurrency(
+                                      schedule.monthlyPayment,
+                                      baseCurrency,
+                                    )}
+                                    /mo
+                                  </>
+                                )}
+                                {schedule?.payoffDate && (
+                                  <>
+                                    {" "}
+                                    • Paid off{" "}
+                                    {formatMonth(schedule.payoffDate)} •{" "}
+                                    {formatCurrency(
+                                      schedule.totalInterest,
+                                      baseCurrency,
+                                    )}{" "}
+                                    interest
+                                  </>
+                                )}
+                                {schedule && !schedule.paysOff && (
+                                  <span className="text-red-600">
+                                    {" "}
+                                    • Payment doesn't cover interest
+                                  </span>
+                                )}
+                              </p>
+                            ) : (
+                              <Link
+                                href={`/dashboard/debts/${liability.id}`}
+                                className="text-xs text-blue-600 hover:underline"
+                              >
+                                Add loan terms
+                              </Link>
+                            )}
+                            {securedAsset && (
+                              <p className="text-xs text-muted-foreground">
+                                Secured by {securedAsset.name} • Equity{" "}
+                                {formatCurrency(
+                                  securedAsset.value - liability.value,
+                                  baseCurrency,
+                                )}
+                              </p>
+                            )}
+                          </div>
+                          <div className="text-right">
+                            <p className="font-bold text-red-600">
+                              {formatCurrency(liability.value, baseCurrency)}
                             </p>
-                          )}
+                            {liability.acquisition_value && (
+                              <p className="text-xs text-muted-foreground">
+                                Original amount:{" "}
+                                {formatCurrency(
+                                  liability.acquisition_value,
+                                  baseCurrency,
+                                )}
+                              </p>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 ) : (
                   <div className="text-center py-8">
@@ -88,6 +300,13 @@ export default async function DebtsPage() {
                 )}
               </CardContent>
             </Card>
+
+            {/* Payoff Simulator */}
+            <DebtPayoffSimulator
+              debts={payoffDebts}
+              activePlan={activePlan}
+              currency={baseCurrency}
+            />
           </div>
         </main>
       </div>
@@ -4,8 +4,53 @@ import { createClient } from "../../../../supabase/server";
 import { redirect } from "next/navigation";
 import { SubscriptionCheck } from "@/components/subscription-check";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
-import { PlusCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import GoalFormDialog from "@/components/dashboard/goal-form-dialog";
+import DeleteGoalButton from "@/components/dashboard/delete-goal-button";
+import {
+  calculateGoalProgress,
+  fetchGoals,
+  type Goal,
+  type GoalAsset,
+} from "@/utils/goals";
+import {
+  buildGoalValueSeries,
+  forecastGoal,
+  type GoalStatus,
+} from "@/utils/goal-forecast";
+import {
+  fetchAssetHistory,
+  type AssetHistoryPoint,
+} from "@/utils/asset-history";
+import {
+  convertAmount,
+  convertAssetValues,
+  fetchCurrencyContext,
+} from "@/utils/fx";
+
+const statusBadges: Record<GoalStatus, { label: string; className: string }> = {
+  achieved: { label: "Achieved", className: "bg-green-100 text-green-800" },
+  ahead: { label: "Ahead", className: "bg-emerald-100 text-emerald-800" },
+  on_track: { label: "On track", className: "bg-blue-100 text-blue-800" },
+  behind: { label: "Behind", className: "bg-red-100 text-red-800" },
+  no_deadline: {
+    label: "No deadline",
+    className: "bg-gray-100 text-gray-700",
+  },
+};
+
+const formatMonth = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+  });
+
+const formatCurrency = (value: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(value);
 
 export default async function GoalsPage() {
   const supabase = await createClient();
@@ -18,33 +63,61 @@ export default async function GoalsPage() {
     return redirect("/sign-in");
   }
 
-  // Sample goals data
-  const goals = [
-    {
-      id: 1,
-      name: "Retirement Fund",
-      target: 1000000,
-      current: 350000,
-      deadline: "2045-01-01",
-      progress: 35,
-    },
-    {
-      id: 2,
-      name: "Home Down Payment",
-      target: 100000,
-      current: 65000,
-      deadline: "2025-06-30",
-      progress: 65,
-    },
-    {
-      id: 3,
-      name: "Emergency Fund",
-      target: 30000,
-      current: 30000,
-      deadline: "2023-12-31",
-      progress: 100,
-    },
-  ];
+  // Fetch goals and the assets their progress is computed from
+  let goals: Goal[] = [];
+  try {
+    goals = await fetchGoals(supabase, user.id);
+  } catch (error) {
+    console.error("Error loading goals:", error);
+  }
+
+  const { data: assetRows } = await supabase
+    .from("assets")
+    .select(
+      "id, name, value, currency, metadata, is_liability, asset_categories(name, slug)",
+    )
+    .eq("is_liability", false)
+    .order("name");
+
+  const { data: categoryRows } = await supabase
+    .from("asset_categories")
+    .select("name, slug")
+    .neq("slug", "debt")
+    .order("name");
+
+  // Goals are tracked in the user's base currency, like the other totals
+  const { baseCurrency, rates } = await fetchCurrencyContext(supabase, user.id);
+  const assets = convertAssetValues(
+    assetRows || [],
+    baseCurrency,
+    rates,
+  ) as unknown as (GoalAsset & { original_currency: string })[];
+  const categories = categoryRows || [];
+
+  // A year of history for every linked asset, used by the forecasts
+  const historyByAsset: Record<string, AssetHistoryPoint[]> = {};
+  try {
+    const history = await fetchAssetHistory(
+      supabase,
+      assets.map((asset) => asset.id),
+      365,
+    );
+    // Past values are converted at today's rates, so the trend reflects the
+    // assets rather than currency moves
+    for (const asset of assets) {
+      historyByAsset[asset.id] = (history[asset.id] || []).map((point) => ({
+        ...point,
+        value: convertAmount(
+          point.value,
+          asset.original_currency,
+          baseCurrency,
+          rates,
+        ),
+      }));
+    }
+  } catch (error) {
+    console.error("Error loading asset history:", error);
+  }
 
   return (
     <SubscriptionCheck>
@@ -61,68 +134,183 @@ export default async function GoalsPage() {
                   Track your progress towards important financial milestones
                 </p>
               </div>
-              <Button>
-                <PlusCircle className="h-4 w-4 mr-2" />
-                Add New Goal
-              </Button>
+              <GoalFormDialog
+                assets={assets}
+                categories={categories}
+                currency={baseCurrency}
+              />
             </header>
 
             {/* Goals List */}
-            <div className="grid grid-cols-1 gap-6">
-              {goals.map((goal) => (
-                <Card key={goal.id}>
-                  <CardHeader className="pb-2">
-                    <div className="flex justify-between items-start">
-                      <CardTitle>{goal.name}</CardTitle>
-                      <div className="text-right">
-                        <p className="text-sm font-medium">
-                          Target:{" "}
-                          {new Intl.NumberFormat("en-US", {
-                            style: "currency",
-                            currency: "USD",
-                            maximumFractionDigits: 0,
-                          }).format(goal.target)}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          Deadline:{" "}
-                          {new Date(goal.deadline).toLocaleDateString()}
-                        </p>
-                      </div>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      <div className="flex justify-between items-center">
-                        <span className="text-sm font-medium">
-                          {new Intl.NumberFormat("en-US", {
-                            style: "currency",
-                            currency: "USD",
-                            maximumFractionDigits: 0,
-                          }).format(goal.current)}
-                        </span>
-                        <span className="text-sm font-medium">
-                          {goal.progress}%
-                        </span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2.5">
-                        <div
-                          className={`h-2.5 rounded-full ${goal.progress === 100 ? "bg-green-600" : "bg-blue-600"}`}
-                          style={{ width: `${goal.progress}%` }}
-                        ></div>
-                      </div>
-                      <div className="flex justify-between">
-                        <Button variant="outline" size="sm">
-                          Update Progress
-                        </Button>
-                        <Button variant="ghost" size="sm">
-                          Edit Goal
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+            {goals.length > 0 ? (
+              <div className="grid grid-cols-1 gap-6">
+                {goals.map((goal) => {
+                  const { current, progress, assetIds, isLinked } =
+                    calculateGoalProgress(goal, assets);
+                  const forecast = forecastGoal({
+                    current,
+                    target: goal.targetAmount,
+                    deadline: goal.deadline,
+                    monthlyContribution: goal.monthlyContribution,
+                    expectedReturn: goal.expectedReturn,
+                    history: buildGoalValueSeries(assetIds, historyByAsset),
+                  });
+                  const badge = statusBadges[forecast.status];
+                  const linkedNames = [
+                    ...categories
+                      .filter((category) =>
+                        goal.linkedCategorySlugs.includes(category.slug),
+                      )
+                      .map((category) => category.name),
+                    ...assets
+                      .filter((asset) => goal.linkedAssetIds.includes(asset.id))
+                      .map((asset) => asset.name),
+                  ];
+
+                  return (
+                    <Card key={goal.id}>
+                      <CardHeader className="pb-2">
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <CardTitle>{goal.name}</CardTitle>
+                              <Badge
+                                variant="outline"
+                                className={`border-0 ${badge.className}`}
+                              >
+                                {badge.label}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {isLinked
+                                ? `Tracking ${linkedNames.join(", ")} (${assetIds.length} asset${assetIds.length === 1 ? "" : "s"})`
+                                : "Tracked manually"}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="text-sm font-medium">
+                              Target:{" "}
+                              {formatCurrency(goal.targetAmount, baseCurrency)}
+                            </p>
+                            {goal.deadline && (
+                              <p className="text-xs text-muted-foreground">
+                                Deadline:{" "}
+                                {new Date(
+                                  `${goal.deadline}T00:00:00`,
+                                ).toLocaleDateString()}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium">
+                              {formatCurrency(current, baseCurrency)}
+                            </span>
+                            <span className="text-sm font-medium">
+                              {progress}%
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2.5">
+                            <div
+                              className={`h-2.5 rounded-full ${progress === 100 ? "bg-green-600" : "bg-blue-600"}`}
+                              style={{ width: `${progress}%` }}
+                            ></div>
+                          </div>
+                          {forecast.status !== "achieved" && (
+                            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+                              <div>
+                                <p className="text-muted-foreground">
+                                  Projected
+                                </p>
+                                <p className="font-medium">
+                                  {forecast.projectedDate
+                                    ? formatMonth(forecast.projectedDate)
+                                    : "Not reached at current pace"}
+                                </p>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">
+                                  {forecast.basis === "history"
+                                    ? "Historical pace"
+                                    : "Planned contribution"}
+                                </p>
+                                <p className="font-medium">
+                                  {forecast.basis === "none"
+                                    ? "Not set"
+                                    : `${formatCurrency(forecast.monthlyGrowth, baseCurrency)}/mo${
+                                        forecast.basis === "plan" &&
+                                        goal.expectedReturn > 0
+                                          ? ` at ${goal.expectedReturn}%`
+                                          : ""
+                                      }`}
+                                </p>
+                              </div>
+                              {forecast.basis === "plan" &&
+                                forecast.historicalMonthlyChange !== null && (
+                                  <div>
+                                    <p className="text-muted-foreground">
+                                      Historical pace
+                                    </p>
+                                    <p className="font-medium">
+                                      {formatCurrency(
+                                        forecast.historicalMonthlyChange,
+                                        baseCurrency,
+                                      )}
+                                      /mo
+                                      {forecast.historicalProjectedDate
+                                        ? `, reached ${formatMonth(forecast.historicalProjectedDate)}`
+                                        : ", not reached"}
+                                    </p>
+                                  </div>
+                                )}
+                              {forecast.requiredMonthlyContribution !==
+                                null && (
+                                <div>
+                                  <p className="text-muted-foreground">
+                                    Needed to hit deadline
+                                  </p>
+                                  <p className="font-medium">
+                                    {formatCurrency(
+                                      forecast.requiredMonthlyContribution,
+                                      baseCurrency,
+                                    )}
+                                    /mo
+                                  </p>
+                                </div>
+                              )}
+                            </div>
+                          )}
+                          <div className="flex justify-end gap-2">
+                            <GoalFormDialog
+                              goal={goal}
+                              assets={assets}
+                              categories={categories}
+                              currency={baseCurrency}
+                            />
+                            <DeleteGoalButton
+                              goalId={goal.id}
+                              goalName={goal.name}
+                            />
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="text-center py-8">
+                  <p className="text-muted-foreground">
+                    No goals yet. Add one and link it to your assets to track
+                    progress automatically.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </main>
       </div>
@@ -7,12 +7,18 @@ import AssetCategoryWidgetClient from "@/components/dashboard/asset-category-wid
 import AddAssetButton from "@/components/dashboard/add-asset-button";
 import PortfolioChart from "@/components/dashboard/portfolio-chart";
 import RecentTransactions from "@/components/dashboard/recent-transactions";
+import {
+  fetchRecentTransactions,
+  type RecentTransaction,
+} from "@/utils/transactions";
 import AssetAllocationChart from "@/components/dashboard/asset-allocation-chart";
 import Sidebar from "@/components/dashboard/sidebar";
 import {
   handleAddAsset,
   handleViewDetails,
 } from "@/app/actions/dashboard-actions";
+import { fetchNetWorthChange } from "@/utils/net-worth-history";
+import { convertAssetValues, fetchCurrencyContext } from "@/utils/fx";
 
 export default async function Dashboard() {
   const supabase = await createClient();
@@ -31,10 +37,14 @@ export default async function Dashboard() {
     .select("*");
 
   // Fetch user's assets
-  const { data: assets } = await supabase
+  const { data: assetRows } = await supabase
     .from("assets")
     .select("*, asset_categories(name, slug, icon)");
 
+  // Convert every asset into the user's base currency before summing
+  const { baseCurrency, rates } = await fetchCurrencyContext(supabase, user.id);
+  const assets = convertAssetValues(assetRows || [], baseCurrency, rates);
+
   // Calculate totals
   const totalAssets = assets
     ? assets
@@ -50,6 +60,22 @@ export default async function Dashboard() {
 
   const netWorth = totalAssets - totalLiabilities;
 
+  // Compare against the snapshot from a month ago
+  const changePercentage = await fetchNetWorthChange(
+    supabase,
+    user.id,
+    netWorth,
+    baseCurrency,
+  );
+
+  // Latest imported account activity
+  let recentTransactions: RecentTransaction[] = [];
+  try {
+    recentTransactions = await fetchRecentTransactions(supabase, user.id);
+  } catch (error) {
+    console.error("Error loading recent transactions:", error);
+  }
+
   // Group assets by category
   const assetsByCategory: Record<string, any[]> = {};
   if (assets) {
@@ -95,8 +121,8 @@ export default async function Dashboard() {
               netWorth={netWorth}
               totalAssets={totalAssets}
               totalLiabilities={totalLiabilities}
-              // Sample data
-              changePercentage={2.5}
+              changePercentage={changePercentage}
+              currency={baseCurrency}
             />
 
             {/* Charts Section */}
@@ -105,12 +131,14 @@ export default async function Dashboard() {
                 <PortfolioChart
                   totalAssets={totalAssets}
                   totalLiabilities={totalLiabilities}
+                  currency={baseCurrency}
                   className="h-full w-full"
                 />
               </div>
               <div className="w-1/3 bg-white">
                 <AssetAllocationChart
                   assets={assets}
+                  currency={baseCurrency}
                   className="h-full w-full"
                 />
               </div>
@@ -126,6 +154,7 @@ export default async function Dashboard() {
                 iconName="DollarSign"
                 totalValue={getCategoryTotal("cash")}
                 assetCount={getCategoryAssetCount("cash")}
+                currency={baseCurrency}
                 changePercentage={0.5}
               />
               <AssetCategoryWidgetClient
@@ -133,6 +162,7 @@ export default async function Dashboard() {
                 iconName="Landmark"
                 totalValue={getCategoryTotal("investments")}
                 assetCount={getCategoryAssetCount("investments")}
+                currency={baseCurrency}
                 changePercentage={3.2}
               />
               <AssetCategoryWidgetClient
@@ -140,6 +170,7 @@ export default async function Dashboard() {
                 iconName="Home"
                 totalValue={getCategoryTotal("real-estate")}
                 assetCount={getCategoryAssetCount("real-estate")}
+                currency={baseCurrency}
                 changePercentage={1.8}
               />
               <AssetCategoryWidgetClient
@@ -147,6 +178,7 @@ export default async function Dashboard() {
                 iconName="Coins"
                 totalValue={getCategoryTotal("cryptocurrency")}
                 assetCount={getCategoryAssetCount("cryptocurrency")}
+                currency={baseCurrency}
                 changePercentage={-2.1}
               />
               <AssetCategoryWidgetClient
@@ -154,6 +186,7 @@ export default async function Dashboard() {
                 iconName="Database"
                 totalValue={getCategoryTotal("precious-metals")}
                 assetCount={getCategoryAssetCount("precious-metals")}
+                currency={baseCurrency}
                 changePercentage={1.2}
               />
               <AssetCategoryWidgetClient
@@ -161,6 +194,7 @@ export default async function Dashboard() {
                 iconName="CreditCard"
                 totalValue={getCategoryTotal("debt")}
                 assetCount={getCategoryAssetCount("debt")}
+                currency={baseCurrency}
                 changePercentage={0}
               />
             </div>
@@ -169,7 +203,7 @@ export default async function Dashboard() {
             <h2 className="text-xl font-semibold text-gray-800 mt-6 mb-2">
               Recent Activity
             </h2>
-            <RecentTransactions />
+            <RecentTransactions transactions={recentTransactions} />
           </div>
         </main>
       </div>
@@ -0,0 +1,997 @@
+import DashboardNavbar from "@/components/dashboard-navbar";
+import Sidebar from "@/components/dashboard/sidebar";
+import { createClient } from "../../../../../supabase/server";
+import { notFound, redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import Link from "next/link";
+import { SubscriptionCheck } from "@/components/subscription-check";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Trash2 } from "lucide-react";
+import PropertyValueChart from "@/components/dashboard/property-value-chart";
+import {
+  fetchAssetHistory,
+  type AssetHistoryPoint,
+} from "@/utils/asset-history";
+import { getAssetCurrency } from "@/utils/fx";
+import {
+  calculateEquity,
+  fetchLiabilityDetails,
+  fetchSecuredLoans,
+  type LiabilityDetails,
+  type SecuredLoan,
+} from "@/utils/liabilities";
+import {
+  APPRAISAL_SOURCES,
+  PROPERTY_TYPES,
+  PROPERTY_VALUATION_METHODS,
+  buildPropertyTimeline,
+  calculateLtv,
+  fetchAppraisals,
+  fetchPropertyDetails,
+  getPropertyTypeLabel,
+  revalueProperty,
+  toPropertyDetails,
+  type PropertyAppraisal,
+} from "@/utils/real-estate";
+import {
+  calculateDebtService,
+  calculateRentalMetrics,
+  fetchRentalUnits,
+  type RentalUnit,
+} from "@/utils/rental-income";
+
+async function saveProperty(formData: FormData) {
+  "use server";
+
+  const assetId = formData.get("assetId") as string;
+  if (!assetId) {
+    return;
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/sign-in");
+  }
+
+  const appreciationRate = formData.get("appreciationRate") as string;
+  const { error } = await supabase.from("properties").upsert(
+    {
+      asset_id: assetId,
+      user_id: user.id,
+      property_type: (formData.get("propertyType") as string) || "other",
+      valuation_method:
+        (formData.get("valuationMethod") as string) || "appreciation",
+      appreciation_rate: appreciationRate ? parseFloat(appreciationRate) : 0,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "asset_id" },
+  );
+
+  if (error) {
+    console.error("Error saving property:", error);
+  }
+
+  // Link the chosen mortgage and unlink any other. Only the user's own
+  // debts can be linked.
+  const mortgageId = (formData.get("mortgageId") as string) || null;
+  if (mortgageId) {
+    const { data: mortgage } = await supabase
+      .from("assets")
+      .select("id")
+      .eq("id", mortgageId)
+      .eq("user_id", user.id)
+      .eq("is_liability", true)
+      .maybeSingle();
+
+    if (!mortgage) {
+      console.error("Error linking mortgage: debt not found");
+      return;
+    }
+  }
+  let unlink = supabase
+    .from("liability_details")
+    .update({ secured_asset_id: null, updated_at: new Date().toISOString() })
+    .eq("secured_asset_id", assetId);
+  if (mortgageId) {
+    unlink = unlink.neq("asset_id", mortgageId);
+  }
+  const { error: unlinkError } = await unlink;
+
+  if (unlinkError) {
+    console.error("Error unlinking mortgage:", unlinkError);
+  }
+
+  if (mortgageId) {
+    const { data: existing } = await supabase
+      .from("liability_details")
+      .select("id")
+      .eq("asset_id", mortgageId)
+      .maybeSingle();
+
+    const { error: linkError } = existing
+      ? await supabase
+          .from("liability_details")
+          .update({
+            secured_asset_id: assetId,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("asset_id", mortgageId)
+      : await supabase.from("liability_details").insert({
+          asset_id: mortgageId,
+          user_id: user.id,
+          loan_type: "mortgage",
+          secured_asset_id: assetId,
+        });
+
+    if (linkError) {
+      console.error("Error linking mortgage:", linkError);
+    }
+  }
+
+  try {
+    await revalueProperty(supabase, assetId);
+  } catch (revalueError) {
+    console.error("Error revaluing property:", revalueError);
+  }
+
+  revalidatePath(`/dashboard/properties/${assetId}`);
+  revalidatePath("/dashboard/assets");
+}
+
+async function saveRentalExpenses(formData: FormData) {
+  "use server";
+
+  const assetId = formData.get("assetId") as string;
+  if (!assetId) {
+    return;
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/sign-in");
+  }
+
+  const amount = (name: string) =>
+    Math.max(0, parseFloat(formData.get(name) as string) || 0);
+  const cashInvested = formData.get("cashInvested") as string;
+
+  const { error } = await supabase.from("properties").upsert(
+    {
+      asset_id: assetId,
+      user_id: user.id,
+      vacancy_rate: Math.min(100, amount("vacancyRate")),
+      annual_property_tax: amount("annualPropertyTax"),
+      annual_insurance: amount("annualInsurance"),
+      monthly_hoa: amount("monthlyHoa"),
+      annual_maintenance: amount("annualMaintenance"),
+      cash_invested: cashInvested ? amount("cashInvested") : null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "asset_id" },
+  );
+
+  if (error) {
+    console.error("Error saving rental expenses:", error);
+  }
+
+  revalidatePath(`/dashboard/properties/${assetId}`);
+  revalidatePath("/dashboard/revenue");
+}
+
+async function addRentalUnit(formData: FormData) {
+  "use server";
+
+  const assetId = formData.get("assetId") as string;
+  const unitName = formData.get("unitName") as string;
+  const monthlyRent = parseFloat(formData.get("monthlyRent") as string);
+  if (!assetId || !unitName || isNaN(monthlyRent) || monthlyRent < 0) {
+    return;
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/sign-in");
+  }
+
+  const { error } = await supabase.from("rental_units").insert({
+    asset_id: assetId,
+    user_id: user.id,
+    unit_name: unitName,
+    tenant_name: (formData.get("tenantName") as string) || null,
+    monthly_rent: monthlyRent,
+    lease_end: (formData.get("leaseEnd") as string) || null,
+  });
+
+  if (error) {
+    console.error("Error adding rental unit:", error);
+  }
+
+  revalidatePath(`/dashboard/properties/${assetId}`);
+  revalidatePath("/dashboard/revenue");
+}
+
+async function deleteRentalUnit(formData: FormData) {
+  "use server";
+
+  const assetId = formData.get("assetId") as string;
+  const unitId = formData.get("unitId") as string;
+  if (!assetId || !unitId) {
+    return;
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from("rental_units")
+    .delete()
+    .eq("id", unitId);
+
+  if (error) {
+    console.error("Error deleting rental unit:", error);
+  }
+
+  revalidatePath(`/dashboard/properties/${assetId}`);
+  revalidatePath("/dashboard/revenue");
+}
+
+async function addAppraisal(formData: FormData) {
+  "use server";
+
+  const assetId = formData.get("assetId") as string;
+  const appraisedOn = formData.get("appraisedOn") as string;
+  const value = formData.get("value") as string;
+  if (!assetId || !appraisedOn || !value) {
+    return;
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/sign-in");
+  }
+
+  const { error } = await supabase.from("property_appraisals").upsert(
+    {
+      asset_id: assetId,
+      user_id: user.id,
+      appraised_on: appraisedOn,
+      value: parseFloat(value),
+      source: (formData.get("source") as string) || "appraisal",
+      notes: (formData.get("notes") as string) || null,
+    },
+    { onConflict: "asset_id,appraised_on" },
+  );
+
+  if (error) {
+    console.error("Error saving appraisal:", error);
+  }
+
+  try {
+    await revalueProperty(supabase, assetId);
+  } catch (revalueError) {
+    console.error("Error revaluing property:", revalueError);
+  }
+
+  revalidatePath(`/dashboard/properties/${assetId}`);
+  revalidatePath("/dashboard/assets");
+}
+
+async function deleteAppraisal(formData: FormData) {
+  "use server";
+
+  const assetId = formData.get("assetId") as string;
+  const appraisalId = formData.get("appraisalId") as string;
+  if (!assetId || !appraisalId) {
+    return;
+  }
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from("property_appraisals")
+    .delete()
+    .eq("id", appraisalId);
+
+  if (error) {
+    console.error("Error deleting appraisal:", error);
+  }
+
+  try {
+    await revalueProperty(supabase, assetId);
+  } catch (revalueError) {
+    console.error("Error revaluing property:", revalueError);
+  }
+
+  revalidatePath(`/dashboard/properties/${assetId}`);
+  revalidatePath("/dashboard/assets");
+}
+
+const formatCurrency = (value: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+  }).format(value);
+
+const formatDate = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const formatPercent = (value: number | null) =>
+  value !== null ? `${value.toFixed(1)}%` : "-";
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+export default async function PropertyPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/sign-in");
+  }
+
+  const { data: property } = await supabase
+    .from("assets")
+    .select("*")
+    .eq("id", params.id)
+    .eq("is_liability", false)
+    .maybeSingle();
+
+  if (!property) {
+    notFound();
+  }
+
+  const { data: liabilities } = await supabase
+    .from("assets")
+    .select("id, name, value")
+    .eq("is_liability", true)
+    .order("name", { ascending: true });
+
+  let details = toPropertyDetails({ asset_id: property.id });
+  let appraisals: PropertyAppraisal[] = [];
+  let mortgages: SecuredLoan[] = [];
+  let units: RentalUnit[] = [];
+  try {
+    const [detailsByAsset, propertyAppraisals, loansByAsset, unitsByAsset] =
+      await Promise.all([
+        fetchPropertyDetails(supabase, [property.id]),
+        fetchAppraisals(supabase, property.id),
+        fetchSecuredLoans(supabase, [property.id]),
+        fetchRentalUnits(supabase, [property.id]),
+      ]);
+    details = detailsByAsset[property.id] || details;
+    appraisals = propertyAppraisals;
+    mortgages = loansByAsset[property.id] || [];
+    units = unitsByAsset[property.id] || [];
+  } catch (error) {
+    console.error("Error loading property:", error);
+  }
+
+  // Past balances come from the asset history, future ones from the terms
+  let mortgageHistory: Record<string, AssetHistoryPoint[]> = {};
+  let mortgageDetails: Record<string, LiabilityDetails> = {};
+  try {
+    const mortgageIds = mortgages.map((mortgage) => mortgage.id);
+    [mortgageHistory, mortgageDetails] = await Promise.all([
+      fetchAssetHistory(supabase, mortgageIds, 3650),
+      fetchLiabilityDetails(supabase, mortgageIds),
+    ]);
+  } catch (error) {
+    console.error("Error loading mortgage history:", error);
+  }
+
+  const currency = getAssetCurrency(property);
+  const loanBalance = mortgages.reduce(
+    (sum, mortgage) => sum + mortgage.balance,
+    0,
+  );
+  const equity = calculateEquity(property.value, mortgages);
+  const ltv = calculateLtv(loanBalance, property.value);
+  const timeline = buildPropertyTimeline(
+    property,
+    details,
+    appraisals,
+    mortgages.map((mortgage) => ({
+      balance: mortgage.balance,
+      details: mortgageDetails[mortgage.id],
+      history: mortgageHistory[mortgage.id] || [],
+    })),
+  );
+  const rental = calculateRentalMetrics(
+    units,
+    details,
+    property.value,
+    calculateDebtService(mortgages, mortgageDetails),
+  );
+
+  return (
+    <SubscriptionCheck>
+      <DashboardNavbar />
+      <div className="flex">
+        <Sidebar />
+        <main className="w-full bg-gray-50 min-h-screen pl-64">
+          <div className="container mx-auto px-4 py-8 flex flex-col gap-8">
+            {/* Header Section */}
+            <header className="flex flex-col gap-2">
+              <Link
+                href="/dashboard/assets"
+                className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Back to assets
+              </Link>
+              <h1 className="text-3xl font-bold">{property.name}</h1>
+              <p className="text-muted-foreground">
+                {getPropertyTypeLabel(details.propertyType)} •{" "}
+                {property.location || "No address"}
+              </p>
+            </header>
+
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">
+                    Estimated Value
+                  </p>
+                  <p className="text-2xl font-bold">
+                    {formatCurrency(property.value, currency)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">
+                    Mortgage Balance
+                  </p>
+                  <p className="text-2xl font-bold text-red-600">
+                    {mortgages.length > 0
+                      ? formatCurrency(loanBalance, currency)
+                      : "-"}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Equity</p>
+                  <p
+                    className={`text-2xl font-bold ${equity >= 0 ? "text-green-600" : "text-red-600"}`}
+                  >
+                    {formatCurrency(equity, currency)}
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Loan-to-Value</p>
+                  <p className="text-2xl font-bold">
+                    {ltv !== null && mortgages.length > 0
+                      ? `${ltv.toFixed(1)}%`
+                      : "-"}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Value vs. Loan Balance */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Value vs. Loan Balance</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PropertyValueChart points={timeline} currency={currency} />
+              </CardContent>
+            </Card>
+
+            {/* Property Details */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Property Details</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form
+                  action={saveProperty}
+                  className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+                >
+                  <input type="hidden" name="assetId" value={property.id} />
+                  <div className="space-y-2">
+                    <Label htmlFor="propertyType">Property Type</Label>
+                    <select
+                      id="propertyType"
+                      name="propertyType"
+                      defaultValue={details.propertyType}
+                      className={selectClassName}
+                    >
+                      {PROPERTY_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="valuationMethod">Valuation</Label>
+                    <select
+                      id="valuationMethod"
+                      name="valuationMethod"
+                      defaultValue={details.valuationMethod}
+                      className={selectClassName}
+                    >
+                      {PROPERTY_VALUATION_METHODS.map((method) => (
+                        <option key={method.value} value={method.value}>
+                          {method.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="appreciationRate">
+                      Appreciation (% per year)
+                    </Label>
+                    <Input
+                      id="appreciationRate"
+                      name="appreciationRate"
+                      type="number"
+                      step="any"
+                      defaultValue={details.appreciationRate}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="mortgageId">Mortgage</Label>
+                    <select
+                      id="mortgageId"
+                      name="mortgageId"
+                      defaultValue={mortgages[0]?.id || ""}
+                      className={selectClassName}
+                    >
+                      <option value="">None</option>
+                      {(liabilities || []).map((liability) => (
+                        <option key={liability.id} value={liability.id}>
+                          {liability.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="md:col-span-4 flex justify-end">
+                    <Button type="submit">Save Details</Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Rental Income */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Rental Income</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-col gap-6">
+                {units.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <p className="text-sm text-muted-foreground">
+                          Monthly Cash Flow
+                        </p>
+                        <p
+                          className={`text-2xl font-bold ${rental.monthlyCashFlow >= 0 ? "text-green-600" : "text-red-600"}`}
+                        >
+                          {formatCurrency(rental.monthlyCashFlow, currency)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">
+                          Annual NOI
+                        </p>
+                        <p className="text-2xl font-bold">
+                          {formatCurrency(rental.annualNoi, currency)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">
+                          Cap Rate
+                        </p>
+                        <p className="text-2xl font-bold">
+                          {formatPercent(rental.capRate)}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">
+                          Cash-on-Cash Return
+                        </p>
+                        <p className="text-2xl font-bold">
+                          {formatPercent(rental.cashOnCashReturn)}
+                        </p>
+                        {rental.cashOnCashReturn === null && (
+                          <p className="text-xs text-muted-foreground">
+                            Set the cash invested below
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="divide-y text-sm">
+                      {[
+                        ["Gross rent", rental.grossMonthlyRent],
+                        [
+                          `Vacancy (${details.vacancyRate}%)`,
+                          -rental.vacancyLoss,
+                        ],
+                        [
+                          "Operating expenses",
+                          -rental.monthlyOperatingExpenses,
+                        ],
+                        ["Net operating income", rental.monthlyNoi],
+                        ["Mortgage payments", -rental.monthlyDebtService],
+                        ["Cash flow", rental.monthlyCashFlow],
+                      ].map(([label, amount]) => (
+                        <div key={label} className="flex justify-between py-2">
+                          <span className="text-muted-foreground">{label}</span>
+                          <span className="font-medium">
+                            {formatCurrency(Number(amount), currency)}/mo
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {units.length === 0 ? (
+                  <p className="text-center py-4 text-muted-foreground">
+                    No rental units yet. Add one to track this property&apos;s
+                    rent and cash flow.
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="bg-muted/50">
+                          <th className="text-left p-3 text-sm font-medium">
+                            Unit
+                          </th>
+                          <th className="text-left p-3 text-sm font-medium">
+                            Tenant
+                          </th>
+                          <th className="text-left p-3 text-sm font-medium">
+                            Lease Ends
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Monthly Rent
+                          </th>
+                          <th className="p-3" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {units.map((unit) => (
+                          <tr key={unit.id}>
+                            <td className="p-3 text-sm font-medium">
+                              {unit.unitName}
+                            </td>
+                            <td className="p-3 text-sm">
+                              {unit.tenantName || (
+                                <span className="text-muted-foreground">
+                                  Vacant
+                                </span>
+                              )}
+                            </td>
+                            <td className="p-3 text-sm">
+                              {unit.leaseEnd ? formatDate(unit.leaseEnd) : "-"}
+                            </td>
+                            <td className="p-3 text-sm text-right font-medium">
+                              {formatCurrency(unit.monthlyRent, currency)}
+                            </td>
+                            <td className="p-3 text-right">
+                              <form action={deleteRentalUnit}>
+                                <input
+                                  type="hidden"
+                                  name="assetId"
+                                  value={property.id}
+                                />
+                                <input
+                                  type="hidden"
+                                  name="unitId"
+                                  value={unit.id}
+                                />
+                                <button
+                                  type="submit"
+                                  className="text-red-500 hover:text-red-700 transition-colors p-1 rounded-full hover:bg-red-50"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              </form>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <form
+                  action={addRentalUnit}
+                  className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+                >
+                  <input type="hidden" name="assetId" value={property.id} />
+                  <div className="space-y-2">
+                    <Label htmlFor="unitName">Unit</Label>
+                    <Input
+                      id="unitName"
+                      name="unitName"
+                      placeholder="e.g. Unit 1"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="tenantName">Tenant</Label>
+                    <Input
+                      id="tenantName"
+                      name="tenantName"
+                      placeholder="Leave empty if vacant"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="monthlyRent">Monthly Rent</Label>
+                    <Input
+                      id="monthlyRent"
+                      name="monthlyRent"
+                      type="number"
+                      step="any"
+                      min="0"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="leaseEnd">Lease Ends</Label>
+                    <Input id="leaseEnd" name="leaseEnd" type="date" />
+                  </div>
+                  <div className="md:col-span-4 flex justify-end">
+                    <Button type="submit">Add Unit</Button>
+                  </div>
+                </form>
+
+                <form
+                  action={saveRentalExpenses}
+                  className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end border-t pt-6"
+                >
+                  <input type="hidden" name="assetId" value={property.id} />
+                  <div className="space-y-2">
+                    <Label htmlFor="vacancyRate">Vacancy (%)</Label>
+                    <Input
+                      id="vacancyRate"
+                      name="vacancyRate"
+                      type="number"
+                      step="any"
+                      min="0"
+                      max="100"
+                      defaultValue={details.vacancyRate}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="annualPropertyTax">
+                      Property Tax (per year)
+                    </Label>
+                    <Input
+                      id="annualPropertyTax"
+                      name="annualPropertyTax"
+                      type="number"
+                      step="any"
+                      min="0"
+                      defaultValue={details.annualPropertyTax}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="annualInsurance">
+                      Insurance (per year)
+                    </Label>
+                    <Input
+                      id="annualInsurance"
+                      name="annualInsurance"
+                      type="number"
+                      step="any"
+                      min="0"
+                      defaultValue={details.annualInsurance}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="monthlyHoa">HOA (per month)</Label>
+                    <Input
+                      id="monthlyHoa"
+                      name="monthlyHoa"
+                      type="number"
+                      step="any"
+                      min="0"
+                      defaultValue={details.monthlyHoa}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="annualMaintenance">
+                      Maintenance (per year)
+                    </Label>
+                    <Input
+                      id="annualMaintenance"
+                      name="annualMaintenance"
+                      type="number"
+                      step="any"
+                      min="0"
+                      defaultValue={details.annualMaintenance}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="cashInvested">Cash Invested</Label>
+                    <Input
+                      id="cashInvested"
+                      name="cashInvested"
+                      type="number"
+                      step="any"
+                      min="0"
+                      placeholder="Down payment and closing costs"
+                      defaultValue={details.cashInvested ?? ""}
+                    />
+                  </div>
+                  <div className="md:col-span-3 flex justify-end">
+                    <Button type="submit">Save Expenses</Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Appraisal History */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Appraisal History</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-col gap-6">
+                {appraisals.length === 0 ? (
+                  <p className="text-center py-4 text-muted-foreground">
+                    No appraisals yet.{" "}
+                    {property.acquisition_value
+                      ? "The value grows from the purchase price."
+                      : "Add one, or a purchase price, to value this property."}
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="bg-muted/50">
+                          <th className="text-left p-3 text-sm font-medium">
+                            Date
+                          </th>
+                          <th className="text-left p-3 text-sm font-medium">
+                            Source
+                          </th>
+                          <th className="text-left p-3 text-sm font-medium">
+                            Notes
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Value
+                          </th>
+                          <th className="p-3" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {[...appraisals].reverse().map((appraisal) => (
+                          <tr key={appraisal.id}>
+                            <td className="p-3 text-sm">
+                              {formatDate(appraisal.appraisedOn)}
+                            </td>
+                            <td className="p-3 text-sm">
+                              {APPRAISAL_SOURCES.find(
+                                (source) => source.value === appraisal.source,
+                              )?.label || appraisal.source}
+                            </td>
+                            <td className="p-3 text-sm text-muted-foreground">
+                              {appraisal.notes || "-"}
+                            </td>
+                            <td className="p-3 text-sm text-right font-medium">
+                              {formatCurrency(appraisal.value, currency)}
+                            </td>
+                            <td className="p-3 text-right">
+                              <form action={deleteAppraisal}>
+                                <input
+                                  type="hidden"
+                                  name="assetId"
+                                  value={property.id}
+                                />
+                                <input
+                                  type="hidden"
+                                  name="appraisalId"
+                                  value={appraisal.id}
+                                />
+                                <button
+                                  type="submit"
+                                  className="text-red-500 hover:text-red-700 transition-colors p-1 rounded-full hover:bg-red-50"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              </form>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <form
+                  action={addAppraisal}
+                  className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+                >
+                  <input type="hidden" name="assetId" value={property.id} />
+                  <div className="space-y-2">
+                    <Label htmlFor="appraisedOn">Date</Label>
+                    <Input
+                      id="appraisedOn"
+                      name="appraisedOn"
+                      type="date"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="value">Value</Label>
+                    <Input
+                      id="value"
+                      name="value"
+                      type="number"
+                      step="any"
+                      min="0"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="source">Source</Label>
+                    <select
+                      id="source"
+                      name="source"
+                      defaultValue="appraisal"
+                      className={selectClassName}
+                    >
+                      {APPRAISAL_SOURCES.map((source) => (
+                        <option key={source.value} value={source.value}>
+                          {source.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="notes">Notes</Label>
+                    <Input id="notes" name="notes" />
+                  </div>
+                  <div className="md:col-span-4 flex justify-end">
+                    <Button type="submit">Add Appraisal</Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </SubscriptionCheck>
+  );
+}
@@ -2,8 +2,81 @@ import DashboardNavbar from "@/components/dashboard-navbar";
 import Sidebar from "@/components/dashboard/sidebar";
 import { createClient } from "../../../../supabase/server";
 import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import Link from "next/link";
 import { SubscriptionCheck } from "@/components/subscription-check";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  INCOME_RATE_FIELDS,
+  summarizePassiveIncome,
+  type RatedIncomeSourceType,
+} from "@/utils/passive-income";
+import {
+  convertRentalMetrics,
+  fetchRentalMetrics,
+  type RentalMetrics,
+} from "@/utils/rental-income";
+import { fetchReceivedIncome, type ReceivedIncome } from "@/utils/transactions";
+import {
+  convertAssetValues,
+  fetchCurrencyContext,
+  getAssetCurrency,
+} from "@/utils/fx";
+
+async function updateIncomeRate(formData: FormData) {
+  "use server";
+
+  const assetId = formData.get("assetId") as string;
+  const type = formData.get("type") as RatedIncomeSourceType;
+  const rate = parseFloat(formData.get("rate") as string);
+
+  if (!assetId || !INCOME_RATE_FIELDS[type] || isNaN(rate) || rate < 0) {
+    return;
+  }
+
+  const supabase = await createClient();
+
+  // Merge the rate into the existing metadata
+  const { data: asset } = await supabase
+    .from("assets")
+    .select("metadata")
+    .eq("id", assetId)
+    .single();
+
+  const { error } = await supabase
+    .from("assets")
+    .update({
+      metadata: {
+        ...(asset?.metadata || {}),
+        [INCOME_RATE_FIELDS[type]]: rate,
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", assetId);
+
+  if (error) {
+    console.error("Error updating income rate:", error);
+  }
+
+  revalidatePath("/dashboard/revenue");
+}
+
+const formatCurrency = (value: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+const formatPercent = (value: number | null) =>
+  value !== null ? `${value.toFixed(1)}%` : "-";
+
+const rateLabels: Record<RatedIncomeSourceType, string> = {
+  dividends: "Dividend yield (%)",
+  interest: "Interest rate (%)",
+};
 
 export default async function RevenuePage() {
   const supabase = await createClient();
@@ -16,6 +89,59 @@ export default async function RevenuePage() {
     return redirect("/sign-in");
   }
 
+  // Fetch user's assets to estimate income from
+  const { data: assetRows } = await supabase
+    .from("assets")
+    .select("*, asset_categories(name, slug, icon)")
+    .eq("is_liability", false);
+
+  // Estimate income in the user's base currency, like the other totals
+  const { baseCurrency, rates } = await fetchCurrencyContext(supabase, user.id);
+  const assets = convertAssetValues(assetRows || [], baseCurrency, rates);
+
+  // Dividends and interest actually paid out by connected brokers
+  let received: ReceivedIncome = {
+    dividends: 0,
+    interest: 0,
+    total: 0,
+    byAsset: {},
+  };
+  try {
+    received = await fetchReceivedIncome(
+      supabase,
+      user.id,
+      baseCurrency,
+      rates,
+    );
+  } catch (error) {
+    console.error("Error loading received income:", error);
+  }
+
+  // Rent, operating costs and mortgage payments of rented properties,
+  // calculated in each property's currency and then converted
+  let rentals: Record<string, RentalMetrics> = {};
+  try {
+    const properties = (assetRows || []).filter(
+      (asset) => asset.asset_categories?.slug === "real-estate",
+    );
+    const metrics = await fetchRentalMetrics(supabase, properties);
+
+    for (const property of properties) {
+      if (!metrics[property.id]) continue;
+      rentals[property.id] = convertRentalMetrics(
+        metrics[property.id],
+        getAssetCurrency(property),
+        baseCurrency,
+        rates,
+      );
+    }
+  } catch (error) {
+    console.error("Error loading rental income:", error);
+  }
+
+  const income = summarizePassiveIncome(assets, received.byAsset, rentals);
+  const rentalIncomes = income.assets.filter((asset) => asset.rental);
+
   return (
     <SubscriptionCheck>
       <DashboardNavbar />
@@ -38,7 +164,9 @@ export default async function RevenuePage() {
                   <CardTitle className="text-lg">Monthly Income</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <p className="text-3xl font-bold">$1,250</p>
+                  <p className="text-3xl font-bold">
+                    {formatCurrency(income.monthlyIncome, baseCurrency)}
+                  </p>
                   <p className="text-sm text-muted-foreground">
                     Estimated monthly passive income
                   </p>
@@ -50,7 +178,9 @@ export default async function RevenuePage() {
                   <CardTitle className="text-lg">Annual Income</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <p className="text-3xl font-bold">$15,000</p>
+                  <p className="text-3xl font-bold">
+                    {formatCurrency(income.annualIncome, baseCurrency)}
+                  </p>
                   <p className="text-sm text-muted-foreground">
                     Projected annual passive income
                   </p>
@@ -62,7 +192,9 @@ export default async function RevenuePage() {
                   <CardTitle className="text-lg">Yield</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <p className="text-3xl font-bold">4.2%</p>
+                  <p className="text-3xl font-bold">
+                    {income.portfolioYield.toFixed(1)}%
+                  </p>
                   <p className="text-sm text-muted-foreground">
                     Average yield across all assets
                   </p>
@@ -70,45 +202,303 @@ export default async function RevenuePage() {
               </Card>
             </div>
 
+            {/* Received Income */}
+            {received.total > 0 && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">
+                    Received in the Last 12 Months
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Dividends</p>
+                    <p className="text-2xl font-bold">
+                      {formatCurrency(received.dividends, baseCurrency)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Interest</p>
+                    <p className="text-2xl font-bold">
+                      {formatCurrency(received.interest, baseCurrency)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Total</p>
+                    <p className="text-2xl font-bold">
+                      {formatCurrency(received.total, baseCurrency)}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Income Sources */}
             <Card>
               <CardHeader>
                 <CardTitle>Income Sources</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="divide-y">
-                  {[
-                    { name: "Dividend Stocks", amount: 450, percentage: 36 },
-                    { name: "Rental Property", amount: 600, percentage: 48 },
-                    { name: "Interest", amount: 200, percentage: 16 },
-                  ].map((source, index) => (
-                    <div
-                      key={index}
-                      className="py-4 flex justify-between items-center"
-                    >
-                      <div>
-                        <h3 className="font-medium">{source.name}</h3>
-                        <div className="w-full bg-gray-200 rounded-full h-2.5 mt-2">
-                          <div
-                            className="bg-blue-600 h-2.5 rounded-full"
-                            style={{ width: `${source.percentage}%` }}
-                          ></div>
+                {income.annualIncome > 0 ? (
+                  <div className="divide-y">
+                    {income.sources
+                      .filter((source) => source.annualIncome > 0)
+                      .map((source) => (
+                        <div
+                          key={source.type}
+                          className="py-4 flex justify-between items-center"
+                        >
+                          <div className="flex-1 mr-8">
+                            <h3 className="font-medium">{source.label}</h3>
+                            <div className="w-full bg-gray-200 rounded-full h-2.5 mt-2">
+                              <div
+                                className="bg-blue-600 h-2.5 rounded-full"
+                                style={{ width: `${source.percentage}%` }}
+                              ></div>
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-bold">
+                              {formatCurrency(
+                                source.monthlyIncome,
+                                baseCurrency,
+                              )}
+                              /mo
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {source.percentage.toFixed(0)}% of total
+                            </p>
+                          </div>
                         </div>
-                      </div>
-                      <div className="text-right">
-                        <p className="font-bold">
-                          {new Intl.NumberFormat("en-US", {
-                            style: "currency",
-                            currency: "USD",
-                          }).format(source.amount)}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          {source.percentage}% of total
-                        </p>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                      ))}
+                  </div>
+                ) : (
+                  <p className="text-center py-8 text-muted-foreground">
+                    No passive income yet. Set dividend yields and interest
+                    rates below, or add a rent roll to your properties.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Rental Properties */}
+            {rentalIncomes.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Rental Properties</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="bg-muted/50">
+                          <th className="text-left p-3 text-sm font-medium">
+                            Property
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Gross Rent
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            NOI
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Mortgage
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Cash Flow
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Cap Rate
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Cash on Cash
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {rentalIncomes.map(({ assetId, name, rental }) =>
+                          rental ? (
+                            <tr key={assetId}>
+                              <td className="p-3">
+                                <Link
+                                  href={`/dashboard/properties/${assetId}`}
+                                  className="font-medium hover:underline"
+                                >
+                                  {name}
+                                </Link>
+                              </td>
+                              <td className="p-3 text-right">
+                                {formatCurrency(
+                                  rental.grossMonthlyRent,
+                                  baseCurrency,
+                                )}
+                                /mo
+                              </td>
+                              <td className="p-3 text-right">
+                                {formatCurrency(
+                                  rental.monthlyNoi,
+                                  baseCurrency,
+                                )}
+                                /mo
+                              </td>
+                              <td className="p-3 text-right">
+                                {formatCurrency(
+                                  rental.monthlyDebtService,
+                                  baseCurrency,
+                                )}
+                                /mo
+                              </td>
+                              <td
+                                className={`p-3 text-right font-medium ${rental.monthlyCashFlow >= 0 ? "text-green-600" : "text-red-600"}`}
+                              >
+                                {formatCurrency(
+                                  rental.monthlyCashFlow,
+                                  baseCurrency,
+                                )}
+                                /mo
+                              </td>
+                              <td className="p-3 text-right">
+                                {formatPercent(rental.capRate)}
+                              </td>
+                              <td className="p-3 text-right">
+                                {formatPercent(rental.cashOnCashReturn)}
+                              </td>
+                            </tr>
+                          ) : null,
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Income by Asset */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Income by Asset</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {income.assets.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="bg-muted/50">
+                          <th className="text-left p-3 text-sm font-medium">
+                            Asset
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Value
+                          </th>
+                          <th className="text-left p-3 text-sm font-medium">
+                            Rate
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Yield
+                          </th>
+                          <th className="text-right p-3 text-sm font-medium">
+                            Annual Income
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {income.assets.map((asset) => (
+                          <tr key={asset.assetId}>
+                            <td className="p-3">
+                              <div className="font-medium">{asset.name}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {
+                                  income.sources.find(
+                                    (source) => source.type === asset.type,
+                                  )?.label
+                                }
+                              </div>
+                            </td>
+                            <td className="p-3 text-right">
+                              {formatCurrency(asset.value, baseCurrency)}
+                            </td>
+                            <td className="p-3">
+                              {asset.type === "rent" ? (
+                                <div className="text-sm">
+                                  {asset.rental ? (
+                                    <>
+                                      {formatCurrency(asset.rate, baseCurrency)}
+                                      /mo rent
+                                    </>
+                                  ) : (
+                                    <span className="text-muted-foreground">
+                                      No rent roll
+                                    </span>
+                                  )}
+                                  <Link
+                                    href={`/dashboard/properties/${asset.assetId}`}
+                                    className="block text-xs text-blue-600 hover:underline"
+                                  >
+                                    Manage rent and expenses
+                                  </Link>
+                                </div>
+                              ) : (
+                                <form
+                                  action={updateIncomeRate}
+                                  className="flex items-center gap-2"
+                                >
+                                  <input
+                                    type="hidden"
+                                    name="assetId"
+                                    value={asset.assetId}
+                                  />
+                                  <input
+                                    type="hidden"
+                                    name="type"
+                                    value={asset.type}
+                                  />
+                                  <Input
+                                    name="rate"
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    defaultValue={asset.rate || ""}
+                                    placeholder={rateLabels[asset.type]}
+                                    aria-label={rateLabels[asset.type]}
+                                    className="w-36 h-8"
+                                  />
+                                  <Button
+                                    type="submit"
+                                    variant="outline"
+                                    size="sm"
+                                  >
+                                    Save
+                                  </Button>
+                                </form>
+                              )}
+                            </td>
+                            <td className="p-3 text-right">
+                              {asset.yield.toFixed(2)}%
+                              {asset.basis === "trailing" && (
+                                <div className="text-xs text-muted-foreground">
+                                  From last 12 months
+                                </div>
+                              )}
+                              {asset.basis === "rental" && (
+                                <div className="text-xs text-muted-foreground">
+                                  Cash flow after mortgage
+                                </div>
+                              )}
+                            </td>
+                            <td className="p-3 text-right font-medium">
+                              {formatCurrency(asset.annualIncome, baseCurrency)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-center py-8 text-muted-foreground">
+                    Add stocks, cash accounts or real estate to estimate their
+                    income.
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
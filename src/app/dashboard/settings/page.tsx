@@ -0,0 +1,159 @@
+import DashboardNavbar from "@/components/dashboard-navbar";
+import Sidebar from "@/components/dashboard/sidebar";
+import { createClient } from "../../../../supabase/server";
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { SubscriptionCheck } from "@/components/subscription-check";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import BrokerConnectionsList from "@/components/dashboard/broker-connections-list";
+import { fetchBrokerConnections } from "@/utils/broker-connections";
+import { fetchCurrencyContext, SUPPORTED_CURRENCIES } from "@/utils/fx";
+import {
+  fetchSnapTradeAuthorizations,
+  type SnapTradeAuthorization,
+} from "@/utils/snaptrade";
+
+async function updateBaseCurrency(formData: FormData) {
+  "use server";
+
+  const baseCurrency = formData.get("baseCurrency") as string;
+
+  if (!SUPPORTED_CURRENCIES.some(({ code }) => code === baseCurrency)) {
+    return;
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return;
+  }
+
+  const { error } = await supabase.from("user_preferences").upsert(
+    {
+      user_id: user.id,
+      base_currency: baseCurrency,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" },
+  );
+
+  if (error) {
+    console.error("Error updating base currency:", error);
+  }
+
+  revalidatePath("/dashboard", "layout");
+}
+
+export default async function SettingsPage() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/sign-in");
+  }
+
+  const { baseCurrency, rates } = await fetchCurrencyContext(supabase, user.id);
+  const connections = await fetchBrokerConnections(
+    supabase,
+    user.id,
+    baseCurrency,
+    rates,
+  );
+
+  // Disabled brokerage authorizations are only known to SnapTrade
+  let authorizations: SnapTradeAuthorization[] = [];
+  if (connections.some((connection) => connection.kind === "snaptrade")) {
+    authorizations = await fetchSnapTradeAuthorizations(
+      user.id,
+      supabase,
+    ).catch((error) => {
+      console.error("Error loading SnapTrade authorizations:", error);
+      return [];
+    });
+  }
+
+  return (
+    <SubscriptionCheck>
+      <DashboardNavbar />
+      <div className="flex">
+        <Sidebar />
+        <main className="w-full bg-gray-50 min-h-screen pl-64">
+          <div className="container mx-auto px-4 py-8 flex flex-col gap-8">
+            {/* Header Section */}
+            <header>
+              <h1 className="text-3xl font-bold">Settings</h1>
+              <p className="text-muted-foreground mt-2">
+                Choose how your portfolio is displayed and manage connected
+                accounts
+              </p>
+            </header>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Base Currency</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form
+                  action={updateBaseCurrency}
+                  className="flex flex-col md:flex-row md:items-end gap-4"
+                >
+                  <div className="space-y-2 md:w-72">
+                    <Label htmlFor="baseCurrency">Currency</Label>
+                    <Select name="baseCurrency" defaultValue={baseCurrency}>
+                      <SelectTrigger id="baseCurrency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SUPPORTED_CURRENCIES.map(({ code, label }) => (
+                          <SelectItem key={code} value={code}>
+                            {code} · {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button type="submit">Save</Button>
+                </form>
+                <p className="text-sm text-muted-foreground mt-4">
+                  Totals, charts and debts are converted into this currency at
+                  the latest daily exchange rates. Each asset keeps its own
+                  currency.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Connected Accounts</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BrokerConnectionsList
+                  connections={connections}
+                  authorizations={authorizations}
+                  baseCurrency={baseCurrency}
+                  userId={user.id}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </SubscriptionCheck>
+  );
+}
@@ -5,6 +5,24 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  WALLET_CHAINS,
+  isWalletChain,
+  normalizeWalletAddress,
+} from "@/utils/chain-indexer";
+import { LOAN_TYPES, getTermStartDate } from "@/utils/liabilities";
+import {
+  DEFAULT_APPRECIATION_RATE,
+  PROPERTY_TYPES,
+  PROPERTY_VALUATION_METHODS,
+} from "@/utils/real-estate";
 import { createClient } from "../../../supabase/client";
 
 interface AddAssetFormProps {
@@ -13,20 +31,51 @@ interface AddAssetFormProps {
   onSuccess?: () => void;
 }
 
+interface FormField {
+  name: keyof typeof initialFormData;
+  label: string;
+  type: string;
+  placeholder?: string;
+  required: boolean;
+  options?: readonly { value: string; label: string }[];
+}
+
+// Crypto is either typed in or read from a watch-only wallet address
+const CRYPTO_TRACKING_MODES = [
+  { value: "manual", label: "Enter the value" },
+  { value: "wallet", label: "Watch a wallet address" },
+] as const;
+
+const initialFormData = {
+  name: "",
+  value: "",
+  description: "",
+  location: "",
+  acquisitionDate: "",
+  acquisitionValue: "",
+  loanType: "other",
+  interestRate: "",
+  minimumPayment: "",
+  termMonths: "",
+  paymentDay: "",
+  propertyType: "single_family",
+  valuationMethod: "appreciation",
+  appreciationRate: String(DEFAULT_APPRECIATION_RATE),
+  trackingMode: "manual",
+  walletChain: "bitcoin",
+  walletAddress: "",
+};
+
 export default function AddAssetForm({
   category,
   isLiability = false,
   onSuccess,
 }: AddAssetFormProps) {
   const [loading, setLoading] = useState(false);
-  const [formData, setFormData] = useState({
-    name: "",
-    value: "",
-    description: "",
-    location: "",
-    acquisitionDate: "",
-    acquisitionValue: "",
-  });
+  const [formData, setFormData] = useState(initialFormData);
+  const [error, setError] = useState<string | null>(null);
+  const isWallet =
+    category === "cryptocurrency" && formData.trackingMode === "wallet";
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
@@ -35,13 +84,53 @@ export default function AddAssetForm({
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
+  const handleSelectChange = (name: string, value: string) => {
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setError(null);
 
     try {
+      // Wallets are registered and synced on the server
+      if (isWallet) {
+        const chain = formData.walletChain;
+        if (
+          !isWalletChain(chain) ||
+          !normalizeWalletAddress(chain, formData.walletAddress)
+        ) {
+          throw new Error("This address is not valid on the chosen chain");
+        }
+
+        const response = await fetch("/api/wallets", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            chain,
+            address: formData.walletAddress,
+            label: formData.name,
+          }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to add wallet");
+        }
+
+        setFormData(initialFormData);
+        if (onSuccess) onSuccess();
+        return;
+      }
+
       const supabase = createClient();
 
+      // Get the current user
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error("User not authenticated");
+
       // Get category ID
       const { data: categoryData } = await supabase
         .from("asset_categories")
@@ -54,41 +143,93 @@ export default function AddAssetForm({
       }
 
       // Insert the asset
-      const { error } = await supabase.from("assets").insert({
-        name: formData.name,
-        value: parseFloat(formData.value),
-        description: formData.description,
-        location: formData.location || null,
-        acquisition_date: formData.acquisitionDate || null,
-        acquisition_value: formData.acquisitionValue
-          ? parseFloat(formData.acquisitionValue)
-          : null,
-        category_id: categoryData.id,
-        is_liability: isLiability,
-      });
+      const { data: asset, error } = await supabase
+        .from("assets")
+        .insert({
+          name: formData.name,
+          value: parseFloat(formData.value),
+          description: formData.description,
+          location: formData.location || null,
+          acquisition_date: formData.acquisitionDate || null,
+          acquisition_value: formData.acquisitionValue
+            ? parseFloat(formData.acquisitionValue)
+            : null,
+          category_id: categoryData.id,
+          is_liability: isLiability,
+          value_source: "manual",
+          user_id: user.id,
+        })
+        .select("id")
+        .single();
 
       if (error) throw error;
 
+      // Store the loan terms used for the payoff projection
+      if (category === "debt") {
+        const { error: detailsError } = await supabase
+          .from("liability_details")
+          .insert({
+            asset_id: asset.id,
+            user_id: user.id,
+            loan_type: formData.loanType,
+            interest_rate: formData.interestRate
+              ? parseFloat(formData.interestRate)
+              : 0,
+            minimum_payment: formData.minimumPayment
+              ? parseFloat(formData.minimumPayment)
+              : null,
+            term_months: formData.termMonths
+              ? parseInt(formData.termMonths)
+              : null,
+            term_start_date: getTermStartDate(
+              formData.termMonths ? parseInt(formData.termMonths) : null,
+            ),
+            payment_day: formData.paymentDay
+              ? parseInt(formData.paymentDay)
+              : null,
+          });
+
+        // A debt without its terms cannot be projected, so undo the asset
+        if (detailsError) {
+          await supabase.from("assets").delete().eq("id", asset.id);
+          throw detailsError;
+        }
+      }
+
+      // Store how the property is valued going forward
+      if (category === "real-estate") {
+        const { error: propertyError } = await supabase
+          .from("properties")
+          .insert({
+            asset_id: asset.id,
+            user_id: user.id,
+            property_type: formData.propertyType,
+            valuation_method: formData.valuationMethod,
+            appreciation_rate: formData.appreciationRate
+              ? parseFloat(formData.appreciationRate)
+              : 0,
+          });
+
+        if (propertyError) {
+          await supabase.from("assets").delete().eq("id", asset.id);
+          throw propertyError;
+        }
+      }
+
       // Reset form
-      setFormData({
-        name: "",
-        value: "",
-        description: "",
-        location: "",
-        acquisitionDate: "",
-        acquisitionValue: "",
-      });
+      setFormData(initialFormData);
 
       if (onSuccess) onSuccess();
     } catch (error) {
       console.error("Error adding asset:", error);
+      setError(error instanceof Error ? error.message : "Failed to add asset");
     } finally {
       setLoading(false);
     }
   };
 
-  const getFormFields = () => {
-    const commonFields = [
+  const getFormFields = (): FormField[] => {
+    const commonFields: FormField[] = [
       {
         name: "name",
         label: isLiability ? "Liability Name" : "Asset Name",
@@ -114,6 +255,14 @@ export default function AddAssetForm({
       },
     ];
 
+    const cryptoTrackingField: FormField = {
+      name: "trackingMode",
+      label: "Tracking",
+      type: "select",
+      required: true,
+      options: CRYPTO_TRACKING_MODES,
+    };
+
     // Add category-specific fields
     switch (category) {
       case "cash":
@@ -174,9 +323,57 @@ export default function AddAssetForm({
             placeholder: "0.00",
             required: false,
           },
+          {
+            name: "propertyType",
+            label: "Property Type",
+            type: "select",
+            required: true,
+            options: PROPERTY_TYPES,
+          },
+          {
+            name: "valuationMethod",
+            label: "Valuation",
+            type: "select",
+            required: true,
+            options: PROPERTY_VALUATION_METHODS,
+          },
+          {
+            name: "appreciationRate",
+            label: "Appreciation (% per year)",
+            type: "number",
+            placeholder: String(DEFAULT_APPRECIATION_RATE),
+            required: false,
+          },
         ];
       case "cryptocurrency":
+        if (isWallet) {
+          return [
+            cryptoTrackingField,
+            {
+              name: "name",
+              label: "Wallet Label",
+              type: "text",
+              placeholder: "Hardware wallet, MetaMask, etc.",
+              required: false,
+            },
+            {
+              name: "walletChain",
+              label: "Chain",
+              type: "select",
+              required: true,
+              options: WALLET_CHAINS,
+            },
+            {
+              name: "walletAddress",
+              label: "Public Address",
+              type: "text",
+              placeholder: "bc1... or 0x...",
+              required: true,
+            },
+          ];
+        }
         return [
+          cryptoTrackingField,
           ...commonFields,
           {
             name: "location",
@@ -222,6 +419,41 @@ export default function AddAssetForm({
             placeholder: "0.00",
             required: false,
           },
+          {
+            name: "loanType",
+            label: "Loan Type",
+            type: "select",
+            required: true,
+            options: LOAN_TYPES,
+          },
+          {
+            name: "interestRate",
+            label: "Interest Rate (APR %)",
+            type: "number",
+            placeholder: "0.00",
+            required: true,
+          },
+          {
+            name: "minimumPayment",
+            label: "Minimum Monthly Payment",
+            type: "number",
+            placeholder: "0.00",
+            required: false,
+          },
+          {
+            name: "termMonths",
+            label: "Remaining Term (months)",
+            type: "number",
+            placeholder: "360",
+            required: false,
+          },
+          {
+            name: "paymentDay",
+            label: "Payment Day of Month",
+            type: "number",
+            placeholder: "1",
+            required: false,
+          },
         ];
       default:
         return commonFields;
@@ -237,12 +469,28 @@ export default function AddAssetForm({
             {field.required && <span className="text-red-500">*</span>}
           </Label>
 
-          {field.type === "textarea" ? (
+          {field.type === "select" ? (
+            <Select
+              value={formData[field.name]}
+              onValueChange={(value) => handleSelectChange(field.name, value)}
+            >
+              <SelectTrigger id={field.name}>
+                <SelectValue placeholder={field.label} />
+              </SelectTrigger>
+              <SelectContent>
+                {field.options?.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : field.type === "textarea" ? (
             <Textarea
               id={field.name}
               name={field.name}
               placeholder={field.placeholder}
-              value={formData[field.name as keyof typeof formData] || ""}
+              value={formData[field.name] || ""}
               onChange={handleChange}
               required={field.required}
             />
@@ -251,8 +499,9 @@ export default function AddAssetForm({
               id={field.name}
               name={field.name}
               type={field.type}
+              step={field.type === "number" ? "any" : undefined}
               placeholder={field.placeholder}
-              value={formData[field.name as keyof typeof formData] || ""}
+              value={formData[field.name] || ""}
               onChange={handleChange}
               required={field.required}
             />
@@ -260,9 +509,17 @@ export default function AddAssetForm({
         </div>
       ))}
 
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
       <div className="flex justify-end pt-4">
         <Button type="submit" disabled={loading}>
-          {loading ? "Saving..." : isLiability ? "Add Liability" : "Add Asset"}
+          {loading
+            ? "Saving..."
+            : isLiability
+              ? "Add Liability"
+              : isWallet
+                ? "Add Wallet"
+                : "Add Asset"}
         </Button>
       </div>
     </form>
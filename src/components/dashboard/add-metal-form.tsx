@@ -15,39 +15,86 @@ import {
 } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Info, RefreshCw } from "lucide-react";
-import { fetchMetalPrice, getMetalSymbol } from "@/utils/metal-api";
+import { getMetalSymbol } from "@/utils/metal-api";
+import {
+  GRAMS_PER_TROY_OUNCE,
+  METAL_PRODUCTS,
+  METAL_PURITIES,
+  METAL_UNIT_LABELS,
+  getProductFineOunces,
+  valueMetalHolding,
+  type MetalUnit,
+} from "@/utils/metal-holdings";
+import type { PriceStatus } from "@/utils/price-quotes";
 
 interface AddMetalFormProps {
   onSuccess?: () => void;
 }
 
+// Value of the product select when entering a custom weight and purity
+const CUSTOM_PRODUCT = "custom";
+
 export default function AddMetalForm({ onSuccess }: AddMetalFormProps) {
   const supabase = createClient();
   const router = useRouter();
 
   // Form state
   const [metalType, setMetalType] = useState("");
-  const [unit, setUnit] = useState("ounce");
+  const [productId, setProductId] = useState(CUSTOM_PRODUCT);
+  const [unit, setUnit] = useState<MetalUnit>("ounce");
+  const [purity, setPurity] = useState("");
   const [quantity, setQuantity] = useState("");
+  const [premium, setPremium] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentPrice, setCurrentPrice] = useState<number | null>(null);
-  const [totalValue, setTotalValue] = useState<number | null>(null);
+  const [spotPrice, setSpotPrice] = useState<number | null>(null);
   const [isLoadingPrice, setIsLoadingPrice] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [priceStatus, setPriceStatus] = useState<PriceStatus | null>(null);
 
   // Metal options
   const metalOptions = [
-    { value: "gold", label: "Gold (XAU)", price: 1900 },
-    { value: "silver", label: "Silver (XAG)", price: 23 },
-    { value: "palladium", label: "Palladium (XPD)", price: 950 },
-    { value: "platinum", label: "Platinum (XPT)", price: 900 },
+    { value: "gold", label: "Gold (XAU)" },
+    { value: "silver", label: "Silver (XAG)" },
+    { value: "palladium", label: "Palladium (XPD)" },
+    { value: "platinum", label: "Platinum (XPT)" },
   ];
 
-  // Conversion rate
-  const OUNCE_TO_GRAM = 31.1035;
+  const metalName =
+    metalOptions.find((m) => m.value === metalType)?.label.split(" ")[0] ||
+    metalType;
+  const products = METAL_PRODUCTS.filter(
+    (product) => product.metal === metalType,
+  );
+  const product = METAL_PRODUCTS.find((p) => p.id === productId) || null;
+  const purities = METAL_PURITIES[metalType] || [];
+  const purityLabel =
+    purities.find((option) => String(option.purity) === purity)?.label || "";
+  const numericQuantity = parseFloat(quantity);
+  const hasQuantity = !isNaN(numericQuantity) && numericQuantity > 0;
+
+  // Everything stored about the holding; also drives its valuation
+  const holdingMetadata = {
+    metal_type: metalType,
+    quantity: hasQuantity ? numericQuantity : 0,
+    ...(product
+      ? {
+          unit: "piece",
+          product_id: product.id,
+          product_name: product.name,
+          purity: product.purity,
+          fine_ounces_per_unit: getProductFineOunces(product),
+        }
+      : { unit, purity: parseFloat(purity) || 1 }),
+    premium_percent: parseFloat(premium) || 0,
+  };
+  const valuation =
+    spotPrice && hasQuantity
+      ? valueMetalHolding(holdingMetadata, spotPrice)
+      : null;
+  const unitLabel = product ? "piece" : METAL_UNIT_LABELS[unit].toLowerCase();
 
-  // Fetch price from API
+  // Fetch the cached spot price per troy ounce from our API
   const fetchPrice = async () => {
     if (!metalType) return;
 
@@ -58,53 +105,35 @@ export default function AddMetalForm({ onSuccess }: AddMetalFormProps) {
       // Get the metal symbol for the API
       const symbol = getMetalSymbol(metalType);
 
-      // Fetch the current price
-      const priceData = await fetchMetalPrice(symbol);
+      const response = await fetch(`/api/metal-prices?metal=${symbol}`);
+      if (!response.ok) {
+        throw new Error(`API request failed with status ${response.status}`);
+      }
 
-      // Set the price based on the unit
-      const pricePerOunce = priceData.price;
-      const pricePerUnit =
-        unit === "gram" ? pricePerOunce / OUNCE_TO_GRAM : pricePerOunce;
+      const priceData = await response.json();
 
-      setCurrentPrice(pricePerUnit);
-      setLastUpdated(new Date());
+      setSpotPrice(priceData.price);
+      setPriceStatus(priceData.status);
+      setLastUpdated(new Date(priceData.fetchedAt));
     } catch (err) {
       console.error("Error fetching metal price:", err);
-      setError("Failed to fetch current price. Using fallback price.");
-
-      // Fallback to static prices if API fails
-      const selectedMetal = metalOptions.find((m) => m.value === metalType);
-      if (selectedMetal) {
-        const pricePerOunce = selectedMetal.price;
-        const pricePerUnit =
-          unit === "gram" ? pricePerOunce / OUNCE_TO_GRAM : pricePerOunce;
-        setCurrentPrice(pricePerUnit);
-      }
+      setError("Live price unavailable. Please try again in a few minutes.");
+      setSpotPrice(null);
+      setPriceStatus(null);
+      setLastUpdated(null);
     } finally {
       setIsLoadingPrice(false);
     }
   };
 
-  // Update price when metal type or unit changes
+  // Update price and reset the product and purity when the metal changes
   useEffect(() => {
     if (metalType) {
+      setProductId(CUSTOM_PRODUCT);
+      setPurity(String(METAL_PURITIES[metalType]?.[0]?.purity ?? 1));
       fetchPrice();
     }
-  }, [metalType, unit]);
-
-  // Calculate total value when quantity or price changes
-  useEffect(() => {
-    if (currentPrice && quantity) {
-      const numericQuantity = parseFloat(quantity);
-      if (!isNaN(numericQuantity) && numericQuantity > 0) {
-        setTotalValue(numericQuantity * currentPrice);
-      } else {
-        setTotalValue(null);
-      }
-    } else {
-      setTotalValue(null);
-    }
-  }, [quantity, currentPrice]);
+  }, [metalType]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -116,12 +145,12 @@ export default function AddMetalForm({ onSuccess }: AddMetalFormProps) {
       return;
     }
 
-    if (!quantity || parseFloat(quantity) <= 0) {
+    if (!hasQuantity) {
       setError("Please enter a valid quantity");
       return;
     }
 
-    if (!totalValue) {
+    if (!valuation) {
       setError("Unable to calculate total value");
       return;
     }
@@ -144,29 +173,27 @@ export default function AddMetalForm({ onSuccess }: AddMetalFormProps) {
 
       if (categoryError) throw new Error("Failed to get category");
 
-      // Format the metal name for display
-      const selectedMetal = metalOptions.find((m) => m.value === metalType);
-      const metalName = selectedMetal
-        ? selectedMetal.label.split(" ")[0]
-        : metalType;
-
       // Insert the asset
       const { error: insertError } = await supabase.from("assets").insert({
-        name: `${metalName}`,
-        value: totalValue,
-        description: `${quantity} ${unit}${parseFloat(quantity) !== 1 ? "s" : ""} of ${metalName}`,
+        name: product ? product.name : metalName,
+        value: valuation.value,
+        description: product
+          ? `${quantity} × ${product.name}`
+          : `${quantity} ${unitLabel}${numericQuantity !== 1 ? "s" : ""} of ${purityLabel} ${metalName}`,
         location: "Physical",
         acquisition_date: new Date().toISOString(),
-        acquisition_value: totalValue,
+        acquisition_value: valuation.value,
         category_id: categoryData.id,
         is_liability: false,
+        value_source: "metal_price",
         user_id: user.id,
         metadata: {
-          metal_type: metalType,
-          quantity: parseFloat(quantity),
-          unit: unit,
-          price_per_unit: currentPrice,
-          price_per_share: currentPrice, // Added for compatibility with the assets page display
+          ...holdingMetadata,
+          fine_ounces: valuation.fineOunces,
+          spot_price: spotPrice,
+          price_per_unit: valuation.pricePerUnit,
+          price_per_share: valuation.pricePerUnit, // Added for compatibility with the assets page display
+          price_fetched_at: lastUpdated?.toISOString() ?? null,
           currency: "USD",
           asset_type: "precious_metal",
         },
@@ -189,18 +216,6 @@ export default function AddMetalForm({ onSuccess }: AddMetalFormProps) {
     }
   };
 
-  // Convert between units for display
-  const getConvertedValue = () => {
-    if (!quantity || isNaN(parseFloat(quantity))) return null;
-
-    const numericQuantity = parseFloat(quantity);
-    if (unit === "gram") {
-      return (numericQuantity / OUNCE_TO_GRAM).toFixed(4) + " ounces";
-    } else {
-      return (numericQuantity * OUNCE_TO_GRAM).toFixed(2) + " grams";
-    }
-  };
-
   // Format currency
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
@@ -234,59 +249,133 @@ export default function AddMetalForm({ onSuccess }: AddMetalFormProps) {
         )}
       </div>
 
-      {/* Step 2: Choose Unit */}
+      {/* Step 2: Choose a Product or Custom Weight */}
       {metalType && (
-        <div className="space-y-2">
-          <Label>Step 2: Choose the unit</Label>
-          <RadioGroup
-            value={unit}
-            onValueChange={setUnit}
-            className="flex space-x-4"
-          >
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="ounce" id="ounce" />
-              <Label htmlFor="ounce">Ounce</Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="gram" id="gram" />
-              <Label htmlFor="gram">Gram</Label>
-            </div>
-          </RadioGroup>
-          <div className="flex items-center text-sm text-gray-500 mt-1">
-            <Info className="h-4 w-4 mr-1" />
-            <span>1 ounce = 31.1035 grams</span>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="product">Step 2: Choose a product</Label>
+            <Select value={productId} onValueChange={setProductId}>
+              <SelectTrigger id="product" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CUSTOM_PRODUCT}>
+                  Custom weight and purity (jewelry, scrap, other)
+                </SelectItem>
+                {products.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {product && (
+              <div className="flex items-center text-sm text-gray-500 mt-1">
+                <Info className="h-4 w-4 mr-1" />
+                <span>
+                  Each piece contains {getProductFineOunces(product).toFixed(4)}{" "}
+                  oz of fine {metalName.toLowerCase()}
+                </span>
+              </div>
+            )}
           </div>
+
+          {!product && (
+            <>
+              <div className="space-y-2">
+                <Label>Unit</Label>
+                <RadioGroup
+                  value={unit}
+                  onValueChange={(value) => setUnit(value as MetalUnit)}
+                  className="flex flex-wrap gap-4"
+                >
+                  {(Object.keys(METAL_UNIT_LABELS) as MetalUnit[]).map(
+                    (option) => (
+                      <div key={option} className="flex items-center space-x-2">
+                        <RadioGroupItem value={option} id={option} />
+                        <Label htmlFor={option}>
+                          {METAL_UNIT_LABELS[option]}
+                        </Label>
+                      </div>
+                    ),
+                  )}
+                </RadioGroup>
+                <div className="flex items-center text-sm text-gray-500 mt-1">
+                  <Info className="h-4 w-4 mr-1" />
+                  <span>
+                    1 troy ounce = {GRAMS_PER_TROY_OUNCE} grams · 1 tola =
+                    11.6638 grams
+                  </span>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="purity">Purity</Label>
+                <Select value={purity} onValueChange={setPurity}>
+                  <SelectTrigger id="purity" className="w-full">
+                    <SelectValue placeholder="Select purity" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {purities.map((option) => (
+                      <SelectItem
+                        key={option.purity}
+                        value={String(option.purity)}
+                      >
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
         </div>
       )}
 
-      {/* Step 3: Enter Quantity */}
+      {/* Step 3: Enter Quantity and Premium */}
       {metalType && (
-        <div className="space-y-2">
-          <Label htmlFor="quantity">Step 3: Enter the quantity</Label>
-          <Input
-            id="quantity"
-            type="number"
-            step="0.01"
-            min="0.01"
-            value={quantity}
-            onChange={(e) => setQuantity(e.target.value)}
-            placeholder={`Enter quantity in ${unit}s`}
-          />
-          {quantity && parseFloat(quantity) > 0 && (
-            <p className="text-sm text-gray-500">
-              Equivalent to: {getConvertedValue()}
-            </p>
-          )}
-          {quantity && parseFloat(quantity) <= 0 && (
-            <p className="text-sm text-red-500">
-              Please enter a valid quantity.
-            </p>
-          )}
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="quantity">Step 3: Enter the quantity</Label>
+            <Input
+              id="quantity"
+              type="number"
+              step="any"
+              min="0"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder={`Enter quantity in ${unitLabel}s`}
+            />
+            {valuation && (
+              <p className="text-sm text-gray-500">
+                Fine weight: {valuation.fineOunces.toFixed(4)} oz (
+                {(valuation.fineOunces * GRAMS_PER_TROY_OUNCE).toFixed(2)} g)
+              </p>
+            )}
+            {quantity && !hasQuantity && (
+              <p className="text-sm text-red-500">
+                Please enter a valid quantity.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="premium">Dealer premium over spot (%)</Label>
+            <Input
+              id="premium"
+              type="number"
+              step="any"
+              min="0"
+              value={premium}
+              onChange={(e) => setPremium(e.target.value)}
+              placeholder="0"
+            />
+          </div>
         </div>
       )}
 
       {/* Step 4: Display Current Price */}
-      {metalType && quantity && parseFloat(quantity) > 0 && currentPrice && (
+      {metalType && spotPrice && (
         <div className="space-y-2">
           <div className="flex justify-between items-center">
             <Label>Step 4: Current Price</Label>
@@ -306,56 +395,65 @@ export default function AddMetalForm({ onSuccess }: AddMetalFormProps) {
           </div>
           <div className="p-4 bg-gray-50 rounded-md">
             <p className="font-medium">
-              {
-                metalOptions
-                  .find((m) => m.value === metalType)
-                  ?.label.split(" ")[0]
-              }{" "}
-              price ({unit}):
-              {formatCurrency(currentPrice)}/{unit}
+              {metalName} spot price: {formatCurrency(spotPrice)}/oz
             </p>
             <div className="flex justify-between items-center mt-1">
               <p className="text-sm text-gray-500">
                 {lastUpdated
-                  ? `Last updated: ${lastUpdated.toLocaleTimeString()}`
+                  ? `Last updated: ${lastUpdated.toLocaleString()}`
                   : "Using live market data"}
               </p>
               {isLoadingPrice && (
                 <p className="text-sm text-blue-500">Updating price...</p>
               )}
             </div>
-            {error && <p className="text-sm text-amber-600 mt-1">{error}</p>}
+            {priceStatus === "stale" && (
+              <p className="text-sm text-amber-600 mt-1">
+                Stale price: showing the last cached spot price. It will update
+                once a live price is available.
+              </p>
+            )}
           </div>
         </div>
       )}
 
       {/* Step 5: Summary */}
-      {metalType && quantity && parseFloat(quantity) > 0 && totalValue && (
+      {metalType && valuation && (
         <div className="space-y-2">
           <Label>Step 5: Summary</Label>
           <div className="p-4 bg-gray-50 rounded-md space-y-2">
             <div className="flex justify-between">
               <span>Selected Metal:</span>
               <span className="font-medium">
-                {metalOptions.find((m) => m.value === metalType)?.label}
+                {product ? product.name : `${purityLabel} ${metalName}`}
               </span>
             </div>
             <div className="flex justify-between">
               <span>Quantity:</span>
               <span className="font-medium">
-                {quantity} {unit}
-                {parseFloat(quantity) !== 1 ? "s" : ""}
+                {quantity} {unitLabel}
+                {numericQuantity !== 1 ? "s" : ""}
               </span>
             </div>
+            {holdingMetadata.premium_percent > 0 && (
+              <div className="flex justify-between">
+                <span>Premium:</span>
+                <span className="font-medium">
+                  {holdingMetadata.premium_percent}% over spot
+                </span>
+              </div>
+            )}
             <div className="flex justify-between">
-              <span>Price per {unit}:</span>
+              <span>Price per {unitLabel}:</span>
               <span className="font-medium">
-                {formatCurrency(currentPrice)}
+                {formatCurrency(valuation.pricePerUnit)}
               </span>
             </div>
             <div className="flex justify-between border-t border-gray-200 pt-2 mt-2">
               <span>Total Value:</span>
-              <span className="font-medium">{formatCurrency(totalValue)}</span>
+              <span className="font-medium">
+                {formatCurrency(valuation.value)}
+              </span>
             </div>
           </div>
         </div>
@@ -366,13 +464,7 @@ export default function AddMetalForm({ onSuccess }: AddMetalFormProps) {
       <Button
         type="submit"
         className="w-full"
-        disabled={
-          !metalType ||
-          !quantity ||
-          parseFloat(quantity) <= 0 ||
-          !totalValue ||
-          isSubmitting
-        }
+        disabled={!metalType || !hasQuantity || !valuation || isSubmitting}
       >
         {isSubmitting ? (
           <>
@@ -5,11 +5,13 @@ import AssetAllocationTreemap from "./asset-allocation-treemap";
 
 interface AssetAllocationChartProps {
   assets?: any[] | null;
+  currency?: string;
   className?: string;
 }
 
 export default function AssetAllocationChart({
   assets = [],
+  currency = "USD",
   className = "",
 }: AssetAllocationChartProps) {
   // Process assets into categories for the treemap
@@ -120,7 +122,7 @@ export default function AssetAllocationChart({
         </div>
       </CardHeader>
       <CardContent>
-        <AssetAllocationTreemap assetData={assetData} />
+        <AssetAllocationTreemap assetData={assetData} currency={currency} />
       </CardContent>
     </Card>
   );
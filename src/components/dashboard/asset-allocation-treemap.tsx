@@ -9,11 +9,13 @@ interface AssetAllocationTreemapProps {
     value: number;
     color: string;
   }[];
+  currency?: string;
   className?: string;
 }
 
 export default function AssetAllocationTreemap({
   assetData = [],
+  currency = "USD",
   className = "",
 }: AssetAllocationTreemapProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -60,9 +62,9 @@ export default function AssetAllocationTreemap({
       // Only draw text if rectangle is big enough
       if (w > 80 && h > 60) {
         const percentage = ((asset.value / totalValue) * 100).toFixed(0);
-        const formattedValue = new Intl.NumberFormat("fr-FR", {
+        const formattedValue = new Intl.NumberFormat("en-US", {
           style: "currency",
-          currency: "EUR",
+          currency,
           maximumFractionDigits: 0,
         }).format(asset.value);
 
@@ -179,7 +181,7 @@ export default function AssetAllocationTreemap({
 
     // Start layout
     layoutTreemap(sortedData, 0, 0, width, height);
-  }, [assetData, totalValue]);
+  }, [assetData, totalValue, currency]);
 
   return (
     <>
@@ -25,6 +25,7 @@ interface AssetCategoryWidgetClientProps {
   totalValue: number;
   changePercentage?: number;
   assetCount: number;
+  currency?: string;
 }
 
 export default function AssetCategoryWidgetClient({
@@ -33,11 +34,12 @@ export default function AssetCategoryWidgetClient({
   totalValue = 0,
   changePercentage = 0,
   assetCount = 0,
+  currency = "USD",
 }: AssetCategoryWidgetClientProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency,
       maximumFractionDigits: 0,
     }).format(amount);
   };
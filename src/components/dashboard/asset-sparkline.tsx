@@ -0,0 +1,70 @@
+import type { AssetHistoryPoint } from "@/utils/asset-history";
+
+interface AssetSparklineProps {
+  history?: AssetHistoryPoint[];
+  width?: number;
+  height?: number;
+}
+
+const sourceLabels: Record<string, string> = {
+  manual: "manual entry",
+  snaptrade: "SnapTrade sync",
+  market_data: "market price",
+  metal_price: "metal price refresh",
+  car_valuation: "car valuation",
+  property_valuation: "property valuation",
+  wallet_sync: "wallet sync",
+  exchange_sync: "exchange sync",
+  snapshot: "daily snapshot",
+};
+
+export default function AssetSparkline({
+  history = [],
+  width = 96,
+  height = 28,
+}: AssetSparklineProps) {
+  if (history.length < 2) {
+    return <span className="text-xs text-muted-foreground">-</span>;
+  }
+
+  const values = history.map((point) => point.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  const points = history
+    .map((point, index) => {
+      const x = (index / (history.length - 1)) * width;
+      const y = height - ((point.value - min) / range) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  const first = history[0];
+  const last = history[history.length - 1];
+  const isUp = last.value >= first.value;
+  const lastSource = last.source
+    ? sourceLabels[last.source] || last.source
+    : "unknown source";
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className="inline-block"
+    >
+      <title>
+        {`Last updated ${new Date(last.recordedAt).toLocaleDateString()} by ${lastSource}`}
+      </title>
+      <polyline
+        points={points}
+        fill="none"
+        stroke={isUp ? "#16a34a" : "#dc2626"}
+        strokeWidth="1.5"
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { RefreshCw, Unplug } from "lucide-react";
+import ConnectCryptoBroker from "./connect-crypto-broker";
+import type {
+  BrokerConnectionSummary,
+  ImportedAssetsMode,
+} from "@/utils/broker-connections";
+import type { SnapTradeAuthorization } from "@/utils/snaptrade";
+
+interface BrokerConnectionsListProps {
+  connections: BrokerConnectionSummary[];
+  // The brokerages linked through SnapTrade, with disabled ones to repair
+  authorizations: SnapTradeAuthorization[];
+  baseCurrency: string;
+  userId: string;
+}
+
+export default function BrokerConnectionsList({
+  connections,
+  authorizations,
+  baseCurrency,
+  userId,
+}: BrokerConnectionsListProps) {
+  const router = useRouter();
+  const [assetsMode, setAssetsMode] = useState<ImportedAssetsMode>("keep");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reconnectBroker, setReconnectBroker] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: baseCurrency,
+      maximumFractionDigits: 0,
+    }).format(value);
+
+  const handleDisconnect = async (connection: BrokerConnectionSummary) => {
+    setBusyId(connection.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/connections/${connection.id}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ assets: assetsMode }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to disconnect");
+      }
+      router.refresh();
+    } catch (err) {
+      console.error("Error disconnecting broker:", err);
+      setError(err instanceof Error ? err.message : "Failed to disconnect");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSnapTradeReconnect = async (authorizationId: string) => {
+    setBusyId(authorizationId);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/snaptrade/reconnect", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          authorizationId,
+          redirectUri: `${window.location.origin}/api/snaptrade/callback`,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.redirectUri) {
+        throw new Error(result.error || "Failed to reconnect");
+      }
+      window.location.href = result.redirectUri;
+    } catch (err) {
+      console.error("Error reconnecting SnapTrade:", err);
+      setError(err instanceof Error ? err.message : "Failed to reconnect");
+      setBusyId(null);
+    }
+  };
+
+  if (connections.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No brokers or exchanges are connected. Connect one from the Assets page.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      {connections.map((connection) => {
+        const disabledAuthorizations =
+          connection.kind === "snaptrade"
+            ? authorizations.filter((authorization) => authorization.disabled)
+            : [];
+        const needsAttention =
+          !!connection.lastError || disabledAuthorizations.length > 0;
+
+        return (
+          <div
+            key={connection.id}
+            className="flex flex-col gap-3 rounded-lg border bg-white p-4"
+          >
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{connection.name}</span>
+                  {needsAttention ? (
+                    <Badge variant="destructive">Needs attention</Badge>
+                  ) : (
+                    <Badge variant="secondary">Connected</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">
+                  {connection.assetCount} imported assets ·{" "}
+                  {formatCurrency(connection.openValue)}
+                  {connection.lastSyncedAt &&
+                    ` · Last synced ${new Date(connection.lastSyncedAt).toLocaleString()}`}
+                </p>
+                {connection.kind === "snaptrade" &&
+                  authorizations.length > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {authorizations
+                        .map((authorization) => authorization.brokerName)
+                        .join(", ")}
+                    </p>
+                  )}
+                {connection.lastError && (
+                  <p className="text-sm text-red-500 mt-1">
+                    {connection.lastError}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                {connection.kind === "exchange" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setReconnectBroker(connection.brokerId)}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    Reconnect
+                  </Button>
+                )}
+
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      disabled={busyId === connection.id}
+                    >
+                      <Unplug className="h-4 w-4 mr-1" />
+                      {busyId === connection.id
+                        ? "Disconnecting..."
+                        : "Disconnect"}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>
+                        Disconnect {connection.name}?
+                      </AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {connection.kind === "snaptrade"
+                          ? "Access to every linked brokerage is revoked at SnapTrade."
+                          : "The stored API key is deleted."}{" "}
+                        This connection imported {connection.assetCount} assets
+                        currently worth {formatCurrency(connection.openValue)}.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+
+                    {connection.assetCount > 0 && (
+                      <RadioGroup
+                        value={assetsMode}
+                        onValueChange={(value) =>
+                          setAssetsMode(value as ImportedAssetsMode)
+                        }
+                      >
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem
+                            value="keep"
+                            id={`${connection.id}-keep`}
+                          />
+                          <Label htmlFor={`${connection.id}-keep`}>
+                            Keep the held ones as manual assets
+                          </Label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem
+                            value="purge"
+                            id={`${connection.id}-purge`}
+                          />
+                          <Label htmlFor={`${connection.id}-purge`}>
+                            Delete them and their history
+                          </Label>
+                        </div>
+                      </RadioGroup>
+                    )}
+
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => handleDisconnect(connection)}
+                        className="bg-red-600 hover:bg-red-700"
+                      >
+                        Disconnect
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+
+            {disabledAuthorizations.map((authorization) => (
+              <div
+                key={authorization.id}
+                className="flex items-center justify-between rounded-md bg-red-50 px-3 py-2 text-sm"
+              >
+                <span>
+                  {authorization.brokerName} stopped syncing
+                  {authorization.disabledAt &&
+                    ` on ${new Date(authorization.disabledAt).toLocaleDateString()}`}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId === authorization.id}
+                  onClick={() => handleSnapTradeReconnect(authorization.id)}
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Reconnect
+                </Button>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      <Dialog
+        open={!!reconnectBroker}
+        onOpenChange={(open) => !open && setReconnectBroker(null)}
+      >
+        <DialogContent className="sm:max-w-2xl">
+          {reconnectBroker && (
+            <ConnectCryptoBroker
+              userId={userId}
+              initialBroker={reconnectBroker}
+              onBack={() => setReconnectBroker(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,7 +4,22 @@ import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { fetchCarPrice } from "@/utils/car-api";
+import {
+  VEHICLE_CONDITIONS,
+  VEHICLE_REGIONS,
+  type VehicleCondition,
+  type VehicleRegion,
+  type VehicleValuation,
+} from "@/utils/vehicle-valuation";
+import { decodeVin, type DecodedVin } from "@/utils/vin";
 import { createClient } from "../../../supabase/client";
 import { Check, ChevronsUpDown } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -17,9 +32,15 @@ export default function CarSearch({ onCarSelectData }: CarSearchProps) {
   const [make, setMake] = useState("");
   const [model, setModel] = useState("");
   const [year, setYear] = useState("");
+  const [trim, setTrim] = useState("");
+  const [vin, setVin] = useState("");
+  const [decodedVin, setDecodedVin] = useState<DecodedVin | null>(null);
+  const [mileage, setMileage] = useState("");
+  const [condition, setCondition] = useState<VehicleCondition>("good");
+  const [region, setRegion] = useState<VehicleRegion | "">("");
   const [quantity, setQuantity] = useState(1);
   const [loading, setLoading] = useState(false);
-  const [results, setResults] = useState<any>(null);
+  const [results, setResults] = useState<VehicleValuation | null>(null);
   const [error, setError] = useState("");
 
   // Dropdown states
@@ -96,7 +117,12 @@ export default function CarSearch({ onCarSelectData }: CarSearchProps) {
     setResults(null);
 
     try {
-      const data = await fetchCarPrice(make, model, year);
+      const data = await fetchCarPrice(make, model, year, {
+        trim: trim.trim() || undefined,
+        mileage: mileage ? Number(mileage) : undefined,
+        condition,
+        region: region || undefined,
+      });
       setResults(data);
     } catch (err) {
       setError("Failed to fetch car price. Please try again.");
@@ -106,9 +132,35 @@ export default function CarSearch({ onCarSelectData }: CarSearchProps) {
     }
   };
 
+  // Decode the VIN locally and prefill what it tells us
+  const handleDecodeVin = () => {
+    const decoded = decodeVin(vin);
+    setDecodedVin(decoded);
+    if (!decoded.valid) return;
+
+    const decodedMake = makes.find(
+      (option) =>
+        option.toLowerCase() === decoded.manufacturer?.make.toLowerCase(),
+    );
+    if (decodedMake && decodedMake !== make) {
+      setMake(decodedMake);
+      setModel("");
+    }
+    if (decoded.modelYear) {
+      setYear(String(decoded.modelYear));
+    }
+  };
+
   const handleAddToPortfolio = async () => {
     if (!results) return;
 
+    const vinDetails = vin.trim() ? decodeVin(vin) : null;
+    if (vinDetails && !vinDetails.valid) {
+      setDecodedVin(vinDetails);
+      setError("The VIN isn't valid. Correct or clear it before adding.");
+      return;
+    }
+
     setLoading(true);
     try {
       const supabase = createClient();
@@ -125,26 +177,42 @@ export default function CarSearch({ onCarSelectData }: CarSearchProps) {
       }
 
       // Format the car name
-      const carName = `${year} ${make} ${model}`;
+      const carName = [year, make, model, trim.trim()]
+        .filter(Boolean)
+        .join(" ");
       const carValue = results.averagePrice || 0;
 
       // Insert the asset
       const { error } = await supabase.from("assets").insert({
         name: carName,
         value: carValue,
-        description: `Vehicle: ${year} ${make} ${model}`,
+        description: `Vehicle: ${carName}`,
         category_id: categoryData.id,
         is_liability: false,
+        value_source: "car_valuation",
         acquisition_date: new Date().toISOString(),
         acquisition_value: carValue,
         metadata: {
           make,
           model,
           year,
+          trim: trim.trim() || null,
+          vin: vinDetails?.vin || null,
+          plant_code: vinDetails?.plantCode || null,
+          manufacturer_country: vinDetails?.manufacturer?.country || null,
+          mileage: mileage ? Number(mileage) : null,
+          mileage_recorded_at: mileage ? new Date().toISOString() : null,
+          condition,
+          region: region || null,
           price_per_share: carValue,
           quantity: 1,
           asset_type: "vehicle",
           total_listings: results.totalListings || 0,
+          valuation_low: results.low,
+          valuation_high: results.high,
+          valuation_confidence: results.confidence,
+          valuation_provider: results.provider,
+          last_valued_at: new Date().toISOString(),
         },
       });
 
@@ -244,6 +312,53 @@ export default function CarSearch({ onCarSelectData }: CarSearchProps) {
   return (
     <div className="space-y-6">
       <form onSubmit={handleSearch} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="vin">VIN (optional)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="vin"
+              placeholder="17 characters, e.g. 1HGCM82633A004352"
+              maxLength={17}
+              value={vin}
+              onChange={(e) => {
+                setVin(e.target.value);
+                setDecodedVin(null);
+              }}
+              className="font-mono uppercase"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleDecodeVin}
+              disabled={!vin.trim()}
+            >
+              Decode
+            </Button>
+          </div>
+          {decodedVin && (
+            <div className="text-sm space-y-1">
+              {decodedVin.valid && (
+                <p className="text-gray-600">
+                  {decodedVin.manufacturer
+                    ? `${decodedVin.manufacturer.make} (${decodedVin.manufacturer.country})`
+                    : "Unknown manufacturer"}
+                  {decodedVin.modelYear && ` • ${decodedVin.modelYear}`} • Plant{" "}
+                  {decodedVin.plantCode} • Serial {decodedVin.serialNumber}
+                </p>
+              )}
+              {decodedVin.errors.map((message) => (
+                <p key={message} className="text-red-500">
+                  {message}
+                </p>
+              ))}
+              {decodedVin.warnings.map((message) => (
+                <p key={message} className="text-amber-600">
+                  {message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className="space-y-2" ref={makeDropdownRef}>
             <Label htmlFor="make">Make</Label>
@@ -406,6 +521,64 @@ export default function CarSearch({ onCarSelectData }: CarSearchProps) {
             </div>
           </div>
         </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="trim">Trim (optional)</Label>
+            <Input
+              id="trim"
+              placeholder="e.g. XLE"
+              value={trim}
+              onChange={(e) => setTrim(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mileage">Mileage (optional)</Label>
+            <Input
+              id="mileage"
+              type="number"
+              min="0"
+              placeholder="e.g. 45000"
+              value={mileage}
+              onChange={(e) => setMileage(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="condition">Condition</Label>
+            <Select
+              value={condition}
+              onValueChange={(value) => setCondition(value as VehicleCondition)}
+            >
+              <SelectTrigger id="condition">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VEHICLE_CONDITIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="region">Region (optional)</Label>
+            <Select
+              value={region}
+              onValueChange={(value) => setRegion(value as VehicleRegion)}
+            >
+              <SelectTrigger id="region">
+                <SelectValue placeholder="Any region" />
+              </SelectTrigger>
+              <SelectContent>
+                {VEHICLE_REGIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
         <div className="flex justify-end">
           <Button type="submit" disabled={loading}>
             {loading ? "Searching..." : "Search"}
@@ -418,11 +591,11 @@ export default function CarSearch({ onCarSelectData }: CarSearchProps) {
       {results && (
         <div className="border rounded-lg p-4 space-y-4 bg-gray-50">
           <h3 className="text-lg font-medium">
-            {year} {make} {model}
+            {year} {make} {model} {trim}
           </h3>
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <p className="text-sm text-gray-500">Average Price</p>
+              <p className="text-sm text-gray-500">Estimated Value</p>
               <p className="text-xl font-bold">
                 $
                 {results.averagePrice?.toLocaleString(undefined, {
@@ -430,6 +603,12 @@ export default function CarSearch({ onCarSelectData }: CarSearchProps) {
                   maximumFractionDigits: 2,
                 }) || "N/A"}
               </p>
+              <p className="text-xs text-gray-500 mt-1">
+                Range ${results.low.toLocaleString()} – $
+                {results.high.toLocaleString()} •{" "}
+                <span className="capitalize">{results.confidence}</span>{" "}
+                confidence
+              </p>
             </div>
             <div>
               <p className="text-sm text-gray-500">Available Listings</p>
@@ -441,7 +620,7 @@ export default function CarSearch({ onCarSelectData }: CarSearchProps) {
             <div className="mt-4">
               <h4 className="text-sm font-medium mb-2">Sample Listings</h4>
               <div className="space-y-2 max-h-40 overflow-y-auto">
-                {results.listings.map((listing: any, index: number) => (
+                {results.listings.map((listing, index) => (
                   <div
                     key={index}
                     className="text-sm p-2 bg-white rounded border"
@@ -16,14 +16,19 @@ import { createClient } from "../../../supabase/client";
 interface ConnectCryptoBrokerProps {
   onBack: () => void;
   userId: string;
+  // Open straight on one exchange's key form, e.g. to reconnect it
+  initialBroker?: string;
 }
 
 export default function ConnectCryptoBroker({
   onBack,
   userId,
+  initialBroker,
 }: ConnectCryptoBrokerProps) {
   const supabase = createClient();
-  const [selectedBroker, setSelectedBroker] = useState<string | null>(null);
+  const [selectedBroker, setSelectedBroker] = useState<string | null>(
+    initialBroker ?? null,
+  );
   const [apiKey, setApiKey] = useState("");
   const [apiSecret, setApiSecret] = useState("");
   const [isConnecting, setIsConnecting] = useState(false);
@@ -80,6 +85,16 @@ export default function ConnectCryptoBroker({
 
       if (error) throw new Error(error.message);
 
+      // Turn the balances fetched while connecting into crypto assets. The
+      // connection is already saved, so a failure is left to the scheduled
+      // exchange sync rather than asking the user to connect again
+      const response = await fetch("/api/exchanges/import", {
+        method: "POST",
+      });
+      if (!response.ok) {
+        console.error("Error importing exchange balances:", response.status);
+      }
+
       // Refresh the page to show the newly connected broker
       window.location.href = "/dashboard/assets";
     } catch (err) {
@@ -140,7 +155,7 @@ export default function ConnectCryptoBroker({
                   {brokers.find((b) => b.id === selectedBroker)?.name}
                 </DialogTitle>
                 <DialogDescription>
-                  Enter your API credentials to connect your account
+                  Enter a read-only API key to connect your account
                 </DialogDescription>
               </div>
               <Button
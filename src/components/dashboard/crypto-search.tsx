@@ -38,44 +38,23 @@ export default function CryptoSearch({ onCryptoSelect }: CryptoSearchProps) {
     setShowDropdown(true);
 
     try {
-      // In a real implementation, this would call the API
-      // For demo purposes, we'll simulate a response
-      const mockResults = [
-        { symbol: "BTC", name: "Bitcoin", price: 65432.18 },
-        { symbol: "ETH", name: "Ethereum", price: 3456.78 },
-        { symbol: "SOL", name: "Solana", price: 142.35 },
-        { symbol: "ADA", name: "Cardano", price: 0.45 },
-        { symbol: "DOT", name: "Polkadot", price: 6.78 },
-        { symbol: "DOGE", name: "Dogecoin", price: 0.12 },
-        { symbol: "XRP", name: "Ripple", price: 0.56 },
-        { symbol: "AVAX", name: "Avalanche", price: 34.56 },
-        { symbol: "LINK", name: "Chainlink", price: 14.32 },
-        { symbol: "MATIC", name: "Polygon", price: 0.67 },
-      ].filter(
-        (crypto) =>
-          crypto.symbol.toLowerCase().includes(query.toLowerCase()) ||
-          crypto.name.toLowerCase().includes(query.toLowerCase()),
+      const response = await fetch(
+        `/api/market-data/search?type=crypto&q=${encodeURIComponent(query)}`,
       );
 
-      // Simulate API delay
-      setTimeout(() => {
-        setSearchResults(mockResults);
-        setIsSearching(false);
-      }, 300);
+      if (!response.ok) {
+        throw new Error(`API request failed with status ${response.status}`);
+      }
 
-      // Actual API call would look something like this:
-      /*
-      const response = await fetch(
-        `https://api.example.com/crypto/search?apiKey=kHtpR7fKT_eFyPw0ixpCnUe_gZiRcce&query=${query}`
-      );
       const data = await response.json();
-      setSearchResults(data.results.map(item => ({
-        symbol: item.symbol,
-        name: item.name,
-        price: item.price || 0
-      })));
+      setSearchResults(
+        data.results.map((item: Crypto) => ({
+          symbol: item.symbol,
+          name: item.name,
+          price: item.price,
+        })),
+      );
       setIsSearching(false);
-      */
     } catch (error) {
       console.error("Error searching cryptocurrencies:", error);
       setIsSearching(false);
@@ -168,6 +147,7 @@ export default function CryptoSearch({ onCryptoSelect }: CryptoSearchProps) {
           acquisition_value: totalValue,
           category_id: categoryData.id,
           is_liability: false,
+          value_source: "manual",
           user_id: user.id,
           metadata: {
             symbol: selectedCrypto.symbol,
@@ -0,0 +1,331 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowDown, ArrowUp, CheckCircle2 } from "lucide-react";
+import {
+  PAYOFF_STRATEGIES,
+  orderDebts,
+  simulatePayoff,
+  type PayoffDebt,
+  type PayoffPlan,
+  type PayoffStrategy,
+} from "@/utils/debt-payoff";
+import { saveDebtPayoffPlan } from "@/app/actions/debt-actions";
+
+interface DebtPayoffSimulatorProps {
+  debts: PayoffDebt[];
+  activePlan?: PayoffPlan | null;
+  currency?: string;
+}
+
+const formatCurrency = (value: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+const formatMonth = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+  });
+
+export default function DebtPayoffSimulator({
+  debts,
+  activePlan,
+  currency = "USD",
+}: DebtPayoffSimulatorProps) {
+  const router = useRouter();
+  const [isSaving, startTransition] = useTransition();
+  const [extraPayment, setExtraPayment] = useState(
+    activePlan ? String(activePlan.extraPayment) : "100",
+  );
+  const [selectedStrategy, setSelectedStrategy] = useState<PayoffStrategy>(
+    activePlan?.strategy || "avalanche",
+  );
+  const [customOrder, setCustomOrder] = useState<string[]>(() =>
+    orderDebts(debts, "custom", activePlan?.customOrder).map((debt) => debt.id),
+  );
+  const [message, setMessage] = useState<string | null>(null);
+
+  const extra = parseFloat(extraPayment) || 0;
+
+  const results = useMemo(
+    () =>
+      PAYOFF_STRATEGIES.map((strategy) =>
+        simulatePayoff(debts, extra, strategy.value, customOrder),
+      ),
+    [debts, extra, customOrder],
+  );
+
+  const selectedResult =
+    results.find((result) => result.strategy === selectedStrategy) ||
+    results[0];
+  const debtNames = Object.fromEntries(
+    debts.map((debt) => [debt.id, debt.name]),
+  );
+  const minimumTotal = debts.reduce(
+    (sum, debt) => sum + debt.minimumPayment,
+    0,
+  );
+
+  const moveDebt = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= customOrder.length) return;
+
+    const nextOrder = [...customOrder];
+    [nextOrder[index], nextOrder[target]] = [
+      nextOrder[target],
+      nextOrder[index],
+    ];
+    setCustomOrder(nextOrder);
+    setSelectedStrategy("custom");
+  };
+
+  const handleSave = () => {
+    setMessage(null);
+    startTransition(async () => {
+      const response = await saveDebtPayoffPlan(
+        {
+          strategy: selectedStrategy,
+          extraPayment: extra,
+          customOrder,
+        },
+        {
+          months: selectedResult.months,
+          totalInterest: selectedResult.totalInterest,
+          debtFreeDate: selectedResult.debtFreeDate,
+        },
+      );
+
+      if (response.error) {
+        setMessage(`Could not save plan: ${response.error}`);
+      } else {
+        setMessage("Plan saved as your active plan.");
+        router.refresh();
+      }
+    });
+  };
+
+  if (debts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payoff Simulator</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="extraPayment">Extra monthly budget</Label>
+            <Input
+              id="extraPayment"
+              type="number"
+              min="0"
+              step="any"
+              value={extraPayment}
+              onChange={(e) => setExtraPayment(e.target.value)}
+              className="w-48"
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            On top of {formatCurrency(minimumTotal, currency)}/mo in minimum
+            payments
+          </p>
+        </div>
+
+        {/* Strategy comparison */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {results.map((result) => {
+            const strategy = PAYOFF_STRATEGIES.find(
+              (option) => option.value === result.strategy,
+            );
+            const isSelected = result.strategy === selectedStrategy;
+
+            return (
+              <button
+                key={result.strategy}
+                type="button"
+                onClick={() => setSelectedStrategy(result.strategy)}
+                className={`text-left rounded-lg border p-4 transition-colors ${
+                  isSelected
+                    ? "border-primary bg-primary/5"
+                    : "hover:bg-muted/30"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">{strategy?.label}</h3>
+                  {isSelected && (
+                    <CheckCircle2 className="h-4 w-4 text-primary" />
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mb-3">
+                  {strategy?.description}
+                </p>
+                {result.paysOff ? (
+                  <div className="space-y-1 text-sm">
+                    <p>
+                      <span className="font-bold">{result.months}</span> months
+                      to debt-free
+                      {result.debtFreeDate &&
+                        ` (${formatMonth(result.debtFreeDate)})`}
+                    </p>
+                    <p>
+                      <span className="font-bold">
+                        {formatCurrency(result.totalInterest, currency)}
+                      </span>{" "}
+                      total interest
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-red-600">
+                    This budget doesn't cover the interest.
+                  </p>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <Tabs defaultValue="order">
+          <TabsList>
+            <TabsTrigger value="order">Payoff Order</TabsTrigger>
+            <TabsTrigger value="schedule">Month by Month</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="order">
+            <div className="divide-y">
+              {(selectedStrategy === "custom"
+                ? customOrder
+                : selectedResult.order
+              ).map((debtId, index) => {
+                const debt = debts.find((item) => item.id === debtId);
+                const milestone = selectedResult.milestones.find(
+                  (item) => item.id === debtId,
+                );
+                if (!debt) return null;
+
+                return (
+                  <div
+                    key={debtId}
+                    className="py-3 flex items-center justify-between gap-4"
+                  >
+                    <div>
+                      <p className="font-medium">
+                        {index + 1}. {debt.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(debt.balance, currency)} •{" "}
+                        {debt.interestRate}% APR •{" "}
+                        {formatCurrency(debt.minimumPayment, currency)}/mo
+                        minimum
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">
+                        {milestone
+                          ? `Paid off ${formatMonth(milestone.date)}`
+                          : "Not paid off"}
+                      </span>
+                      {selectedStrategy === "custom" && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => moveDebt(index, -1)}
+                            disabled={index === 0}
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => moveDebt(index, 1)}
+                            disabled={index === customOrder.length - 1}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="schedule">
+            <div className="overflow-x-auto max-h-96">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-muted/50">
+                    <th className="text-left p-3 text-sm font-medium">Month</th>
+                    <th className="text-right p-3 text-sm font-medium">
+                      Payment
+                    </th>
+                    <th className="text-right p-3 text-sm font-medium">
+                      Interest
+                    </th>
+                    {selectedResult.order.map((debtId) => (
+                      <th
+                        key={debtId}
+                        className="text-right p-3 text-sm font-medium"
+                      >
+                        {debtNames[debtId]}
+                      </th>
+                    ))}
+                    <th className="text-right p-3 text-sm font-medium">
+                      Remaining
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {selectedResult.timeline.map((month) => (
+                    <tr key={month.month}>
+                      <td className="p-3 text-sm">{formatMonth(month.date)}</td>
+                      <td className="p-3 text-sm text-right">
+                        {formatCurrency(month.payment, currency)}
+                      </td>
+                      <td className="p-3 text-sm text-right">
+                        {formatCurrency(month.interest, currency)}
+                      </td>
+                      {selectedResult.order.map((debtId) => (
+                        <td key={debtId} className="p-3 text-sm text-right">
+                          {formatCurrency(month.balances[debtId], currency)}
+                        </td>
+                      ))}
+                      <td className="p-3 text-sm text-right font-medium">
+                        {formatCurrency(month.totalBalance, currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex items-center justify-end gap-4">
+          {message && (
+            <p className="text-sm text-muted-foreground">{message}</p>
+          )}
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !selectedResult.paysOff}
+          >
+            {isSaving ? "Saving..." : "Save as Active Plan"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
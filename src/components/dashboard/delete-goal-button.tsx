@@ -0,0 +1,75 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Trash2 } from "lucide-react";
+import { deleteGoal } from "@/app/actions/goal-actions";
+
+interface DeleteGoalButtonProps {
+  goalId: string;
+  goalName: string;
+}
+
+export default function DeleteGoalButton({
+  goalId,
+  goalName,
+}: DeleteGoalButtonProps) {
+  const router = useRouter();
+  const [isDeleting, startTransition] = useTransition();
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      const response = await deleteGoal(goalId);
+      if (response.error) {
+        console.error("Error deleting goal:", response.error);
+        return;
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-red-600 hover:text-red-700"
+          disabled={isDeleting}
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this goal?</AlertDialogTitle>
+          <AlertDialogDescription>
+            "{goalName}" will be removed. Your assets are not affected.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            className="bg-red-600 hover:bg-red-700"
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
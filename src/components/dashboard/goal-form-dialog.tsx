@@ -0,0 +1,276 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { PlusCircle } from "lucide-react";
+import { saveGoal } from "@/app/actions/goal-actions";
+import type { Goal, GoalAsset } from "@/utils/goals";
+
+interface GoalFormDialogProps {
+  goal?: Goal;
+  assets: GoalAsset[];
+  categories: { slug: string; name: string }[];
+  // The base currency the asset values are shown in
+  currency: string;
+}
+
+const formatCurrency = (value: number, currency: string) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+export default function GoalFormDialog({
+  goal,
+  assets,
+  categories,
+  currency,
+}: GoalFormDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isSaving, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState(goal?.name || "");
+  const [targetAmount, setTargetAmount] = useState(
+    goal ? String(goal.targetAmount) : "",
+  );
+  const [deadline, setDeadline] = useState(goal?.deadline || "");
+  const [manualAmount, setManualAmount] = useState(
+    goal ? String(goal.manualAmount) : "",
+  );
+  const [monthlyContribution, setMonthlyContribution] = useState(
+    goal?.monthlyContribution ? String(goal.monthlyContribution) : "",
+  );
+  const [expectedReturn, setExpectedReturn] = useState(
+    goal?.expectedReturn ? String(goal.expectedReturn) : "",
+  );
+  const [linkedAssetIds, setLinkedAssetIds] = useState<string[]>(
+    goal?.linkedAssetIds || [],
+  );
+  const [linkedCategorySlugs, setLinkedCategorySlugs] = useState<string[]>(
+    goal?.linkedCategorySlugs || [],
+  );
+
+  const isLinked = linkedAssetIds.length > 0 || linkedCategorySlugs.length > 0;
+
+  const toggle = (values: string[], value: string, checked: boolean) =>
+    checked ? [...values, value] : values.filter((item) => item !== value);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const response = await saveGoal({
+        id: goal?.id,
+        name,
+        targetAmount: parseFloat(targetAmount),
+        deadline: deadline || null,
+        linkedAssetIds,
+        linkedCategorySlugs,
+        manualAmount: parseFloat(manualAmount) || 0,
+        monthlyContribution: parseFloat(monthlyContribution) || 0,
+        expectedReturn: parseFloat(expectedReturn) || 0,
+      });
+
+      if (response.error) {
+        setError(response.error);
+        return;
+      }
+
+      setOpen(false);
+      router.refresh();
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {goal ? (
+          <Button variant="ghost" size="sm">
+            Edit Goal
+          </Button>
+        ) : (
+          <Button>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add New Goal
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{goal ? "Edit Goal" : "Add New Goal"}</DialogTitle>
+          <DialogDescription>
+            Link assets or whole categories to track progress automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="goal-name">
+              Name <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="goal-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Emergency Fund, Home Down Payment, etc."
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="goal-target">
+                Target <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="goal-target"
+                type="number"
+                min="0"
+                step="any"
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value)}
+                placeholder="0.00"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal-deadline">Deadline</Label>
+              <Input
+                id="goal-deadline"
+                type="date"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="goal-contribution">Monthly Contribution</Label>
+              <Input
+                id="goal-contribution"
+                type="number"
+                min="0"
+                step="any"
+                value={monthlyContribution}
+                onChange={(e) => setMonthlyContribution(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal-return">Expected Return (% / year)</Label>
+              <Input
+                id="goal-return"
+                type="number"
+                min="0"
+                step="any"
+                value={expectedReturn}
+                onChange={(e) => setExpectedReturn(e.target.value)}
+                placeholder="0"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Leave both empty to forecast from how your linked assets have grown.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Linked Categories</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {categories.map((category) => (
+                <label
+                  key={category.slug}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <Checkbox
+                    checked={linkedCategorySlugs.includes(category.slug)}
+                    onCheckedChange={(checked) =>
+                      setLinkedCategorySlugs((prev) =>
+                        toggle(prev, category.slug, checked === true),
+                      )
+                    }
+                  />
+                  {category.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Linked Assets</Label>
+            {assets.length > 0 ? (
+              <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                {assets.map((asset) => (
+                  <label
+                    key={asset.id}
+                    className="flex items-center justify-between gap-2 p-2 text-sm"
+                  >
+                    <span className="flex items-center gap-2">
+                      <Checkbox
+                        checked={linkedAssetIds.includes(asset.id)}
+                        onCheckedChange={(checked) =>
+                          setLinkedAssetIds((prev) =>
+                            toggle(prev, asset.id, checked === true),
+                          )
+                        }
+                      />
+                      {asset.name}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {formatCurrency(asset.value, currency)}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No assets to link yet.
+              </p>
+            )}
+          </div>
+
+          {!isLinked && (
+            <div className="space-y-2">
+              <Label htmlFor="goal-manual">Current Amount</Label>
+              <Input
+                id="goal-manual"
+                type="number"
+                min="0"
+                step="any"
+                value={manualAmount}
+                onChange={(e) => setManualAmount(e.target.value)}
+                placeholder="0.00"
+              />
+              <p className="text-xs text-muted-foreground">
+                Only used when no assets or categories are linked.
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end pt-4">
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : goal ? "Save Changes" : "Add Goal"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,20 +2,30 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  getTimeframeStartDate,
+  toSnapshotDate,
+  type NetWorthPoint,
+  type Timeframe,
+} from "@/utils/net-worth-history";
 
 interface PortfolioChartProps {
   totalAssets?: number;
   totalLiabilities?: number;
+  currency?: string;
   className?: string;
 }
 
 export default function PortfolioChart({
   totalAssets = 0,
   totalLiabilities = 0,
+  currency = "USD",
   className = "",
 }: PortfolioChartProps) {
-  const [timeframe, setTimeframe] = useState("1m");
+  const [timeframe, setTimeframe] = useState<Timeframe>("1m");
+  const [history, setHistory] = useState<NetWorthPoint[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [hoveredPoint, setHoveredPoint] = useState<{
     date: Date;
     value: number;
@@ -23,52 +33,69 @@ export default function PortfolioChart({
     y: number;
   } | null>(null);
 
-  // Add support for more timeframes
-  const timeframeMap = {
-    "1d": 1,
-    "7d": 7,
-    "1m": 30,
-    ytd: Math.floor(
-      (new Date() - new Date(new Date().getFullYear(), 0, 1)) /
-        (1000 * 60 * 60 * 24),
-    ),
-    "1y": 365,
-    all: 730,
-  };
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const netWorth = totalAssets - totalLiabilities;
 
-  // Generate sample historical data based on current values
-  const generateHistoricalData = () => {
-    const now = new Date();
-    const data = [];
-
-    // Number of data points based on timeframe
-    let days = timeframeMap[timeframe] || 30; // Use the timeframe map
-
-    // Starting value (current net worth minus some growth)
-    const startingValue = netWorth * 0.8;
-    const growth = netWorth - startingValue;
+  // Fetch the recorded net worth snapshots for the selected timeframe
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setIsLoadingHistory(true);
+
+      try {
+        const response = await fetch(
+          `/api/net-worth/history?timeframe=${timeframe}`,
+          { headers: { "Cache-Control": "no-store" } },
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch net worth history");
+        }
+
+        if (!cancelled) setHistory(data.history || []);
+      } catch (error) {
+        console.error("Error fetching net worth history:", error);
+        if (!cancelled) setHistory([]);
+      } finally {
+        if (!cancelled) setIsLoadingHistory(false);
+      }
+    };
 
-    // Generate data points
-    for (let i = 0; i <= days; i++) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - (days - i));
+    fetchHistory();
 
-      // Create a slightly random growth curve
-      const progress = i / days;
-      const randomFactor = 1 + (Math.random() * 0.1 - 0.05); // +/- 5%
-      const value = startingValue + growth * progress * progress * randomFactor;
+    return () => {
+      cancelled = true;
+    };
+  }, [timeframe]);
 
-      data.push({
-        date,
-        value: Math.max(0, value),
-      });
+  // Snapshots for past days, followed by the live net worth for today
+  const historicalData = useMemo(() => {
+    const today = toSnapshotDate(new Date());
+    const data = history
+      .filter((point) => point.date !== today && point.currency === currency)
+      .map((point) => ({
+        date: new Date(`${point.date}T00:00:00`),
+        value: point.netWorth,
+      }));
+
+    data.push({ date: new Date(), value: netWorth });
+
+    // Without earlier snapshots, draw a flat line from the start of the timeframe
+    if (data.length === 1) {
+      const startDate = getTimeframeStartDate(timeframe) || new Date();
+      data.unshift({ date: startDate, value: netWorth });
     }
 
     return data;
-  };
+  }, [history, netWorth, timeframe, currency]);
+
+  const hasHistory = history.some(
+    (point) =>
+      point.date !== toSnapshotDate(new Date()) && point.currency === currency,
+  );
 
   // Draw the chart
   useEffect(() => {
@@ -78,8 +105,7 @@ export default function PortfolioChart({
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
 
-    // Generate data
-    const data = generateHistoricalData();
+    const data = historicalData;
     if (data.length === 0) return;
 
     // Set canvas dimensions
@@ -92,11 +118,19 @@ export default function PortfolioChart({
     // Find min and max values for scaling
     const values = data.map((d) => d.value);
     const maxValue = Math.max(...values) * 1.1; // Add 10% padding
-    const minValue = Math.min(0, Math.min(...values) * 0.9); // Include zero
-
-    // Calculate scaling factors
-    const xScale = width / (data.length - 1);
+    const lowestValue = Math.min(...values);
+    const minValue = lowestValue < 0 ? lowestValue * 1.1 : 0; // Include zero
+
+    // Calculate scaling factors. Points are placed by date, so gaps between
+    // snapshots show as gaps on the axis
+    const startTime = data[0].date.getTime();
+    const timeSpan = Math.max(
+      data[data.length - 1].date.getTime() - startTime,
+      1,
+    );
+    const xScale = width / timeSpan;
     const yScale = height / (maxValue - minValue);
+    const toX = (date: Date) => (date.getTime() - startTime) * xScale;
 
     // Draw axes
     ctx.strokeStyle = "#e5e7eb"; // Light gray
@@ -117,9 +151,9 @@ export default function PortfolioChart({
       ctx.font = "10px Arial";
       ctx.textAlign = "left";
       ctx.fillText(
-        new Intl.NumberFormat("fr-FR", {
+        new Intl.NumberFormat("en-US", {
           style: "currency",
-          currency: "EUR",
+          currency,
           maximumFractionDigits: 0,
         }).format(value),
         5,
@@ -132,7 +166,7 @@ export default function PortfolioChart({
     ctx.moveTo(0, height - (data[0].value - minValue) * yScale);
 
     for (let i = 1; i < data.length; i++) {
-      const x = i * xScale;
+      const x = toX(data[i].date);
       const y = height - (data[i].value - minValue) * yScale;
       ctx.lineTo(x, y);
     }
@@ -156,21 +190,21 @@ export default function PortfolioChart({
 
     const dateMarkers = 6; // Number of date markers to show
     for (let i = 0; i <= dateMarkers; i++) {
-      const index = Math.floor((i * (data.length - 1)) / dateMarkers);
-      const x = index * xScale;
-      const date = data[index].date;
-      ctx.fillText(date.toLocaleDateString("fr-FR"), x, height - 5);
+      const x = (i * width) / dateMarkers;
+      const date = new Date(startTime + x / xScale);
+      ctx.fillText(date.toLocaleDateString("en-US"), x, height - 5);
     }
 
     // Store the data and scaling for hover interactions
     canvas.dataset.chartData = JSON.stringify({
       data,
+      startTime,
       xScale,
       yScale,
       minValue,
       height,
     });
-  }, [timeframe, netWorth, totalAssets, totalLiabilities]);
+  }, [historicalData, currency]);
 
   // Handle mouse movement for interactive tooltip
   useEffect(() => {
@@ -187,20 +221,23 @@ export default function PortfolioChart({
       if (!chartDataStr) return;
 
       const chartData = JSON.parse(chartDataStr);
-      const { data, xScale, yScale, minValue, height } = chartData;
-
-      // Find the closest data point
-      const index = Math.min(
-        Math.max(0, Math.round(x / xScale)),
-        data.length - 1,
+      const { data, startTime, xScale, yScale, minValue, height } = chartData;
+
+      // Find the data point closest in time to the cursor
+      const pointX = (point: { date: string }) =>
+        (new Date(point.date).getTime() - startTime) * xScale;
+      const dataPoint = data.reduce(
+        (closest: { date: string }, point: { date: string }) =>
+          Math.abs(pointX(point) - x) < Math.abs(pointX(closest) - x)
+            ? point
+            : closest,
       );
-      const dataPoint = data[index];
       const pointY = height - (dataPoint.value - minValue) * yScale;
 
       setHoveredPoint({
         date: new Date(dataPoint.date),
         value: dataPoint.value,
-        x: index * xScale,
+        x: pointX(dataPoint),
         y: pointY,
       });
     };
@@ -219,7 +256,6 @@ export default function PortfolioChart({
   }, [timeframe]);
 
   // Calculate growth percentage
-  const historicalData = generateHistoricalData();
   const startingValue = historicalData.length > 0 ? historicalData[0].value : 0;
   const growthAmount = netWorth - startingValue;
   const growthPercentage =
@@ -239,12 +275,12 @@ export default function PortfolioChart({
               Net Worth
             </CardTitle>
             <p className="text-sm text-gray-500 mt-1">
-              {new Date().toLocaleDateString("fr-FR")}
+              {new Date().toLocaleDateString("en-US")}
             </p>
             <p className="text-3xl font-bold mt-2 text-gray-900">
-              {new Intl.NumberFormat("fr-FR", {
+              {new Intl.NumberFormat("en-US", {
                 style: "currency",
-                currency: "EUR",
+                currency,
                 maximumFractionDigits: 0,
               }).format(netWorth)}
             </p>
@@ -252,7 +288,7 @@ export default function PortfolioChart({
           <Tabs
             defaultValue="1m"
             value={timeframe}
-            onValueChange={setTimeframe}
+            onValueChange={(value) => setTimeframe(value as Timeframe)}
             className="w-auto"
           >
             <TabsList className="grid grid-cols-6 w-[300px] bg-gray-100 p-1 rounded-lg">
@@ -316,12 +352,12 @@ export default function PortfolioChart({
                   }}
                 >
                   <div className="text-sm font-medium">
-                    {hoveredPoint.date.toLocaleDateString("fr-FR")}
+                    {hoveredPoint.date.toLocaleDateString("en-US")}
                   </div>
                   <div className="text-sm font-bold">
-                    {new Intl.NumberFormat("fr-FR", {
+                    {new Intl.NumberFormat("en-US", {
                       style: "currency",
-                      currency: "EUR",
+                      currency,
                       maximumFractionDigits: 0,
                     }).format(hoveredPoint.value)}
                   </div>
@@ -347,13 +383,19 @@ export default function PortfolioChart({
                 ></div>
               )}
             </div>
+            {!isLoadingHistory && !hasHistory && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Your net worth history is recorded daily. The chart will fill in
+                as snapshots are taken.
+              </p>
+            )}
             <div className="flex justify-between mt-6 text-sm pt-4 border-t border-gray-100">
               <div>
                 <p className="text-gray-500 font-medium">Starting Value</p>
                 <p className="font-semibold text-gray-800 mt-1">
-                  {new Intl.NumberFormat("fr-FR", {
+                  {new Intl.NumberFormat("en-US", {
                     style: "currency",
-                    currency: "EUR",
+                    currency,
                     maximumFractionDigits: 0,
                   }).format(startingValue)}
                 </p>
@@ -361,9 +403,9 @@ export default function PortfolioChart({
               <div>
                 <p className="text-gray-500 font-medium">Current Net Worth</p>
                 <p className="font-semibold text-gray-800 mt-1">
-                  {new Intl.NumberFormat("fr-FR", {
+                  {new Intl.NumberFormat("en-US", {
                     style: "currency",
-                    currency: "EUR",
+                    currency,
                     maximumFractionDigits: 0,
                   }).format(netWorth)}
                 </p>
@@ -374,9 +416,9 @@ export default function PortfolioChart({
                   className={`font-semibold mt-1 ${growthAmount >= 0 ? "text-emerald-600" : "text-rose-600"}`}
                 >
                   {growthAmount >= 0 ? "+" : ""}
-                  {new Intl.NumberFormat("fr-FR", {
+                  {new Intl.NumberFormat("en-US", {
                     style: "currency",
-                    currency: "EUR",
+                    currency,
                     maximumFractionDigits: 0,
                   }).format(growthAmount)}{" "}
                   ({growthAmount >= 0 ? "+" : ""}
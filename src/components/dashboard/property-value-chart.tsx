@@ -0,0 +1,169 @@
+import type { PropertyTimelinePoint } from "@/utils/real-estate";
+
+interface PropertyValueChartProps {
+  points: PropertyTimelinePoint[];
+  currency?: string;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { top: 16, right: 16, bottom: 28, left: 72 };
+
+export default function PropertyValueChart({
+  points,
+  currency = "USD",
+  width = 800,
+  height = 260,
+}: PropertyValueChartProps) {
+  if (points.length < 2) {
+    return (
+      <p className="text-center py-8 text-muted-foreground">
+        Add a purchase price or an appraisal to chart this property.
+      </p>
+    );
+  }
+
+  const times = points.map((point) => new Date(point.date).getTime());
+  const minTime = times[0];
+  const timeRange = times[times.length - 1] - minTime || 1;
+  const maxValue =
+    Math.max(
+      ...points.map((point) => Math.max(point.value, point.loanBalance)),
+    ) || 1;
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (time: number) =>
+    PADDING.left + ((time - minTime) / timeRange) * plotWidth;
+  const y = (value: number) =>
+    PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const toPolyline = (
+    series: PropertyTimelinePoint[],
+    key: "value" | "loanBalance",
+  ) =>
+    series
+      .map(
+        (point) =>
+          `${x(new Date(point.date).getTime()).toFixed(1)},${y(point[key]).toFixed(1)}`,
+      )
+      .join(" ");
+
+  // The last recorded point starts the projection so the lines connect
+  const todayIndex = points.findIndex((point) => point.projected) - 1;
+  const recorded = todayIndex >= 0 ? points.slice(0, todayIndex + 1) : points;
+  const projected = todayIndex >= 0 ? points.slice(todayIndex) : [];
+  const todayX = todayIndex >= 0 ? x(times[todayIndex]) : null;
+
+  const formatAxis = (value: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      notation: "compact",
+      maximumFractionDigits: 1,
+    }).format(value);
+
+  const firstYear = new Date(minTime).getFullYear() + 1;
+  const lastYear = new Date(times[times.length - 1]).getFullYear();
+  const yearStep = Math.max(1, Math.ceil((lastYear - firstYear + 1) / 8));
+  const yearTicks: number[] = [];
+  for (let year = firstYear; year <= lastYear; year += yearStep) {
+    yearTicks.push(year);
+  }
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Property value and loan balance over time"
+      >
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={width - PADDING.right}
+              y1={y(maxValue * fraction)}
+              y2={y(maxValue * fraction)}
+              stroke="#e5e7eb"
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y(maxValue * fraction) + 4}
+              textAnchor="end"
+              fontSize="11"
+              fill="#6b7280"
+            >
+              {formatAxis(maxValue * fraction)}
+            </text>
+          </g>
+        ))}
+
+        {yearTicks.map((year) => (
+          <text
+            key={year}
+            x={x(new Date(year, 0, 1).getTime())}
+            y={height - 8}
+            textAnchor="middle"
+            fontSize="11"
+            fill="#6b7280"
+          >
+            {year}
+          </text>
+        ))}
+
+        {todayX !== null && (
+          <line
+            x1={todayX}
+            x2={todayX}
+            y1={PADDING.top}
+            y2={PADDING.top + plotHeight}
+            stroke="#9ca3af"
+            strokeDasharray="2 3"
+          />
+        )}
+
+        <polyline
+          points={toPolyline(recorded, "value")}
+          fill="none"
+          stroke="#2563eb"
+          strokeWidth="2"
+        />
+        <polyline
+          points={toPolyline(recorded, "loanBalance")}
+          fill="none"
+          stroke="#dc2626"
+          strokeWidth="2"
+        />
+        {projected.length > 1 && (
+          <>
+            <polyline
+              points={toPolyline(projected, "value")}
+              fill="none"
+              stroke="#2563eb"
+              strokeWidth="2"
+              strokeDasharray="6 4"
+            />
+            <polyline
+              points={toPolyline(projected, "loanBalance")}
+              fill="none"
+              stroke="#dc2626"
+              strokeWidth="2"
+              strokeDasharray="6 4"
+            />
+          </>
+        )}
+      </svg>
+      <div className="flex gap-4 text-xs text-muted-foreground justify-center">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5 bg-blue-600" /> Value
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5 bg-red-600" /> Loan balance
+        </span>
+        <span>Dashed lines are projections</span>
+      </div>
+    </div>
+  );
+}
@@ -17,45 +17,6 @@ interface RecentTransactionsProps {
 export default function RecentTransactions({
   transactions = [],
 }: RecentTransactionsProps) {
-  // Sample data if no transactions are provided
-  const sampleTransactions: Transaction[] = [
-    {
-      id: "1",
-      type: "increase",
-      name: "Stock Market Gain",
-      category: "Investments",
-      date: "Today",
-      amount: 1250,
-    },
-    {
-      id: "2",
-      type: "decrease",
-      name: "Credit Card Payment",
-      category: "Debt",
-      date: "Yesterday",
-      amount: 500,
-    },
-    {
-      id: "3",
-      type: "increase",
-      name: "Rental Income",
-      category: "Real Estate",
-      date: "Jul 15, 2023",
-      amount: 2000,
-    },
-    {
-      id: "4",
-      type: "decrease",
-      name: "Property Tax",
-      category: "Real Estate",
-      date: "Jul 10, 2023",
-      amount: 1800,
-    },
-  ];
-
-  const displayTransactions =
-    transactions.length > 0 ? transactions : sampleTransactions;
-
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -73,7 +34,13 @@ export default function RecentTransactions({
       </CardHeader>
       <CardContent>
         <div className="space-y-5">
-          {displayTransactions.map((transaction) => (
+          {transactions.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No transactions yet. Dividends, interest and trades from your
+              connected brokers will show up here.
+            </p>
+          )}
+          {transactions.map((transaction) => (
             <div
               key={transaction.id}
               className="flex items-center justify-between"
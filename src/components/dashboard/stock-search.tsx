@@ -38,44 +38,23 @@ export default function StockSearch({ onStockSelect }: StockSearchProps) {
     setShowDropdown(true);
 
     try {
-      // In a real implementation, this would call the API
-      // For demo purposes, we'll simulate a response
-      const mockResults = [
-        { symbol: "AAPL", name: "Apple Inc.", price: 175.34 },
-        { symbol: "MSFT", name: "Microsoft Corporation", price: 325.76 },
-        { symbol: "GOOGL", name: "Alphabet Inc.", price: 142.89 },
-        { symbol: "AMZN", name: "Amazon.com Inc.", price: 178.12 },
-        { symbol: "META", name: "Meta Platforms Inc.", price: 485.39 },
-        { symbol: "TSLA", name: "Tesla, Inc.", price: 237.49 },
-        { symbol: "NVDA", name: "NVIDIA Corporation", price: 116.32 },
-        { symbol: "JPM", name: "JPMorgan Chase & Co.", price: 198.73 },
-        { symbol: "V", name: "Visa Inc.", price: 276.45 },
-        { symbol: "JNJ", name: "Johnson & Johnson", price: 152.64 },
-      ].filter(
-        (stock) =>
-          stock.symbol.toLowerCase().includes(query.toLowerCase()) ||
-          stock.name.toLowerCase().includes(query.toLowerCase()),
+      const response = await fetch(
+        `/api/market-data/search?type=stock&q=${encodeURIComponent(query)}`,
       );
 
-      // Simulate API delay
-      setTimeout(() => {
-        setSearchResults(mockResults);
-        setIsSearching(false);
-      }, 300);
+      if (!response.ok) {
+        throw new Error(`API request failed with status ${response.status}`);
+      }
 
-      // Actual API call would look something like this:
-      /*
-      const response = await fetch(
-        `https://api.example.com/stocks/search?apiKey=kHtpR7fKT_eFyPw0ixpCnUe_gZiRcce&query=${query}`
-      );
       const data = await response.json();
-      setSearchResults(data.results.map(item => ({
-        symbol: item.symbol,
-        name: item.name,
-        price: item.price || 0
-      })));
+      setSearchResults(
+        data.results.map((item: Stock) => ({
+          symbol: item.symbol,
+          name: item.name,
+          price: item.price,
+        })),
+      );
       setIsSearching(false);
-      */
     } catch (error) {
       console.error("Error searching stocks:", error);
       setIsSearching(false);
@@ -168,6 +147,7 @@ export default function StockSearch({ onStockSelect }: StockSearchProps) {
           acquisition_value: totalValue,
           category_id: categoryData.id,
           is_liability: false,
+          value_source: "manual",
           user_id: user.id,
           metadata: {
             symbol: selectedStock.symbol,
@@ -9,6 +9,7 @@ interface SummaryHeaderProps {
   totalAssets: number;
   totalLiabilities: number;
   changePercentage: number;
+  currency?: string;
 }
 
 export default function SummaryHeader({
@@ -16,11 +17,12 @@ export default function SummaryHeader({
   totalAssets = 0,
   totalLiabilities = 0,
   changePercentage = 0,
+  currency = "USD",
 }: SummaryHeaderProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency,
       maximumFractionDigits: 0,
     }).format(amount);
   };
@@ -5,6 +5,7 @@ interface SummaryServerProps {
   totalAssets: number;
   totalLiabilities: number;
   changePercentage: number;
+  currency?: string;
 }
 
 export default function SummaryServer(props: SummaryServerProps) {
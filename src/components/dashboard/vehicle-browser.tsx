@@ -19,6 +19,7 @@ import {
   DialogClose,
 } from "@/components/ui/dialog";
 import { fetchCarPrice } from "@/utils/car-api";
+import type { ValuationConfidence } from "@/utils/vehicle-valuation";
 import { Car, Info, MapPin, DollarSign, Calendar } from "lucide-react";
 
 interface VehicleListing {
@@ -45,6 +46,9 @@ interface VehicleListing {
 
 interface SearchResults {
   averagePrice: number;
+  low: number;
+  high: number;
+  confidence: ValuationConfidence;
   totalListings: number;
   listings: VehicleListing[];
 }
@@ -169,6 +173,13 @@ export default function VehicleBrowser() {
     }).format(price);
   };
 
+  // Libellés du niveau de confiance
+  const confidenceLabels: Record<ValuationConfidence, string> = {
+    high: "élevée",
+    medium: "moyenne",
+    low: "faible",
+  };
+
   // Formater le kilométrage
   const formatMileage = (miles: number) => {
     // Conversion approximative de miles en kilomètres
@@ -282,8 +293,13 @@ export default function VehicleBrowser() {
             </div>
           </div>
 
-          <div className="text-sm text-gray-500 mb-4">
-            {results.totalListings} annonces trouvées
+          <div className="flex justify-between text-sm text-gray-500 mb-4">
+            <span>{results.totalListings} annonces trouvées</span>
+            <span>
+              Fourchette estimée : {formatPrice(results.low)} –{" "}
+              {formatPrice(results.high)} (confiance{" "}
+              {confidenceLabels[results.confidence]})
+            </span>
           </div>
 
           {results.listings && results.listings.length > 0 && (
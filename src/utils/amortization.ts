@@ -0,0 +1,166 @@
+/**
+ * Amortization engine for liabilities
+ *
+ * Projects a loan month by month from its current balance, APR and monthly
+ * payment: interest accrues at APR / 12 on the remaining balance and the rest
+ * of each payment reduces the principal.
+ */
+import { toSnapshotDate } from "./net-worth-history";
+
+export interface AmortizationRow {
+  period: number;
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  monthlyPayment: number;
+  months: number;
+  payoffDate: string | null;
+  totalInterest: number;
+  totalPaid: number;
+  // False when the payment never covers the interest (or the horizon is hit)
+  paysOff: boolean;
+}
+
+export interface AmortizationInput {
+  balance: number;
+  interestRate: number;
+  monthlyPayment: number;
+  startDate?: Date;
+  paymentDay?: number | null;
+  maxMonths?: number;
+}
+
+// 50 years, longer than any consumer loan
+const DEFAULT_MAX_MONTHS = 600;
+
+// Leftover balances below this are paid with the final payment
+const ROUNDING_RESIDUAL = 1;
+
+/**
+ * Round a currency amount to cents
+ * @param value The amount to round
+ */
+export function roundCurrency(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Round a payment up to the next cent, so it never falls short of the
+ * exact amount and leaves a balance for an extra month
+ * @param value The exact payment
+ */
+function roundPaymentUp(value: number) {
+  // toFixed drops float noise such as 1199.11000000001 before rounding up
+  return Math.ceil(Number((value * 100).toFixed(6))) / 100;
+}
+
+/**
+ * Calculate the fixed monthly payment that pays off a loan over its term
+ * @param principal The amount borrowed or currently owed
+ * @param interestRate The APR as a percentage, e.g. 5.5
+ * @param termMonths The number of monthly payments
+ */
+export function calculateMonthlyPayment(
+  principal: number,
+  interestRate: number,
+  termMonths: number,
+) {
+  if (principal <= 0 || termMonths <= 0) return 0;
+
+  const monthlyRate = interestRate / 100 / 12;
+  if (monthlyRate === 0) return roundPaymentUp(principal / termMonths);
+
+  const payment =
+    (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths));
+  return roundPaymentUp(payment);
+}
+
+/**
+ * Get the date of the nth payment after a start date
+ * @param startDate The date the projection starts from
+ * @param period The payment number, starting at 1
+ * @param paymentDay The day of the month payments are due, clamped to month length
+ */
+export function getPaymentDate(
+  startDate: Date,
+  period: number,
+  paymentDay?: number | null,
+) {
+  const year = startDate.getFullYear();
+  const month = startDate.getMonth() + period;
+  const day = paymentDay || startDate.getDate();
+  const lastDay = new Date(year, month + 1, 0).getDate();
+
+  return new Date(year, month, Math.min(day, lastDay));
+}
+
+/**
+ * Project a loan's payments until it is paid off
+ * @param input The balance, APR, monthly payment and schedule options
+ * @returns Every payment plus the payoff date and total interest
+ */
+export function buildAmortizationSchedule({
+  balance,
+  interestRate,
+  monthlyPayment,
+  startDate = new Date(),
+  paymentDay,
+  maxMonths = DEFAULT_MAX_MONTHS,
+}: AmortizationInput): AmortizationSchedule {
+  const monthlyRate = Math.max(interestRate, 0) / 100 / 12;
+  const rows: AmortizationRow[] = [];
+  let remaining = roundCurrency(Math.max(balance, 0));
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  // A payment that doesn't cover the first month's interest never pays off
+  const paysDown = monthlyPayment > remaining * monthlyRate;
+
+  while (remaining > 0 && paysDown && rows.length < maxMonths) {
+    const interest = roundCurrency(remaining * monthlyRate);
+    const payoffAmount = roundCurrency(remaining + interest);
+    // Fold a rounding residual into the last payment instead of adding a month
+    const payment =
+      payoffAmount - monthlyPayment < ROUNDING_RESIDUAL
+        ? payoffAmount
+        : monthlyPayment;
+    const principal = roundCurrency(payment - interest);
+
+    remaining = roundCurrency(remaining - principal);
+    totalInterest += interest;
+    totalPaid += payment;
+
+    rows.push({
+      period: rows.length + 1,
+      date: toSnapshotDate(
+        getPaymentDate(startDate, rows.length + 1, paymentDay),
+      ),
+      payment: roundCurrency(payment),
+      interest,
+      principal,
+      balance: remaining,
+    });
+  }
+
+  const paysOff = remaining <= 0;
+
+  return {
+    rows,
+    monthlyPayment: roundCurrency(monthlyPayment),
+    months: rows.length,
+    payoffDate: paysOff
+      ? rows.length > 0
+        ? rows[rows.length - 1].date
+        : toSnapshotDate(startDate)
+      : null,
+    totalInterest: roundCurrency(totalInterest),
+    totalPaid: roundCurrency(totalPaid),
+    paysOff,
+  };
+}
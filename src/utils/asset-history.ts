@@ -0,0 +1,66 @@
+/**
+ * Functions for reading the per-asset value history
+ *
+ * Rows are appended by the assets_value_inserted/assets_value_updated
+ * triggers, so writers only need to set assets.value_source alongside value.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type AssetValueSource =
+  | "manual"
+  | "snaptrade"
+  | "metal_price"
+  | "car_valuation"
+  | "market_data"
+  | "property_valuation"
+  | "wallet_sync"
+  | "exchange_sync";
+
+export interface AssetHistoryPoint {
+  recordedAt: string;
+  value: number;
+  source: string | null;
+}
+
+/**
+ * Fetch recent history for a set of assets, grouped by asset ID
+ * @param supabase A Supabase client with the user's session
+ * @param assetIds The assets to fetch history for
+ * @param days How many days of history to include
+ */
+export async function fetchAssetHistory(
+  supabase: SupabaseClient,
+  assetIds: string[],
+  days: number = 90,
+): Promise<Record<string, AssetHistoryPoint[]>> {
+  if (assetIds.length === 0) return {};
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const { data, error } = await supabase
+    .from("asset_history")
+    .select("asset_id, value, recorded_at, source")
+    .in("asset_id", assetIds)
+    .gte("recorded_at", since.toISOString())
+    .order("recorded_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching asset history:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const historyByAsset: Record<string, AssetHistoryPoint[]> = {};
+  for (const row of data || []) {
+    if (!historyByAsset[row.asset_id]) {
+      historyByAsset[row.asset_id] = [];
+    }
+    historyByAsset[row.asset_id].push({
+      recordedAt: row.recorded_at,
+      value: Number(row.value),
+      source: row.source,
+    });
+  }
+
+  return historyByAsset;
+}
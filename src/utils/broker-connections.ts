@@ -0,0 +1,254 @@
+/**
+ * Broker connections as the user manages them
+ *
+ * A connection is either the user's SnapTrade registration, whose imported
+ * assets carry metadata.source "snaptrade", or a crypto exchange API key,
+ * whose imported assets carry its metadata.connection_id. Disconnecting
+ * revokes SnapTrade's brokerage access or deletes the stored exchange key,
+ * then either purges the imported assets or keeps them as manual ones.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { EXCHANGE_BROKER_IDS } from "./exchange-sync";
+import { convertAmount, getAssetCurrency, type FxRates } from "./fx";
+import { revokeSnapTradeUser } from "./snaptrade";
+
+// What happens to a connection's imported assets when it is disconnected
+export type ImportedAssetsMode = "purge" | "keep";
+
+export interface BrokerConnectionSummary {
+  id: string;
+  brokerId: string;
+  name: string;
+  kind: "snaptrade" | "exchange";
+  isActive: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  // Every imported asset, including closed positions
+  assetCount: number;
+  // The value of the open imported assets in the base currency
+  openValue: number;
+}
+
+export interface DisconnectSummary {
+  purged: number;
+  kept: number;
+}
+
+/**
+ * Check whether a string is a valid ImportedAssetsMode
+ * @param value The value to check, e.g. a request field
+ */
+export function isImportedAssetsMode(
+  value: string,
+): value is ImportedAssetsMode {
+  return value === "purge" || value === "keep";
+}
+
+/**
+ * Load the assets imported through a connection
+ * @param supabase A Supabase client with the user's session
+ * @param connection The broker_connections row
+ */
+async function fetchImportedAssets(supabase: SupabaseClient, connection: any) {
+  let query = supabase
+    .from("assets")
+    .select("id, value, currency, metadata")
+    .eq("user_id", connection.user_id);
+
+  query =
+    connection.broker_id === "snaptrade"
+      ? query.eq("metadata->>source", "snaptrade")
+      : query.eq("metadata->>connection_id", connection.id);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error loading imported assets:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * List the user's broker connections with the assets they imported
+ * @param supabase A Supabase client with the user's session
+ * @param userId The signed-in user
+ * @param baseCurrency The currency to total imported values in
+ * @param rates Rates per US dollar
+ */
+export async function fetchBrokerConnections(
+  supabase: SupabaseClient,
+  userId: string,
+  baseCurrency: string,
+  rates: FxRates,
+): Promise<BrokerConnectionSummary[]> {
+  const { data, error } = await supabase
+    .from("broker_connections")
+    .select("id, user_id, broker_id, broker_data, is_active")
+    .eq("user_id", userId)
+    .in("broker_id", ["snaptrade", ...EXCHANGE_BROKER_IDS])
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error loading broker connections:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return Promise.all(
+    (data || []).map(async (connection) => {
+      const brokerData = connection.broker_data || {};
+      const assets = await fetchImportedAssets(supabase, connection);
+      const openValue = assets
+        .filter((asset) => asset.metadata?.position_status !== "closed")
+        .reduce(
+          (sum, asset) =>
+            sum +
+            convertAmount(
+              Number(asset.value) || 0,
+              getAssetCurrency(asset),
+              baseCurrency,
+              rates,
+            ),
+          0,
+        );
+
+      return {
+        id: connection.id,
+        brokerId: connection.broker_id,
+        name:
+          connection.broker_id === "snaptrade"
+            ? "SnapTrade"
+            : brokerData.exchange || connection.broker_id,
+        kind:
+          connection.broker_id === "snaptrade"
+            ? ("snaptrade" as const)
+            : ("exchange" as const),
+        isActive: !!connection.is_active,
+        lastSyncedAt: brokerData.last_synced_at || null,
+        lastError: brokerData.last_error || null,
+        assetCount: assets.length,
+        openValue,
+      };
+    }),
+  );
+}
+
+/**
+ * Disconnect a broker and deal with the assets it imported
+ * @param supabase A Supabase client with the user's session
+ * @param userId The signed-in user, who must own the connection
+ * @param connectionId The connection to remove
+ * @param mode Purge the imported assets, or keep the held ones as manual
+ * assets
+ * @returns How many assets were purged or kept
+ */
+export async function disconnectBrokerConnection(
+  supabase: SupabaseClient,
+  userId: string,
+  connectionId: string,
+  mode: ImportedAssetsMode,
+): Promise<DisconnectSummary> {
+  const { data: connection, error } = await supabase
+    .from("broker_connections")
+    .select("id, user_id, broker_id")
+    .eq("id", connectionId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading broker connection:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+  if (!connection) {
+    throw new Error("Connection not found");
+  }
+
+  // Revoke access first, so a failure leaves the connection in place to
+  // retry rather than an orphaned authorization at SnapTrade
+  if (connection.broker_id === "snaptrade") {
+    await revokeSnapTradeUser(userId, supabase);
+  }
+
+  const assets = await fetchImportedAssets(supabase, connection);
+  const summary: DisconnectSummary = { purged: 0, kept: 0 };
+
+  // Closed positions and empty balances mean nothing as manual assets, so
+  // only the ones still holding a value or quantity are kept
+  const isHeld = (asset: any) =>
+    (Number(asset.value) || 0) !== 0 ||
+    (Number(asset.metadata?.quantity) || 0) !== 0;
+  const keptAssets = mode === "keep" ? assets.filter(isHeld) : [];
+  const purgedAssets =
+    mode === "keep" ? assets.filter((asset) => !isHeld(asset)) : assets;
+
+  if (purgedAssets.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("assets")
+      .delete()
+      .in(
+        "id",
+        purgedAssets.map((asset) => asset.id),
+      );
+
+    if (deleteError) {
+      console.error("Error purging imported assets:", deleteError);
+      throw new Error(`Database error: ${deleteError.message}`);
+    }
+    summary.purged = purgedAssets.length;
+  }
+
+  // Imported activities go with the assets; manual transactions stay
+  if (mode === "purge" && connection.broker_id === "snaptrade") {
+    const { error: transactionsError } = await supabase
+      .from("transactions")
+      .delete()
+      .eq("user_id", userId)
+      .eq("source", "snaptrade");
+
+    if (transactionsError) {
+      console.error("Error purging imported transactions:", transactionsError);
+      throw new Error(`Database error: ${transactionsError.message}`);
+    }
+  }
+
+  if (mode === "keep") {
+    // Without a source or connection no sync claims them again, and open
+    // holdings are revalued at market like manually added ones
+    for (const asset of keptAssets) {
+      const { source, connection_id, ...metadata } = asset.metadata || {};
+
+      const { error: updateError } = await supabase
+        .from("assets")
+        .update({
+          value_source: "manual",
+          metadata: {
+            ...metadata,
+            imported_from: connection.broker_id,
+            disconnected_at: new Date().toISOString(),
+          },
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", asset.id);
+
+      if (updateError) {
+        console.error(`Error keeping asset ${asset.id}:`, updateError);
+        throw new Error(`Database error: ${updateError.message}`);
+      }
+      summary.kept++;
+    }
+  }
+
+  // Deleting the row also deletes the stored exchange key or SnapTrade secret
+  const { error: deleteConnectionError } = await supabase
+    .from("broker_connections")
+    .delete()
+    .eq("id", connection.id);
+
+  if (deleteConnectionError) {
+    console.error("Error deleting broker connection:", deleteConnectionError);
+    throw new Error(`Database error: ${deleteConnectionError.message}`);
+  }
+
+  return summary;
+}
@@ -1,11 +1,34 @@
-// MarketCheck API integration for vehicle pricing
+// Vehicle valuation lookups from the client
+import type {
+  VehicleCondition,
+  VehicleRegion,
+  VehicleValuation,
+} from "./vehicle-valuation";
 
-export async function fetchCarPrice(make: string, model: string, year: string) {
+export interface CarPriceOptions {
+  trim?: string;
+  mileage?: number;
+  condition?: VehicleCondition;
+  region?: VehicleRegion;
+}
+
+export async function fetchCarPrice(
+  make: string,
+  model: string,
+  year: string,
+  options: CarPriceOptions = {},
+): Promise<VehicleValuation> {
   try {
-    // Call our server-side API route to avoid exposing API key in client
-    const response = await fetch(
-      `/api/car-prices?make=${encodeURIComponent(make)}&model=${encodeURIComponent(model)}&year=${encodeURIComponent(year)}`,
-    );
+    const params = new URLSearchParams({ make, model, year });
+    if (options.trim) params.set("trim", options.trim);
+    if (options.mileage !== undefined) {
+      params.set("mileage", String(options.mileage));
+    }
+    if (options.condition) params.set("condition", options.condition);
+    if (options.region) params.set("region", options.region);
+
+    // Call our server-side API route, which holds any provider keys
+    const response = await fetch(`/api/car-prices?${params.toString()}`);
 
     if (!response.ok) {
       throw new Error(`API request failed with status ${response.status}`);
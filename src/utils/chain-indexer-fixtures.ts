@@ -0,0 +1,139 @@
+/**
+ * Offline chain indexer for development
+ *
+ * Balances are generated deterministically from the address, so the same
+ * wallet always syncs to the same holdings without touching the network.
+ */
+import {
+  getWalletChain,
+  type ChainIndexer,
+  type WalletBalance,
+  type WalletChain,
+} from "./chain-indexer";
+
+interface FixtureToken {
+  symbol: string;
+  name: string;
+  contractAddress: string;
+  // The largest generated balance
+  maxQuantity: number;
+}
+
+const FIXTURE_TOKENS: Record<WalletChain, FixtureToken[]> = {
+  bitcoin: [],
+  ethereum: [
+    {
+      symbol: "USDC",
+      name: "USD Coin",
+      contractAddress: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+      maxQuantity: 5000,
+    },
+    {
+      symbol: "LINK",
+      name: "Chainlink",
+      contractAddress: "0x514910771af9ca656af840dff83e8264ecf986ca",
+      maxQuantity: 250,
+    },
+  ],
+  polygon: [
+    {
+      symbol: "USDC",
+      name: "USD Coin",
+      contractAddress: "0x3c499c542cef5e3811e1192ce70d8cc03d5c3359",
+      maxQuantity: 2000,
+    },
+  ],
+  arbitrum: [
+    {
+      symbol: "USDC",
+      name: "USD Coin",
+      contractAddress: "0xaf88d065e77c8cc2239327c5edb3a432268e5831",
+      maxQuantity: 2000,
+    },
+  ],
+  optimism: [
+    {
+      symbol: "USDC",
+      name: "USD Coin",
+      contractAddress: "0x0b2c639c533813f4aa9d7837caf62653d097ff85",
+      maxQuantity: 2000,
+    },
+  ],
+  base: [
+    {
+      symbol: "USDC",
+      name: "USD Coin",
+      contractAddress: "0x833589fcd6edb6e08f4c7c32d4c962e2950da913",
+      maxQuantity: 2000,
+    },
+  ],
+};
+
+// The largest generated native balance per chain
+const MAX_NATIVE_QUANTITY: Record<WalletChain, number> = {
+  bitcoin: 2,
+  ethereum: 10,
+  polygon: 5000,
+  arbitrum: 3,
+  optimism: 3,
+  base: 3,
+};
+
+/**
+ * Generate a stable fraction between 0 and 1 for an address and a salt
+ */
+function getFraction(address: string, salt: string) {
+  const hash = Array.from(`${salt}:${address}`).reduce(
+    (seed, char) => (seed * 31 + char.charCodeAt(0)) % 1000003,
+    17,
+  );
+  return hash / 1000003;
+}
+
+/**
+ * Round a generated quantity the way balances are usually shown
+ */
+function roundQuantity(quantity: number) {
+  return Math.round(quantity * 1e6) / 1e6;
+}
+
+/**
+ * Create the offline indexer
+ */
+export function createFixtureIndexer(): ChainIndexer {
+  return {
+    name: "fixture",
+
+    async getBalances(
+      chain: WalletChain,
+      address: string,
+    ): Promise<WalletBalance[]> {
+      const settings = getWalletChain(chain);
+      const balances: WalletBalance[] = [
+        {
+          symbol: settings.nativeSymbol,
+          name: settings.nativeName,
+          contractAddress: null,
+          quantity: roundQuantity(
+            getFraction(address, chain) * MAX_NATIVE_QUANTITY[chain],
+          ),
+        },
+      ];
+
+      // Roughly half of the fixture tokens are held by any given address
+      for (const token of FIXTURE_TOKENS[chain]) {
+        const fraction = getFraction(address, token.contractAddress);
+        if (fraction < 0.5) continue;
+
+        balances.push({
+          symbol: token.symbol,
+          name: token.name,
+          contractAddress: token.contractAddress,
+          quantity: roundQuantity((fraction - 0.5) * 2 * token.maxQuantity),
+        });
+      }
+
+      return balances.filter((balance) => balance.quantity > 0);
+    },
+  };
+}
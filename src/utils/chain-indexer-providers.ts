@@ -0,0 +1,195 @@
+/**
+ * Live chain indexer adapters
+ *
+ * - Esplora for Bitcoin (ESPLORA_BASE_URL, mempool.space by default)
+ * - Alchemy for Ethereum and EVM chains (ALCHEMY_API_KEY)
+ */
+import {
+  getWalletChain,
+  type ChainIndexer,
+  type WalletBalance,
+  type WalletChain,
+} from "./chain-indexer";
+
+const DEFAULT_ESPLORA_BASE_URL = "https://mempool.space/api";
+
+// Alchemy's network name for each EVM chain
+const ALCHEMY_NETWORKS: Partial<Record<WalletChain, string>> = {
+  ethereum: "eth-mainnet",
+  polygon: "polygon-mainnet",
+  arbitrum: "arb-mainnet",
+  optimism: "opt-mainnet",
+  base: "base-mainnet",
+};
+
+const SATOSHIS_PER_BITCOIN = 1e8;
+const WEI_PER_ETHER = 1e18;
+
+/**
+ * Fetch JSON from an indexer API
+ * @param url The request URL
+ * @param init Extra request options, e.g. a JSON-RPC body
+ */
+async function fetchJson(url: string, init: RequestInit = {}) {
+  const response = await fetch(url, {
+    method: "GET",
+    ...init,
+    headers: { Accept: "application/json", ...init.headers },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Create the Esplora Bitcoin indexer
+ */
+export function createEsploraIndexer(): ChainIndexer {
+  const baseUrl = (
+    process.env.ESPLORA_BASE_URL || DEFAULT_ESPLORA_BASE_URL
+  ).replace(/\/$/, "");
+
+  return {
+    name: "esplora",
+
+    async getBalances(
+      chain: WalletChain,
+      address: string,
+    ): Promise<WalletBalance[]> {
+      if (chain !== "bitcoin") {
+        throw new Error(`Esplora does not index ${chain}`);
+      }
+
+      const data = await fetchJson(
+        `${baseUrl}/address/${encodeURIComponent(address)}`,
+      );
+      // Only confirmed transactions count towards the balance
+      const stats = data.chain_stats || {};
+      const satoshis =
+        (Number(stats.funded_txo_sum) || 0) -
+        (Number(stats.spent_txo_sum) || 0);
+
+      if (satoshis <= 0) return [];
+
+      return [
+        {
+          symbol: "BTC",
+          name: "Bitcoin",
+          contractAddress: null,
+          quantity: satoshis / SATOSHIS_PER_BITCOIN,
+        },
+      ];
+    },
+  };
+}
+
+/**
+ * Create the Alchemy EVM indexer
+ */
+export function createAlchemyIndexer(): ChainIndexer {
+  const apiKey = process.env.ALCHEMY_API_KEY;
+  if (!apiKey) {
+    throw new Error("ALCHEMY_API_KEY is not configured");
+  }
+
+  // Token symbols and decimals never change, so they are fetched once
+  const tokenMetadata = new Map<
+    string,
+    Promise<{ symbol: string; name: string; decimals: number } | null>
+  >();
+
+  const rpc = async (chain: WalletChain, method: string, params: any[]) => {
+    const network = ALCHEMY_NETWORKS[chain];
+    if (!network) {
+      throw new Error(`Alchemy does not index ${chain}`);
+    }
+
+    const data = await fetchJson(
+      `https://${network}.g.alchemy.com/v2/${apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+      },
+    );
+
+    if (data.error) {
+      throw new Error(`Alchemy error: ${data.error.message}`);
+    }
+
+    return data.result;
+  };
+
+  const getTokenMetadata = (chain: WalletChain, contractAddress: string) => {
+    const key = `${chain}:${contractAddress}`;
+    if (!tokenMetadata.has(key)) {
+      tokenMetadata.set(
+        key,
+        rpc(chain, "alchemy_getTokenMetadata", [contractAddress])
+          .then((result) =>
+            result?.symbol && typeof result.decimals === "number"
+              ? {
+                  symbol: String(result.symbol).toUpperCase(),
+                  name: result.name || result.symbol,
+                  decimals: result.decimals,
+                }
+              : null,
+          )
+          .catch((error) => {
+            // Let the next sync retry instead of caching the failure
+            tokenMetadata.delete(key);
+            throw error;
+          }),
+      );
+    }
+    return tokenMetadata.get(key)!;
+  };
+
+  return {
+    name: "alchemy",
+
+    async getBalances(
+      chain: WalletChain,
+      address: string,
+    ): Promise<WalletBalance[]> {
+      const settings = getWalletChain(chain);
+      const [nativeBalance, tokens] = await Promise.all([
+        rpc(chain, "eth_getBalance", [address, "latest"]),
+        rpc(chain, "alchemy_getTokenBalances", [address, "erc20"]),
+      ]);
+
+      const balances: WalletBalance[] = [
+        {
+          symbol: settings.nativeSymbol,
+          name: settings.nativeName,
+          contractAddress: null,
+          quantity: parseInt(nativeBalance, 16) / WEI_PER_ETHER,
+        },
+      ];
+
+      for (const token of tokens?.tokenBalances || []) {
+        const rawBalance = parseInt(token.tokenBalance, 16);
+        if (!rawBalance) continue;
+
+        const metadata = await getTokenMetadata(
+          chain,
+          token.contractAddress.toLowerCase(),
+        );
+        if (!metadata) continue;
+
+        balances.push({
+          symbol: metadata.symbol,
+          name: metadata.name,
+          contractAddress: token.contractAddress.toLowerCase(),
+          quantity: rawBalance / 10 ** metadata.decimals,
+        });
+      }
+
+      return balances.filter((balance) => balance.quantity > 0);
+    },
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * On-chain balances of watch-only crypto wallets
+ *
+ * Balances are read through a ChainIndexer, chosen per chain family from the
+ * environment:
+ * - CHAIN_INDEXER_BITCOIN_PROVIDER: "fixture" or "esplora"
+ * - CHAIN_INDEXER_EVM_PROVIDER: "fixture" or "alchemy"
+ *
+ * The fixture indexer serves generated offline balances for development and
+ * tests, and is the default only there. Elsewhere an unset provider is
+ * an error, so a real address never gets made-up holdings. The Esplora
+ * adapter reads ESPLORA_BASE_URL (mempool.space by default) and the
+ * Alchemy adapter reads ALCHEMY_API_KEY, which never leaves the server.
+ */
+import { createFixtureIndexer } from "./chain-indexer-fixtures";
+import {
+  createAlchemyIndexer,
+  createEsploraIndexer,
+} from "./chain-indexer-providers";
+
+export type ChainFamily = "bitcoin" | "evm";
+
+export const WALLET_CHAINS = [
+  {
+    value: "bitcoin",
+    label: "Bitcoin",
+    family: "bitcoin",
+    nativeSymbol: "BTC",
+    nativeName: "Bitcoin",
+  },
+  {
+    value: "ethereum",
+    label: "Ethereum",
+    family: "evm",
+    nativeSymbol: "ETH",
+    nativeName: "Ethereum",
+  },
+  {
+    value: "polygon",
+    label: "Polygon",
+    family: "evm",
+    nativeSymbol: "MATIC",
+    nativeName: "Polygon",
+  },
+  {
+    value: "arbitrum",
+    label: "Arbitrum",
+    family: "evm",
+    nativeSymbol: "ETH",
+    nativeName: "Ethereum",
+  },
+  {
+    value: "optimism",
+    label: "Optimism",
+    family: "evm",
+    nativeSymbol: "ETH",
+    nativeName: "Ethereum",
+  },
+  {
+    value: "base",
+    label: "Base",
+    family: "evm",
+    nativeSymbol: "ETH",
+    nativeName: "Ethereum",
+  },
+] as const;
+
+export type WalletChain = (typeof WALLET_CHAINS)[number]["value"];
+
+export interface WalletBalance {
+  symbol: string;
+  name: string;
+  // The token contract, or null for the chain's native coin
+  contractAddress: string | null;
+  quantity: number;
+}
+
+export interface ChainIndexer {
+  name: string;
+  /**
+   * Fetch the non-zero balances held by an address, native coin first
+   */
+  getBalances(chain: WalletChain, address: string): Promise<WalletBalance[]>;
+}
+
+const BITCOIN_ADDRESS_PATTERNS = [
+  // Legacy and script addresses
+  /^[13][a-km-zA-HJ-NP-Z1-9]{25,34}$/,
+  // SegWit and Taproot addresses
+  /^bc1[ac-hj-np-z02-9]{11,71}$/,
+];
+const EVM_ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/;
+
+/**
+ * Check whether a string names a supported chain
+ * @param value The value to check, e.g. a request field
+ */
+export function isWalletChain(value: string): value is WalletChain {
+  return WALLET_CHAINS.some((chain) => chain.value === value);
+}
+
+/**
+ * Get the settings of a chain
+ * @param chain The chain
+ */
+export function getWalletChain(chain: WalletChain) {
+  return WALLET_CHAINS.find((candidate) => candidate.value === chain)!;
+}
+
+/**
+ * Normalize a public address so the same wallet is always stored the same
+ * way: EVM and bech32 addresses are case-insensitive and stored lowercase
+ * @param chain The chain the address belongs to
+ * @param address The address as entered
+ * @returns The normalized address, or null if it is not valid on the chain
+ */
+export function normalizeWalletAddress(chain: WalletChain, address: string) {
+  const trimmed = address.trim();
+
+  if (getWalletChain(chain).family === "evm") {
+    const lower = trimmed.toLowerCase();
+    return EVM_ADDRESS_PATTERN.test(lower) ? lower : null;
+  }
+
+  const candidate = /^bc1/i.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+  return BITCOIN_ADDRESS_PATTERNS.some((pattern) => pattern.test(candidate))
+    ? candidate
+    : null;
+}
+
+// Indexers are created once per server instance so their caches persist
+const indexers = new Map<ChainFamily, ChainIndexer>();
+
+/**
+ * Get the configured indexer for a chain
+ * @param chain The chain to read balances from
+ */
+export function getChainIndexer(chain: WalletChain): ChainIndexer {
+  const family = getWalletChain(chain).family;
+  let indexer = indexers.get(family);
+  if (!indexer) {
+    indexer = createChainIndexer(family);
+    indexers.set(family, indexer);
+  }
+  return indexer;
+}
+
+function createChainIndexer(family: ChainFamily): ChainIndexer {
+  const variable =
+    family === "bitcoin"
+      ? "CHAIN_INDEXER_BITCOIN_PROVIDER"
+      : "CHAIN_INDEXER_EVM_PROVIDER";
+  const configured =
+    process.env[variable] ||
+    (process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test"
+      ? "fixture"
+      : undefined);
+
+  if (!configured) {
+    throw new Error(
+      `Chain indexer is not configured for ${family}: set ${variable}`,
+    );
+  }
+
+  switch (configured) {
+    case "fixture":
+      return createFixtureIndexer();
+    case "esplora":
+      if (family === "bitcoin") return createEsploraIndexer();
+      break;
+    case "alchemy":
+      if (family === "evm") return createAlchemyIndexer();
+      break;
+  }
+
+  throw new Error(`Unsupported chain indexer for ${family}: ${configured}`);
+}
@@ -0,0 +1,113 @@
+/**
+ * Broker credentials at rest, for the Next.js server
+ *
+ * Wraps the envelope encryption shared with the edge functions
+ * (supabase/functions/_shared/credentials.ts) with the master keys from
+ * CREDENTIAL_MASTER_KEYS, and rotates stored rows to the current key.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  decryptCredential,
+  encryptCredential,
+  isHashedLegacySecret,
+  parseMasterKeys,
+  rotateCredential,
+  type CredentialColumns,
+} from "../../supabase/functions/_shared/credentials";
+
+export type { CredentialColumns };
+
+export interface CredentialRotationSummary {
+  // Data keys re-wrapped with the current master key
+  rewrapped: number;
+  // Legacy plaintext secrets encrypted for the first time
+  encrypted: number;
+  unchanged: number;
+  // Legacy exchange secrets stored as hashes; the account must be reconnected
+  unreadable: number;
+  failed: number;
+}
+
+function getMasterKeys() {
+  return parseMasterKeys(process.env.CREDENTIAL_MASTER_KEYS);
+}
+
+/**
+ * Encrypt a secret for storage in broker_connections
+ * @param secret The plaintext secret, e.g. a SnapTrade userSecret
+ * @returns The credential columns to write
+ */
+export function encryptBrokerSecret(secret: string) {
+  return encryptCredential(secret, getMasterKeys());
+}
+
+/**
+ * Decrypt the secret stored in a broker_connections row
+ * @param row The row, including its credential columns
+ */
+export function decryptBrokerSecret(row: CredentialColumns) {
+  return decryptCredential(row, getMasterKeys());
+}
+
+/**
+ * Re-wrap every stored data key with the current master key and encrypt
+ * any secrets still stored in plaintext. Run after adding a new master key
+ * version; the old version can be removed once nothing fails.
+ * @param supabase A service-role Supabase client
+ */
+export async function rotateBrokerCredentials(
+  supabase: SupabaseClient,
+): Promise<CredentialRotationSummary> {
+  const masterKeys = getMasterKeys();
+  const { data, error } = await supabase
+    .from("broker_connections")
+    .select(
+      "id, broker_id, api_secret_encrypted, api_secret_data_key, api_secret_key_version",
+    );
+
+  if (error) {
+    console.error("Error loading broker connections:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const summary: CredentialRotationSummary = {
+    rewrapped: 0,
+    encrypted: 0,
+    unchanged: 0,
+    unreadable: 0,
+    failed: 0,
+  };
+
+  for (const row of data || []) {
+    if (isHashedLegacySecret(row)) {
+      summary.unreadable++;
+      continue;
+    }
+
+    try {
+      const columns = await rotateCredential(row, masterKeys);
+      if (!columns) {
+        summary.unchanged++;
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from("broker_connections")
+        .update({ ...columns, updated_at: new Date().toISOString() })
+        .eq("id", row.id);
+
+      if (updateError) throw new Error(updateError.message);
+
+      if (row.api_secret_key_version == null) {
+        summary.encrypted++;
+      } else {
+        summary.rewrapped++;
+      }
+    } catch (rotateError) {
+      console.error(`Error rotating credentials of ${row.id}:`, rotateError);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
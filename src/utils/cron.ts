@@ -0,0 +1,18 @@
+// Helpers for routes that are triggered by a scheduler (Vercel Cron, GitHub
+// Actions, pg_net, ...) rather than by a signed-in user
+
+/**
+ * Check that a request carries the shared cron secret
+ * @param request The incoming request
+ * @returns Boolean indicating if the request may run the job
+ */
+export function isAuthorizedCronRequest(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error("CRON_SECRET is not configured");
+    return false;
+  }
+
+  return request.headers.get("authorization") === `Bearer ${cronSecret}`;
+}
@@ -0,0 +1,324 @@
+/**
+ * Watch-only crypto wallets and their sync into the assets table
+ *
+ * Every balance found at a wallet's public address becomes a cryptocurrency
+ * asset identified by (metadata.wallet_id, metadata.contract_address), priced
+ * at the latest quote from the crypto market data provider. Balances that are
+ * gone from the chain are closed at zero rather than deleted, so their
+ * history is kept.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getChainIndexer,
+  type WalletBalance,
+  type WalletChain,
+} from "./chain-indexer";
+import { getMarketDataProvider, type MarketQuote } from "./market-data";
+
+export interface CryptoWallet {
+  id: string;
+  userId: string;
+  chain: WalletChain;
+  address: string;
+  label: string;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+export interface WalletSyncSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  // Balances without a market price, e.g. unlisted or spam tokens
+  unpriced: number;
+}
+
+export interface WalletSyncRunSummary {
+  synced: number;
+  failed: number;
+}
+
+// Quotes shared by the wallets of one run, keyed by symbol
+type QuoteCache = Map<string, Promise<MarketQuote | null>>;
+
+/**
+ * Map a crypto_wallets row to CryptoWallet
+ * @param row The row returned by Supabase
+ */
+export function toCryptoWallet(row: any): CryptoWallet {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    chain: row.chain,
+    address: row.address,
+    label: row.label,
+    lastSyncedAt: row.last_synced_at ?? null,
+    lastError: row.last_error ?? null,
+  };
+}
+
+/**
+ * Build the key that identifies a balance within a wallet's assets
+ * @param contractAddress The token contract, or null for the native coin
+ */
+function getBalanceKey(contractAddress?: string | null) {
+  return contractAddress || "native";
+}
+
+/**
+ * Build the assets row written for a balance
+ * @param wallet The wallet holding the balance
+ * @param balance The on-chain balance
+ * @param quote The balance's latest market quote
+ * @param existingMetadata Metadata of the row being updated, if any
+ */
+function toAssetValues(
+  wallet: CryptoWallet,
+  balance: WalletBalance,
+  quote: MarketQuote,
+  existingMetadata: Record<string, any> = {},
+) {
+  return {
+    name: balance.name,
+    value: Math.round(balance.quantity * quote.price * 100) / 100,
+    currency: quote.currency,
+    description: `${balance.quantity} ${balance.symbol}`,
+    location: wallet.label,
+    is_liability: false,
+    value_source: "wallet_sync",
+    metadata: {
+      ...existingMetadata,
+      symbol: balance.symbol,
+      price_per_unit: quote.price,
+      quantity: balance.quantity,
+      currency: quote.currency,
+      asset_type: "cryptocurrency",
+      source: "wallet",
+      wallet_id: wallet.id,
+      chain: wallet.chain,
+      address: wallet.address,
+      contract_address: balance.contractAddress,
+      price_provider: quote.provider,
+      position_status: "open",
+      closed_at: null,
+      last_synced_at: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Read a wallet's balances and reconcile them with its assets
+ * @param supabase A Supabase client allowed to write the wallet owner's assets
+ * @param wallet The wallet to sync
+ * @param quotes Quotes already fetched during this run
+ * @returns Counts of added, updated, closed, unchanged and unpriced balances
+ */
+export async function syncCryptoWallet(
+  supabase: SupabaseClient,
+  wallet: CryptoWallet,
+  quotes: QuoteCache = new Map(),
+): Promise<WalletSyncSummary> {
+  try {
+    const summary = await reconcileWallet(supabase, wallet, quotes);
+
+    await supabase
+      .from("crypto_wallets")
+      .update({
+        last_synced_at: new Date().toISOString(),
+        last_error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", wallet.id);
+
+    return summary;
+  } catch (error) {
+    await supabase
+      .from("crypto_wallets")
+      .update({
+        last_error: error instanceof Error ? error.message : "Unknown error",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", wallet.id);
+
+    throw error;
+  }
+}
+
+async function reconcileWallet(
+  supabase: SupabaseClient,
+  wallet: CryptoWallet,
+  quotes: QuoteCache,
+): Promise<WalletSyncSummary> {
+  const balances = await getChainIndexer(wallet.chain).getBalances(
+    wallet.chain,
+    wallet.address,
+  );
+
+  const summary: WalletSyncSummary = {
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    unpriced: 0,
+  };
+
+  const { data: categoryData, error: categoryError } = await supabase
+    .from("asset_categories")
+    .select("id")
+    .eq("slug", "cryptocurrency")
+    .single();
+
+  if (categoryError || !categoryData) {
+    console.error("Error getting cryptocurrency category:", categoryError);
+    throw new Error(
+      `Category error: ${categoryError?.message || "Category not found"}`,
+    );
+  }
+
+  // Load every asset previously synced from this wallet
+  const { data: existingAssets, error: existingError } = await supabase
+    .from("assets")
+    .select("id, value, metadata")
+    .eq("user_id", wallet.userId)
+    .eq("metadata->>wallet_id", wallet.id);
+
+  if (existingError) {
+    console.error("Error loading wallet assets:", existingError);
+    throw new Error(`Database error: ${existingError.message}`);
+  }
+
+  const assetsByKey = new Map<string, any>();
+  for (const asset of existingAssets || []) {
+    assetsByKey.set(getBalanceKey(asset.metadata?.contract_address), asset);
+  }
+
+  const provider = getMarketDataProvider("crypto");
+  const seenKeys = new Set<string>();
+
+  for (const balance of balances) {
+    // Still held, so never closed even when it cannot be priced this run
+    const key = getBalanceKey(balance.contractAddress);
+    seenKeys.add(key);
+
+    if (!quotes.has(balance.symbol)) {
+      quotes.set(
+        balance.symbol,
+        provider.getQuote(balance.symbol).catch((quoteError) => {
+          console.error(`Error quoting ${balance.symbol}:`, quoteError);
+          return null;
+        }),
+      );
+    }
+
+    const quote = await quotes.get(balance.symbol);
+    if (!quote) {
+      summary.unpriced++;
+      continue;
+    }
+
+    const values = toAssetValues(wallet, balance, quote);
+    const existing = assetsByKey.get(key);
+
+    if (!existing) {
+      const { error: insertError } = await supabase.from("assets").insert({
+        ...values,
+        acquisition_date: new Date().toISOString(),
+        acquisition_value: values.value,
+        category_id: categoryData.id,
+        user_id: wallet.userId,
+      });
+
+      if (insertError) {
+        console.error(`Error inserting asset ${balance.symbol}:`, insertError);
+      } else {
+        summary.added++;
+      }
+      continue;
+    }
+
+    const metadata = existing.metadata || {};
+    if (
+      Number(existing.value) === values.value &&
+      Number(metadata.quantity) === balance.quantity &&
+      metadata.position_status !== "closed"
+    ) {
+      summary.unchanged++;
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("assets")
+      .update({
+        ...toAssetValues(wallet, balance, quote, metadata),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", existing.id);
+
+    if (updateError) {
+      console.error(`Error updating asset ${balance.symbol}:`, updateError);
+    } else {
+      summary.updated++;
+    }
+  }
+
+  // Balances no longer held at the address have been moved out
+  for (const [key, asset] of Array.from(assetsByKey.entries())) {
+    if (seenKeys.has(key) || asset.metadata?.position_status === "closed") {
+      continue;
+    }
+
+    const { error: closeError } = await supabase
+      .from("assets")
+      .update({
+        value: 0,
+        value_source: "wallet_sync",
+        metadata: {
+          ...asset.metadata,
+          quantity: 0,
+          position_status: "closed",
+          closed_at: new Date().toISOString(),
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", asset.id);
+
+    if (closeError) {
+      console.error(`Error closing asset ${asset.id}:`, closeError);
+    } else {
+      summary.removed++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Sync every registered wallet
+ * @param supabase A Supabase client with the service role
+ */
+export async function syncCryptoWallets(
+  supabase: SupabaseClient,
+): Promise<WalletSyncRunSummary> {
+  const { data, error } = await supabase.from("crypto_wallets").select("*");
+
+  if (error) {
+    console.error("Error fetching crypto wallets:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const summary: WalletSyncRunSummary = { synced: 0, failed: 0 };
+  const quotes: QuoteCache = new Map();
+
+  for (const row of data || []) {
+    try {
+      await syncCryptoWallet(supabase, toCryptoWallet(row), quotes);
+      summary.synced++;
+    } catch (syncError) {
+      console.error(`Error syncing wallet ${row.id}:`, syncError);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
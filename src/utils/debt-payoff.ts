@@ -0,0 +1,263 @@
+/**
+ * Debt payoff strategy simulator
+ *
+ * Every month each debt accrues interest and receives its minimum payment.
+ * The extra budget, plus the minimums freed up by debts already paid off,
+ * goes to the first unpaid debt in the strategy's order.
+ */
+import { getPaymentDate, roundCurrency } from "./amortization";
+import { getMonthlyPayment, type LiabilityDetails } from "./liabilities";
+import { toSnapshotDate } from "./net-worth-history";
+
+export type PayoffStrategy = "avalanche" | "snowball" | "custom";
+
+export const PAYOFF_STRATEGIES: {
+  value: PayoffStrategy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "avalanche",
+    label: "Avalanche",
+    description: "Highest interest rate first, pays the least interest",
+  },
+  {
+    value: "snowball",
+    label: "Snowball",
+    description: "Smallest balance first, clears debts soonest",
+  },
+  {
+    value: "custom",
+    label: "Custom",
+    description: "Your own order",
+  },
+];
+
+export interface PayoffDebt {
+  id: string;
+  name: string;
+  balance: number;
+  interestRate: number;
+  minimumPayment: number;
+}
+
+export interface PayoffMonth {
+  month: number;
+  date: string;
+  payment: number;
+  interest: number;
+  totalBalance: number;
+  balances: Record<string, number>;
+}
+
+export interface PayoffMilestone {
+  id: string;
+  name: string;
+  month: number;
+  date: string;
+}
+
+export interface PayoffResult {
+  strategy: PayoffStrategy;
+  order: string[];
+  months: number;
+  debtFreeDate: string | null;
+  totalInterest: number;
+  totalPaid: number;
+  paysOff: boolean;
+  milestones: PayoffMilestone[];
+  timeline: PayoffMonth[];
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  extraPayment: number;
+  customOrder: string[];
+}
+
+const MAX_MONTHS = 600;
+
+/**
+ * Build simulator inputs from debt rows and their loan terms
+ * @param liabilities Assets with is_liability = true
+ * @param detailsByAsset Liability details keyed by asset ID
+ */
+export function toPayoffDebts(
+  liabilities: any[],
+  detailsByAsset: Record<string, LiabilityDetails>,
+): PayoffDebt[] {
+  return liabilities
+    .filter((liability) => Number(liability.value) > 0)
+    .map((liability) => {
+      const balance = Number(liability.value);
+      const details = detailsByAsset[liability.id];
+
+      return {
+        id: liability.id,
+        name: liability.name,
+        balance,
+        interestRate: details?.interestRate || 0,
+        minimumPayment: details ? getMonthlyPayment(balance, details) : 0,
+      };
+    });
+}
+
+/**
+ * Sort debts into the order extra payments are applied
+ * @param debts The debts to order
+ * @param strategy The payoff strategy
+ * @param customOrder Debt IDs in the user's order, for the custom strategy
+ */
+export function orderDebts(
+  debts: PayoffDebt[],
+  strategy: PayoffStrategy,
+  customOrder: string[] = [],
+) {
+  const sorted = [...debts];
+
+  switch (strategy) {
+    case "avalanche":
+      return sorted.sort(
+        (a, b) => b.interestRate - a.interestRate || a.balance - b.balance,
+      );
+    case "snowball":
+      return sorted.sort(
+        (a, b) => a.balance - b.balance || b.interestRate - a.interestRate,
+      );
+    case "custom": {
+      // Debts missing from the saved order (e.g. added later) go last
+      const rank = (id: string) => {
+        const index = customOrder.indexOf(id);
+        return index === -1 ? customOrder.length : index;
+      };
+      return sorted.sort((a, b) => rank(a.id) - rank(b.id));
+    }
+  }
+}
+
+/**
+ * Simulate paying off every debt with a strategy
+ * @param debts The debts to pay off
+ * @param extraPayment Monthly budget on top of the minimum payments
+ * @param strategy The payoff strategy
+ * @param customOrder Debt IDs in the user's order, for the custom strategy
+ * @param startDate The date the simulation starts from
+ */
+export function simulatePayoff(
+  debts: PayoffDebt[],
+  extraPayment: number,
+  strategy: PayoffStrategy,
+  customOrder: string[] = [],
+  startDate: Date = new Date(),
+): PayoffResult {
+  const ordered = orderDebts(debts, strategy, customOrder);
+  const balances: Record<string, number> = {};
+  ordered.forEach((debt) => (balances[debt.id] = roundCurrency(debt.balance)));
+
+  // Minimums of paid-off debts roll into the budget for the next one
+  const monthlyBudget =
+    ordered.reduce((sum, debt) => sum + debt.minimumPayment, 0) +
+    Math.max(extraPayment, 0);
+
+  const timeline: PayoffMonth[] = [];
+  const milestones: PayoffMilestone[] = [];
+  let totalInterest = 0;
+  let totalPaid = 0;
+
+  const remainingBalance = () =>
+    ordered.reduce((sum, debt) => sum + balances[debt.id], 0);
+
+  while (remainingBalance() > 0 && timeline.length < MAX_MONTHS) {
+    const month = timeline.length + 1;
+    const date = toSnapshotDate(getPaymentDate(startDate, month));
+    let monthInterest = 0;
+    let budget = monthlyBudget;
+
+    // Accrue interest
+    for (const debt of ordered) {
+      if (balances[debt.id] <= 0) continue;
+      const interest = roundCurrency(
+        (balances[debt.id] * debt.interestRate) / 100 / 12,
+      );
+      balances[debt.id] = roundCurrency(balances[debt.id] + interest);
+      monthInterest += interest;
+    }
+
+    // Pay every minimum
+    for (const debt of ordered) {
+      if (balances[debt.id] <= 0) continue;
+      const payment = Math.min(debt.minimumPayment, balances[debt.id], budget);
+      balances[debt.id] = roundCurrency(balances[debt.id] - payment);
+      budget -= payment;
+    }
+
+    // Put whatever is left towards debts in strategy order
+    for (const debt of ordered) {
+      if (budget <= 0) break;
+      if (balances[debt.id] <= 0) continue;
+      const payment = Math.min(budget, balances[debt.id]);
+      balances[debt.id] = roundCurrency(balances[debt.id] - payment);
+      budget -= payment;
+    }
+
+    for (const debt of ordered) {
+      if (
+        balances[debt.id] <= 0 &&
+        !milestones.some((milestone) => milestone.id === debt.id)
+      ) {
+        milestones.push({ id: debt.id, name: debt.name, month, date });
+      }
+    }
+
+    const payment = roundCurrency(monthlyBudget - budget);
+    totalInterest += monthInterest;
+    totalPaid += payment;
+
+    timeline.push({
+      month,
+      date,
+      payment,
+      interest: roundCurrency(monthInterest),
+      totalBalance: roundCurrency(remainingBalance()),
+      balances: { ...balances },
+    });
+
+    // The budget no longer covers the interest, so the debt only grows
+    if (
+      month > 1 &&
+      timeline[month - 1].totalBalance >= timeline[month - 2].totalBalance
+    ) {
+      break;
+    }
+  }
+
+  const paysOff = remainingBalance() <= 0;
+
+  return {
+    strategy,
+    order: ordered.map((debt) => debt.id),
+    months: timeline.length,
+    debtFreeDate: paysOff
+      ? timeline.length > 0
+        ? timeline[timeline.length - 1].date
+        : toSnapshotDate(startDate)
+      : null,
+    totalInterest: roundCurrency(totalInterest),
+    totalPaid: roundCurrency(totalPaid),
+    paysOff,
+    milestones,
+    timeline,
+  };
+}
+
+/**
+ * Map a debt_payoff_plans row to PayoffPlan
+ * @param row The row returned by Supabase
+ */
+export function toPayoffPlan(row: any): PayoffPlan {
+  return {
+    strategy: row.strategy,
+    extraPayment: Number(row.extra_payment) || 0,
+    customOrder: row.custom_order || [],
+  };
+}
@@ -0,0 +1,550 @@
+/**
+ * Reconcile crypto exchange balances with the assets table
+ *
+ * Balances are read by the exchange connectors in the Supabase edge
+ * functions, which store them on the connection (broker_data.balances) and
+ * map exchange codes such as Kraken's XXBT to tickers. Here each ticker
+ * becomes an asset identified by (metadata.connection_id, metadata.symbol):
+ * coins are priced by the crypto market data provider and fiat balances are
+ * kept as cash in their own currency. Balances that are gone from the
+ * exchange are closed at zero rather than deleted, so their history is kept.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { SUPPORTED_CURRENCIES } from "./fx";
+import { getMarketDataProvider, type MarketQuote } from "./market-data";
+import { getRetryDelay } from "./snaptrade-sync";
+
+export const EXCHANGE_BROKER_IDS = ["kraken", "binance", "coinbase"];
+
+export interface ExchangeBalance {
+  // The asset code as the exchange reports it, e.g. XXBT on Kraken
+  asset: string;
+  // The common ticker, e.g. BTC
+  symbol: string;
+  quantity: number;
+}
+
+export interface ExchangeConnection {
+  id: string;
+  userId: string;
+  brokerId: string;
+  // The exchange's display name, e.g. Kraken
+  exchangeName: string;
+  balances: ExchangeBalance[];
+  brokerData: Record<string, any>;
+}
+
+export interface ExchangeSyncSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  // Balances without a market price, e.g. delisted coins
+  unpriced: number;
+}
+
+export interface ExchangeConnectionSyncResult {
+  connectionId: string;
+  userId: string;
+  // Whether fresh balances were fetched from the exchange; assets are
+  // repriced from the stored balances in every case
+  status: "synced" | "failed" | "skipped";
+  summary?: ExchangeSyncSummary;
+  error?: string;
+}
+
+// Fetch the current balances of a connection from its exchange
+export type ExchangeBalanceFetcher = (
+  connection: ExchangeConnection,
+) => Promise<ExchangeBalance[]>;
+
+// Quotes shared by the connections of one run, keyed by symbol
+type QuoteCache = Map<string, Promise<MarketQuote | null>>;
+
+// A ticker's combined balance, e.g. spot and staked SOL on Kraken
+interface SymbolBalance {
+  symbol: string;
+  quantity: number;
+  assets: string[];
+}
+
+/**
+ * Read the balances stored on a connection or returned by the edge function
+ * @param value The balances as JSON
+ */
+function toExchangeBalances(value: any): ExchangeBalance[] {
+  // Connections made before balances were normalized stored the raw
+  // exchange response instead of a list
+  if (!Array.isArray(value)) return [];
+
+  return value.map((balance) => ({
+    asset: balance.asset,
+    symbol: balance.symbol || balance.asset,
+    quantity: Number(balance.quantity) || 0,
+  }));
+}
+
+/**
+ * Map a broker_connections row to ExchangeConnection
+ * @param row The row returned by Supabase
+ */
+export function toExchangeConnection(row: any): ExchangeConnection {
+  const brokerData = row.broker_data || {};
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    brokerId: row.broker_id,
+    exchangeName: brokerData.exchange || row.broker_id,
+    balances: toExchangeBalances(brokerData.balances),
+    brokerData,
+  };
+}
+
+/**
+ * Combine the balances that share a ticker
+ * @param balances The balances as reported by the exchange
+ */
+function groupBalances(balances: ExchangeBalance[]): SymbolBalance[] {
+  const bySymbol = new Map<string, SymbolBalance>();
+
+  for (const balance of balances) {
+    if (!(balance.quantity > 0)) continue;
+
+    const symbol = balance.symbol.toUpperCase();
+    const grouped = bySymbol.get(symbol) || {
+      symbol,
+      quantity: 0,
+      assets: [],
+    };
+    grouped.quantity += balance.quantity;
+    grouped.assets.push(balance.asset);
+    bySymbol.set(symbol, grouped);
+  }
+
+  return Array.from(bySymbol.values());
+}
+
+/**
+ * Check whether a ticker is a fiat currency rather than a coin
+ * @param symbol The ticker
+ */
+function isFiatSymbol(symbol: string) {
+  return SUPPORTED_CURRENCIES.some((currency) => currency.code === symbol);
+}
+
+/**
+ * Build the assets row written for a balance
+ * @param connection The connection holding the balance
+ * @param balance The combined balance of a ticker
+ * @param price The price per unit
+ * @param currency The currency of the price
+ * @param provider The market data provider that priced it, if any
+ * @param existingMetadata Metadata of the row being updated, if any
+ */
+function toAssetValues(
+  connection: ExchangeConnection,
+  balance: SymbolBalance,
+  price: number,
+  currency: string,
+  provider: string | null,
+  existingMetadata: Record<string, any> = {},
+) {
+  const isCash = isFiatSymbol(balance.symbol);
+
+  return {
+    name: isCash ? `${balance.symbol} Cash` : balance.symbol,
+    value: Math.round(balance.quantity * price * 100) / 100,
+    currency,
+    description: isCash
+      ? `Cash balance on ${connection.exchangeName}`
+      : `${balance.quantity} ${balance.symbol}`,
+    location: connection.exchangeName,
+    is_liability: false,
+    value_source: "exchange_sync",
+    metadata: {
+      ...existingMetadata,
+      symbol: balance.symbol,
+      price_per_unit: price,
+      quantity: balance.quantity,
+      currency,
+      asset_type: isCash ? "cash" : "cryptocurrency",
+      source: "exchange",
+      connection_id: connection.id,
+      broker_id: connection.brokerId,
+      exchange_assets: balance.assets,
+      price_provider: provider,
+      position_status: "open",
+      closed_at: null,
+      last_synced_at: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Fetch a connection's current balances through the
+ * refresh-exchange-balances edge function, which holds the connectors
+ * @param supabase A service-role Supabase client
+ * @param connection The connection to refresh
+ */
+export async function fetchExchangeBalances(
+  supabase: SupabaseClient,
+  connection: ExchangeConnection,
+): Promise<ExchangeBalance[]> {
+  const { data, error } = await supabase.functions.invoke(
+    "refresh-exchange-balances",
+    { body: { connectionId: connection.id } },
+  );
+
+  if (error) {
+    // The function's own message is in the response body
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+
+  return toExchangeBalances(data?.balances);
+}
+
+/**
+ * Price a connection's balances and reconcile them with its assets
+ * @param supabase A Supabase client allowed to write the connection owner's
+ * assets
+ * @param connection The connection, with the balances to import
+ * @param quotes Quotes already fetched during this run
+ * @returns Counts of added, updated, closed, unchanged and unpriced balances
+ */
+export async function syncExchangeBalances(
+  supabase: SupabaseClient,
+  connection: ExchangeConnection,
+  quotes: QuoteCache = new Map(),
+): Promise<ExchangeSyncSummary> {
+  const summary: ExchangeSyncSummary = {
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    unpriced: 0,
+  };
+
+  const { data: categoryData, error: categoryError } = await supabase
+    .from("asset_categories")
+    .select("id")
+    .eq("slug", "cryptocurrency")
+    .single();
+
+  if (categoryError || !categoryData) {
+    console.error("Error getting cryptocurrency category:", categoryError);
+    throw new Error(
+      `Category error: ${categoryError?.message || "Category not found"}`,
+    );
+  }
+
+  // Load every asset previously imported from this connection
+  const { data: existingAssets, error: existingError } = await supabase
+    .from("assets")
+    .select("id, value, metadata")
+    .eq("user_id", connection.userId)
+    .eq("metadata->>connection_id", connection.id);
+
+  if (existingError) {
+    console.error("Error loading exchange assets:", existingError);
+    throw new Error(`Database error: ${existingError.message}`);
+  }
+
+  const assetsBySymbol = new Map<string, any>();
+  for (const asset of existingAssets || []) {
+    assetsBySymbol.set(asset.metadata?.symbol, asset);
+  }
+
+  const provider = getMarketDataProvider("crypto");
+  const seenSymbols = new Set<string>();
+
+  for (const balance of groupBalances(connection.balances)) {
+    // Still held, so never closed even when it cannot be priced this run
+    seenSymbols.add(balance.symbol);
+
+    let values;
+    if (isFiatSymbol(balance.symbol)) {
+      values = toAssetValues(connection, balance, 1, balance.symbol, null);
+    } else {
+      if (!quotes.has(balance.symbol)) {
+        quotes.set(
+          balance.symbol,
+          provider.getQuote(balance.symbol).catch((quoteError) => {
+            console.error(`Error quoting ${balance.symbol}:`, quoteError);
+            return null;
+          }),
+        );
+      }
+
+      const quote = await quotes.get(balance.symbol);
+      if (!quote) {
+        summary.unpriced++;
+        continue;
+      }
+
+      values = toAssetValues(
+        connection,
+        balance,
+        quote.price,
+        quote.currency,
+        quote.provider,
+      );
+    }
+
+    const existing = assetsBySymbol.get(balance.symbol);
+
+    if (!existing) {
+      const { error: insertError } = await supabase.from("assets").insert({
+        ...values,
+        acquisition_date: new Date().toISOString(),
+        acquisition_value: values.value,
+        category_id: categoryData.id,
+        user_id: connection.userId,
+      });
+
+      if (insertError) {
+        console.error(`Error inserting asset ${balance.symbol}:`, insertError);
+      } else {
+        summary.added++;
+      }
+      continue;
+    }
+
+    const metadata = existing.metadata || {};
+    if (
+      Number(existing.value) === values.value &&
+      Number(metadata.quantity) === balance.quantity &&
+      metadata.position_status !== "closed"
+    ) {
+      summary.unchanged++;
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("assets")
+      .update({
+        ...values,
+        metadata: { ...metadata, ...values.metadata },
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", existing.id);
+
+    if (updateError) {
+      console.error(`Error updating asset ${balance.symbol}:`, updateError);
+    } else {
+      summary.updated++;
+    }
+  }
+
+  // Balances no longer held on the exchange have been sold or withdrawn
+  for (const [symbol, asset] of Array.from(assetsBySymbol.entries())) {
+    if (
+      seenSymbols.has(symbol) ||
+      asset.metadata?.position_status === "closed"
+    ) {
+      continue;
+    }
+
+    const { error: closeError } = await supabase
+      .from("assets")
+      .update({
+        value: 0,
+        value_source: "exchange_sync",
+        metadata: {
+          ...asset.metadata,
+          quantity: 0,
+          position_status: "closed",
+          closed_at: new Date().toISOString(),
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", asset.id);
+
+    if (closeError) {
+      console.error(`Error closing asset ${asset.id}:`, closeError);
+    } else {
+      summary.removed++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Import the stored balances of a user's active exchange connections, e.g.
+ * right after connecting
+ * @param supabase A Supabase client signed in as the user
+ * @param userId The user whose connections are imported
+ */
+export async function importExchangeConnections(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<ExchangeConnectionSyncResult[]> {
+  const { data: connections, error } = await supabase
+    .from("broker_connections")
+    .select("id, user_id, broker_id, broker_data")
+    .eq("user_id", userId)
+    .in("broker_id", EXCHANGE_BROKER_IDS)
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("Error loading exchange connections:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const results: ExchangeConnectionSyncResult[] = [];
+  const quotes: QuoteCache = new Map();
+
+  for (const row of connections || []) {
+    const connection = toExchangeConnection(row);
+    const summary = await syncExchangeBalances(supabase, connection, quotes);
+    await saveBrokerData(supabase, connection.id, {
+      ...connection.brokerData,
+      last_synced_at: new Date().toISOString(),
+      last_sync_summary: summary,
+    });
+
+    results.push({
+      connectionId: connection.id,
+      userId: connection.userId,
+      status: "synced",
+      summary,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Refresh the balances of every active exchange connection and reprice
+ * their assets
+ * @param supabase A service-role Supabase client
+ * @param fetchBalances Fetch the current balances of a connection
+ * @param now The time of the run, used for backoff
+ * @returns The outcome for each connection
+ */
+export async function syncExchangeConnections(
+  supabase: SupabaseClient,
+  fetchBalances: ExchangeBalanceFetcher,
+  now: Date = new Date(),
+): Promise<ExchangeConnectionSyncResult[]> {
+  const { data: connections, error } = await supabase
+    .from("broker_connections")
+    .select("id, user_id, broker_id, broker_data")
+    .in("broker_id", EXCHANGE_BROKER_IDS)
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("Error loading exchange connections:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const results: ExchangeConnectionSyncResult[] = [];
+  const quotes: QuoteCache = new Map();
+
+  for (const row of connections || []) {
+    const connection = toExchangeConnection(row);
+    const brokerData = connection.brokerData;
+    let result: ExchangeConnectionSyncResult;
+    let nextBrokerData: Record<string, any>;
+
+    // Still backing off after a previous failure
+    if (
+      brokerData.next_retry_at &&
+      new Date(brokerData.next_retry_at).getTime() > now.getTime()
+    ) {
+      result = {
+        connectionId: connection.id,
+        userId: connection.userId,
+        status: "skipped",
+      };
+      nextBrokerData = { ...brokerData };
+    } else {
+      try {
+        connection.balances = await fetchBalances(connection);
+        result = {
+          connectionId: connection.id,
+          userId: connection.userId,
+          status: "synced",
+        };
+        nextBrokerData = {
+          ...brokerData,
+          balances: connection.balances,
+          last_error: null,
+          retry_count: 0,
+          next_retry_at: null,
+        };
+      } catch (fetchError) {
+        const errorMessage =
+          fetchError instanceof Error ? fetchError.message : "Unknown error";
+        const retryCount = (Number(brokerData.retry_count) || 0) + 1;
+
+        console.error(
+          `Error fetching balances of connection ${connection.id}:`,
+          fetchError,
+        );
+        result = {
+          connectionId: connection.id,
+          userId: connection.userId,
+          status: "failed",
+          error: errorMessage,
+        };
+        nextBrokerData = {
+          ...brokerData,
+          last_error: errorMessage,
+          last_error_at: now.toISOString(),
+          retry_count: retryCount,
+          next_retry_at: new Date(
+            now.getTime() + getRetryDelay(retryCount),
+          ).toISOString(),
+        };
+      }
+    }
+
+    // Prices move even when the balances could not be refreshed, but the
+    // connection only counts as synced when its balances were
+    try {
+      result.summary = await syncExchangeBalances(supabase, connection, quotes);
+      nextBrokerData.last_sync_summary = result.summary;
+      if (result.status === "synced") {
+        nextBrokerData.last_synced_at = now.toISOString();
+      }
+    } catch (syncError) {
+      console.error(
+        `Error syncing exchange connection ${connection.id}:`,
+        syncError,
+      );
+      result.status = "failed";
+      result.error =
+        syncError instanceof Error ? syncError.message : "Unknown error";
+      nextBrokerData.last_error = result.error;
+      nextBrokerData.last_error_at = now.toISOString();
+    }
+
+    await saveBrokerData(supabase, connection.id, nextBrokerData, now);
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Write a connection's broker_data, logging rather than throwing on failure
+ * so one connection cannot stop the run
+ */
+async function saveBrokerData(
+  supabase: SupabaseClient,
+  connectionId: string,
+  brokerData: Record<string, any>,
+  now: Date = new Date(),
+) {
+  const { error } = await supabase
+    .from("broker_connections")
+    .update({ broker_data: brokerData, updated_at: now.toISOString() })
+    .eq("id", connectionId);
+
+  if (error) {
+    console.error(`Error updating connection ${connectionId}:`, error);
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Currency conversion into the user's base currency
+ *
+ * Daily rates live in the fx_rates table as units of each currency per one
+ * US dollar, so any pair converts through USD. The refresh job fills the
+ * table from the provider named by FX_RATES_PROVIDER: "fixture" (bundled
+ * offline rates, the default only in development and tests) or "frankfurter"
+ * (ECB reference rates, no key).
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { toSnapshotDate } from "./net-worth-history";
+
+export const DEFAULT_CURRENCY = "USD";
+
+export const SUPPORTED_CURRENCIES: { code: string; label: string }[] = [
+  { code: "USD", label: "US Dollar" },
+  { code: "EUR", label: "Euro" },
+  { code: "GBP", label: "British Pound" },
+  { code: "CAD", label: "Canadian Dollar" },
+  { code: "AUD", label: "Australian Dollar" },
+  { code: "NZD", label: "New Zealand Dollar" },
+  { code: "CHF", label: "Swiss Franc" },
+  { code: "JPY", label: "Japanese Yen" },
+  { code: "CNY", label: "Chinese Yuan" },
+  { code: "HKD", label: "Hong Kong Dollar" },
+  { code: "SGD", label: "Singapore Dollar" },
+  { code: "INR", label: "Indian Rupee" },
+  { code: "SEK", label: "Swedish Krona" },
+  { code: "NOK", label: "Norwegian Krone" },
+  { code: "DKK", label: "Danish Krone" },
+  { code: "PLN", label: "Polish Zloty" },
+  { code: "ZAR", label: "South African Rand" },
+  { code: "BRL", label: "Brazilian Real" },
+  { code: "MXN", label: "Mexican Peso" },
+];
+
+// Units of each currency per one US dollar
+export type FxRates = Record<string, number>;
+
+export interface FxRateProvider {
+  name: string;
+  /**
+   * Fetch the latest rates per US dollar and the date they apply to
+   */
+  fetchLatestRates(): Promise<{ date: string; rates: FxRates }>;
+}
+
+// Approximate rates for offline development, and for when the rates table
+// cannot be read. Migrations seed the same rates into fx_rates.
+const FIXTURE_FX_RATES: FxRates = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CAD: 1.36,
+  AUD: 1.52,
+  NZD: 1.66,
+  CHF: 0.88,
+  JPY: 151.5,
+  CNY: 7.24,
+  HKD: 7.82,
+  SGD: 1.35,
+  INR: 83.4,
+  SEK: 10.6,
+  NOK: 10.8,
+  DKK: 6.87,
+  PLN: 3.98,
+  ZAR: 18.6,
+  BRL: 5.05,
+  MXN: 16.8,
+};
+
+/**
+ * Create the offline provider serving the bundled rates
+ */
+function createFixtureFxProvider(): FxRateProvider {
+  return {
+    name: "fixture",
+    async fetchLatestRates() {
+      return { date: toSnapshotDate(new Date()), rates: FIXTURE_FX_RATES };
+    },
+  };
+}
+
+/**
+ * Create the Frankfurter provider (European Central Bank reference rates)
+ */
+function createFrankfurterFxProvider(): FxRateProvider {
+  return {
+    name: "frankfurter",
+    async fetchLatestRates() {
+      const symbols = SUPPORTED_CURRENCIES.map(({ code }) => code)
+        .filter((code) => code !== "USD")
+        .join(",");
+      const response = await fetch(
+        `https://api.frankfurter.app/latest?from=USD&to=${symbols}`,
+        { cache: "no-store" },
+      );
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return { date: data.date, rates: { ...data.rates, USD: 1 } };
+    },
+  };
+}
+
+/**
+ * Get the configured exchange rate provider
+ */
+export function getFxRateProvider(): FxRateProvider {
+  // Fixture rows would be dated today and outrank every real rate, so they
+  // are never written unless asked for outside development and tests
+  const configured =
+    process.env.FX_RATES_PROVIDER ||
+    (process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test"
+      ? "fixture"
+      : undefined);
+
+  if (!configured) {
+    throw new Error(
+      "FX rates provider is not configured: set FX_RATES_PROVIDER",
+    );
+  }
+
+  switch (configured) {
+    case "fixture":
+      return createFixtureFxProvider();
+    case "frankfurter":
+      return createFrankfurterFxProvider();
+    default:
+      throw new Error(`Unsupported FX rates provider: ${configured}`);
+  }
+}
+
+/**
+ * Fetch today's rates from the provider and store them
+ * @param supabase A Supabase client with the service role
+ * @returns The number of rates written
+ */
+export async function refreshFxRates(supabase: SupabaseClient) {
+  const provider = getFxRateProvider();
+  const { date, rates } = await provider.fetchLatestRates();
+
+  const rows = Object.entries(rates)
+    .filter(([currency, rate]) => currency !== "USD" && rate > 0)
+    .map(([currency, rate]) => ({
+      currency,
+      rate_date: date,
+      rate,
+      source: provider.name,
+      updated_at: new Date().toISOString(),
+    }));
+
+  const { error } = await supabase
+    .from("fx_rates")
+    .upsert(rows, { onConflict: "currency,rate_date" });
+
+  if (error) {
+    console.error("Error storing fx rates:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return rows.length;
+}
+
+/**
+ * Fetch the latest stored rate of every currency. Uses the same lookup as
+ * the net worth snapshots, so live totals match the recorded history.
+ * @param supabase A Supabase client
+ * @param date Use the rates in effect on this date, defaults to today
+ */
+export async function fetchFxRates(
+  supabase: SupabaseClient,
+  date: Date = new Date(),
+): Promise<FxRates> {
+  const { data, error } = await supabase.rpc("latest_fx_rates", {
+    p_date: toSnapshotDate(date),
+  });
+
+  if (error) {
+    console.error("Error fetching fx rates:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const rates: FxRates = { USD: 1 };
+  for (const row of (data as { currency: string; rate: number }[]) || []) {
+    rates[row.currency] = Number(row.rate);
+  }
+
+  return rates;
+}
+
+/**
+ * Convert an amount between currencies
+ * @param amount The amount in the source currency
+ * @param from The source currency code
+ * @param to The target currency code
+ * @param rates Rates per US dollar
+ * @returns The converted amount; unchanged if either rate is unknown
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rates: FxRates,
+) {
+  if (from === to) return amount;
+
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return amount;
+
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Get the currency an asset's value is held in
+ * @param asset An assets row
+ */
+export function getAssetCurrency(asset: any): string {
+  return (
+    asset.currency ||
+    asset.metadata?.currency ||
+    DEFAULT_CURRENCY
+  ).toUpperCase();
+}
+
+/**
+ * Convert assets rows into the base currency. The original amount and
+ * currency are kept as original_value and original_currency.
+ * @param assets Assets rows
+ * @param baseCurrency The currency to convert into
+ * @param rates Rates per US dollar
+ */
+export function convertAssetValues<T extends Record<string, any>>(
+  assets: T[],
+  baseCurrency: string,
+  rates: FxRates,
+): T[] {
+  return assets.map((asset) => {
+    const currency = getAssetCurrency(asset);
+    const convert = (amount: any) =>
+      amount == null
+        ? amount
+        : convertAmount(Number(amount), currency, baseCurrency, rates);
+
+    return {
+      ...asset,
+      value: convert(asset.value),
+      acquisition_value: convert(asset.acquisition_value),
+      original_value: asset.value,
+      original_currency: currency,
+    };
+  });
+}
+
+/**
+ * Fetch the user's base currency
+ * @param supabase A Supabase client with the user's session
+ * @param userId The user to look up
+ */
+export async function fetchBaseCurrency(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("base_currency")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching base currency:", error);
+  }
+
+  return data?.base_currency || DEFAULT_CURRENCY;
+}
+
+/**
+ * Load what a page needs to show amounts in the user's base currency
+ * @param supabase A Supabase client with the user's session
+ * @param userId The signed-in user
+ */
+export async function fetchCurrencyContext(
+  supabase: SupabaseClient,
+  userId: string,
+) {
+  const [baseCurrency, rates] = await Promise.all([
+    fetchBaseCurrency(supabase, userId),
+    fetchFxRates(supabase).catch((error) => {
+      console.error("Error loading fx rates:", error);
+      return { ...FIXTURE_FX_RATES };
+    }),
+  ]);
+
+  return { baseCurrency, rates };
+}
@@ -0,0 +1,290 @@
+/**
+ * Goal forecasting
+ *
+ * Projects when a goal will reach its target from the user's planned monthly
+ * contribution and expected return, and from how fast the linked assets have
+ * actually grown according to asset_history. The plan drives the status when
+ * it is set; the historical projection is always returned so the two can be
+ * compared.
+ */
+import type { AssetHistoryPoint } from "./asset-history";
+import { getPaymentDate } from "./amortization";
+import { toSnapshotDate } from "./net-worth-history";
+
+export type GoalStatus =
+  | "achieved"
+  | "ahead"
+  | "on_track"
+  | "behind"
+  | "no_deadline";
+
+export interface GoalValuePoint {
+  date: string;
+  value: number;
+}
+
+export interface GoalForecast {
+  status: GoalStatus;
+  // Where the projected monthly growth comes from
+  basis: "plan" | "history" | "none";
+  monthlyGrowth: number;
+  historicalMonthlyChange: number | null;
+  projectedDate: string | null;
+  monthsToTarget: number | null;
+  // When the target is reached if the observed trend continues
+  historicalProjectedDate: string | null;
+  historicalMonthsToTarget: number | null;
+  monthsToDeadline: number | null;
+  requiredMonthlyContribution: number | null;
+}
+
+export interface GoalForecastInput {
+  current: number;
+  target: number;
+  deadline: string | null;
+  monthlyContribution: number;
+  expectedReturn: number;
+  history: GoalValuePoint[];
+  now?: Date;
+}
+
+// Projections stop after 100 years
+const MAX_MONTHS = 1200;
+
+// Hitting the target this many months early counts as ahead of schedule
+const AHEAD_MARGIN_MONTHS = 3;
+
+/**
+ * Sum the history of a goal's assets into one month-end series. Every point
+ * counts the same assets, so the series only moves when their values do.
+ * @param assetIds The assets counted towards the goal
+ * @param historyByAsset Value history keyed by asset ID
+ * @param months How many months back to go
+ * @param now The end of the series
+ */
+export function buildGoalValueSeries(
+  assetIds: string[],
+  historyByAsset: Record<string, AssetHistoryPoint[]>,
+  months: number = 12,
+  now: Date = new Date(),
+): GoalValuePoint[] {
+  const series: GoalValuePoint[] = [];
+
+  for (let offset = months; offset >= 0; offset--) {
+    // Last day of the month, or now for the current month
+    const pointDate =
+      offset === 0
+        ? now
+        : new Date(now.getFullYear(), now.getMonth() - offset + 1, 0, 23, 59);
+
+    let value = 0;
+    let hasData = false;
+
+    for (const assetId of assetIds) {
+      const points = historyByAsset[assetId] || [];
+      // Carry the latest known value forward to the point date, and an
+      // asset's first value back before it was recorded, so assets whose
+      // history starts later don't show up as growth
+      let latest: AssetHistoryPoint | undefined = points[0];
+      for (const point of points) {
+        if (new Date(point.recordedAt).getTime() > pointDate.getTime()) break;
+        latest = point;
+      }
+
+      if (latest) {
+        value += latest.value;
+        hasData = true;
+      }
+    }
+
+    if (hasData) {
+      series.push({ date: toSnapshotDate(pointDate), value });
+    }
+  }
+
+  return series;
+}
+
+/**
+ * Estimate the average monthly change of a series by least squares
+ * @param series Month-end values, oldest first
+ * @returns The change per month, or null with fewer than two points
+ */
+export function estimateMonthlyChange(series: GoalValuePoint[]) {
+  if (series.length < 2) return null;
+
+  const n = series.length;
+  const meanX = (n - 1) / 2;
+  const meanY = series.reduce((sum, point) => sum + point.value, 0) / n;
+
+  let numerator = 0;
+  let denominator = 0;
+  series.forEach((point, index) => {
+    numerator += (index - meanX) * (point.value - meanY);
+    denominator += (index - meanX) ** 2;
+  });
+
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+/**
+ * Count the months until a balance reaches a target
+ * @param current The current balance
+ * @param target The target balance
+ * @param monthlyContribution Added at the end of every month
+ * @param annualReturn The expected annual return as a percentage
+ * @returns The number of months, or null if it is never reached
+ */
+export function monthsUntilTarget(
+  current: number,
+  target: number,
+  monthlyContribution: number,
+  annualReturn: number,
+) {
+  if (current >= target) return 0;
+
+  const monthlyRate = annualReturn / 100 / 12;
+  let balance = current;
+
+  for (let month = 1; month <= MAX_MONTHS; month++) {
+    balance = balance * (1 + monthlyRate) + monthlyContribution;
+    if (balance >= target) return month;
+  }
+
+  return null;
+}
+
+/**
+ * Calculate the monthly contribution needed to reach a target in time
+ * @param current The current balance
+ * @param target The target balance
+ * @param annualReturn The expected annual return as a percentage
+ * @param months The months left until the deadline
+ */
+export function calculateRequiredContribution(
+  current: number,
+  target: number,
+  annualReturn: number,
+  months: number,
+) {
+  if (current >= target) return 0;
+  if (months <= 0) return target - current;
+
+  const monthlyRate = annualReturn / 100 / 12;
+  if (monthlyRate === 0) return (target - current) / months;
+
+  const growth = Math.pow(1 + monthlyRate, months);
+  return Math.max(
+    ((target - current * growth) * monthlyRate) / (growth - 1),
+    0,
+  );
+}
+
+/**
+ * Count whole months between two dates
+ * @param from The start date
+ * @param to The end date
+ */
+function monthsBetween(from: Date, to: Date) {
+  return (
+    (to.getFullYear() - from.getFullYear()) * 12 +
+    (to.getMonth() - from.getMonth()) -
+    (to.getDate() < from.getDate() ? 1 : 0)
+  );
+}
+
+/**
+ * Forecast when a goal will be reached and whether it is on track
+ * @param input The goal's current value, target, plan and value history
+ */
+export function forecastGoal({
+  current,
+  target,
+  deadline,
+  monthlyContribution,
+  expectedReturn,
+  history,
+  now = new Date(),
+}: GoalForecastInput): GoalForecast {
+  const historicalMonthlyChange = estimateMonthlyChange(history);
+  const deadlineDate = deadline ? new Date(`${deadline}T00:00:00`) : null;
+  const monthsToDeadline = deadlineDate
+    ? Math.max(monthsBetween(now, deadlineDate), 0)
+    : null;
+
+  // A planned contribution wins; otherwise extrapolate the observed trend,
+  // which already includes market growth, so no return is added on top
+  let basis: GoalForecast["basis"] = "none";
+  let monthlyGrowth = 0;
+  let annualReturn = 0;
+
+  if (monthlyContribution > 0 || expectedReturn > 0) {
+    basis = "plan";
+    monthlyGrowth = monthlyContribution;
+    annualReturn = expectedReturn;
+  } else if (historicalMonthlyChange !== null && historicalMonthlyChange > 0) {
+    basis = "history";
+    monthlyGrowth = historicalMonthlyChange;
+  }
+
+  const monthsToTarget =
+    current >= target
+      ? 0
+      : basis === "none"
+        ? null
+        : monthsUntilTarget(current, target, monthlyGrowth, annualReturn);
+
+  const projectedDate =
+    monthsToTarget !== null
+      ? toSnapshotDate(getPaymentDate(now, monthsToTarget))
+      : null;
+
+  // Projected separately so a plan can be checked against the real trend
+  const historicalMonthsToTarget =
+    current >= target
+      ? 0
+      : historicalMonthlyChange !== null && historicalMonthlyChange > 0
+        ? monthsUntilTarget(current, target, historicalMonthlyChange, 0)
+        : null;
+
+  const historicalProjectedDate =
+    historicalMonthsToTarget !== null
+      ? toSnapshotDate(getPaymentDate(now, historicalMonthsToTarget))
+      : null;
+
+  const requiredMonthlyContribution =
+    monthsToDeadline !== null
+      ? calculateRequiredContribution(
+          current,
+          target,
+          expectedReturn,
+          monthsToDeadline,
+        )
+      : null;
+
+  let status: GoalStatus;
+  if (current >= target) {
+    status = "achieved";
+  } else if (monthsToDeadline === null) {
+    status = "no_deadline";
+  } else if (monthsToTarget === null || monthsToTarget > monthsToDeadline) {
+    status = "behind";
+  } else if (monthsToDeadline - monthsToTarget >= AHEAD_MARGIN_MONTHS) {
+    status = "ahead";
+  } else {
+    status = "on_track";
+  }
+
+  return {
+    status,
+    basis,
+    monthlyGrowth,
+    historicalMonthlyChange,
+    projectedDate,
+    monthsToTarget,
+    historicalProjectedDate,
+    historicalMonthsToTarget,
+    monthsToDeadline,
+    requiredMonthlyContribution,
+  };
+}
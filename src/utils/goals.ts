@@ -0,0 +1,117 @@
+/**
+ * Financial goals and their progress from linked assets
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  deadline: string | null;
+  linkedAssetIds: string[];
+  linkedCategorySlugs: string[];
+  manualAmount: number;
+  monthlyContribution: number;
+  expectedReturn: number;
+}
+
+export interface GoalProgress {
+  current: number;
+  progress: number;
+  // IDs of the assets counted towards the goal
+  assetIds: string[];
+  isLinked: boolean;
+}
+
+// The minimal asset shape needed to compute progress
+export interface GoalAsset {
+  id: string;
+  name: string;
+  value: number;
+  is_liability?: boolean | null;
+  asset_categories?: { slug?: string | null; name?: string | null } | null;
+}
+
+/**
+ * Map a goals row to Goal
+ * @param row The row returned by Supabase
+ */
+export function toGoal(row: any): Goal {
+  return {
+    id: row.id,
+    name: row.name,
+    targetAmount: Number(row.target_amount) || 0,
+    deadline: row.deadline,
+    linkedAssetIds: row.linked_asset_ids || [],
+    linkedCategorySlugs: row.linked_category_slugs || [],
+    manualAmount: Number(row.manual_amount) || 0,
+    monthlyContribution: Number(row.monthly_contribution) || 0,
+    expectedReturn: Number(row.expected_return) || 0,
+  };
+}
+
+/**
+ * Fetch a user's goals
+ * @param supabase A Supabase client carrying the user's session
+ * @param userId The user to fetch goals for
+ */
+export async function fetchGoals(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<Goal[]> {
+  const { data, error } = await supabase
+    .from("goals")
+    .select("*")
+    .eq("user_id", userId)
+    .order("deadline", { ascending: true, nullsFirst: false });
+
+  if (error) {
+    console.error("Error fetching goals:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return (data || []).map(toGoal);
+}
+
+/**
+ * Get the assets that count towards a goal
+ * @param goal The goal
+ * @param assets The user's assets
+ */
+export function getGoalAssets(goal: Goal, assets: GoalAsset[]) {
+  return assets.filter(
+    (asset) =>
+      !asset.is_liability &&
+      (goal.linkedAssetIds.includes(asset.id) ||
+        goal.linkedCategorySlugs.includes(asset.asset_categories?.slug || "")),
+  );
+}
+
+/**
+ * Compute how far a goal has progressed from live asset values
+ * @param goal The goal
+ * @param assets The user's assets
+ */
+export function calculateGoalProgress(
+  goal: Goal,
+  assets: GoalAsset[],
+): GoalProgress {
+  const isLinked =
+    goal.linkedAssetIds.length > 0 || goal.linkedCategorySlugs.length > 0;
+  const goalAssets = isLinked ? getGoalAssets(goal, assets) : [];
+  const current = isLinked
+    ? goalAssets.reduce((sum, asset) => sum + Number(asset.value), 0)
+    : goal.manualAmount;
+
+  const progress =
+    goal.targetAmount > 0
+      ? Math.min(Math.max((current / goal.targetAmount) * 100, 0), 100)
+      : 0;
+
+  return {
+    current,
+    progress: Math.round(progress),
+    assetIds: goalAssets.map((asset) => asset.id),
+    isLinked,
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Liability details stored alongside debt rows in the assets table
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildAmortizationSchedule,
+  calculateMonthlyPayment,
+  type AmortizationSchedule,
+} from "./amortization";
+import { toSnapshotDate } from "./net-worth-history";
+
+export const LOAN_TYPES = [
+  { value: "mortgage", label: "Mortgage" },
+  { value: "auto", label: "Auto Loan" },
+  { value: "student", label: "Student Loan" },
+  { value: "personal", label: "Personal Loan" },
+  { value: "credit_card", label: "Credit Card" },
+  { value: "other", label: "Other" },
+] as const;
+
+export type LoanType = (typeof LOAN_TYPES)[number]["value"];
+
+export interface LiabilityDetails {
+  assetId: string;
+  loanType: LoanType;
+  interestRate: number;
+  minimumPayment: number | null;
+  termMonths: number | null;
+  // The date termMonths was entered; the remaining term counts down from it
+  termStartDate: string | null;
+  paymentDay: number | null;
+  // The asset securing the loan, e.g. the vehicle of an auto loan
+  securedAssetId: string | null;
+}
+
+// A loan secured by an asset, e.g. the mortgage on a property
+export interface SecuredLoan {
+  id: string;
+  name: string;
+  balance: number;
+}
+
+/**
+ * Get the display label of a loan type
+ * @param loanType The stored loan type
+ */
+export function getLoanTypeLabel(loanType?: string | null) {
+  return LOAN_TYPES.find((type) => type.value === loanType)?.label || "Other";
+}
+
+/**
+ * Map a liability_details row to LiabilityDetails
+ * @param row The row returned by Supabase
+ */
+export function toLiabilityDetails(row: any): LiabilityDetails {
+  return {
+    assetId: row.asset_id,
+    loanType: row.loan_type || "other",
+    interestRate: Number(row.interest_rate) || 0,
+    minimumPayment:
+      row.minimum_payment !== null ? Number(row.minimum_payment) : null,
+    termMonths: row.term_months ?? null,
+    termStartDate: row.term_start_date ?? null,
+    paymentDay: row.payment_day ?? null,
+    securedAssetId: row.secured_asset_id ?? null,
+  };
+}
+
+/**
+ * Fetch liability details for a set of debts
+ * @param supabase A Supabase client carrying the user's session
+ * @param assetIds The debt asset IDs to load details for
+ * @returns Details keyed by asset ID; debts without details are omitted
+ */
+export async function fetchLiabilityDetails(
+  supabase: SupabaseClient,
+  assetIds: string[],
+): Promise<Record<string, LiabilityDetails>> {
+  if (assetIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("liability_details")
+    .select("*")
+    .in("asset_id", assetIds);
+
+  if (error) {
+    console.error("Error fetching liability details:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const detailsByAsset: Record<string, LiabilityDetails> = {};
+  for (const row of data || []) {
+    detailsByAsset[row.asset_id] = toLiabilityDetails(row);
+  }
+
+  return detailsByAsset;
+}
+
+/**
+ * Get the start date to store with a debt's term
+ * @param termMonths The term being saved
+ * @param existing The stored details, if any
+ * @returns The stored start date while the term is unchanged, otherwise today
+ */
+export function getTermStartDate(
+  termMonths: number | null,
+  existing?: Pick<LiabilityDetails, "termMonths" | "termStartDate"> | null,
+) {
+  if (!termMonths) return null;
+  if (existing?.termStartDate && existing.termMonths === termMonths) {
+    return existing.termStartDate;
+  }
+  return toSnapshotDate(new Date());
+}
+
+/**
+ * Count the payments left on a debt's term
+ * @param details The debt's liability details
+ * @param asOf The date to count from
+ * @returns The months left, at least one, or null without a term
+ */
+export function getRemainingTermMonths(
+  details: LiabilityDetails,
+  asOf: Date = new Date(),
+) {
+  if (!details.termMonths || details.termMonths <= 0) return null;
+  if (!details.termStartDate) return details.termMonths;
+
+  const start = new Date(`${details.termStartDate}T00:00:00`);
+  const elapsed =
+    (asOf.getFullYear() - start.getFullYear()) * 12 +
+    (asOf.getMonth() - start.getMonth()) -
+    (asOf.getDate() < start.getDate() ? 1 : 0);
+
+  return Math.max(details.termMonths - Math.max(elapsed, 0), 1);
+}
+
+/**
+ * Get the monthly payment used to project a debt
+ * @param balance The current balance
+ * @param details The debt's liability details
+ * @param asOf The date the projection starts from
+ * @returns The minimum payment, or the payment that clears the balance over
+ * the rest of the term
+ */
+export function getMonthlyPayment(
+  balance: number,
+  details: LiabilityDetails,
+  asOf: Date = new Date(),
+) {
+  if (details.minimumPayment && details.minimumPayment > 0) {
+    return details.minimumPayment;
+  }
+
+  const remainingMonths = getRemainingTermMonths(details, asOf);
+  if (remainingMonths) {
+    return calculateMonthlyPayment(
+      balance,
+      details.interestRate,
+      remainingMonths,
+    );
+  }
+
+  return 0;
+}
+
+/**
+ * Project a debt's payoff from its current balance
+ * @param balance The current balance
+ * @param details The debt's liability details
+ * @param startDate The date the projection starts from
+ */
+export function projectLiability(
+  balance: number,
+  details: LiabilityDetails,
+  startDate: Date = new Date(),
+): AmortizationSchedule {
+  return buildAmortizationSchedule({
+    balance,
+    interestRate: details.interestRate,
+    monthlyPayment: getMonthlyPayment(balance, details, startDate),
+    startDate,
+    paymentDay: details.paymentDay,
+  });
+}
+
+/**
+ * Fetch the loans secured by a set of assets
+ * @param supabase A Supabase client carrying the user's session
+ * @param assetIds The securing assets, e.g. vehicles or properties
+ * @returns Loans keyed by the asset securing them; assets without loans are
+ * omitted
+ */
+export async function fetchSecuredLoans(
+  supabase: SupabaseClient,
+  assetIds: string[],
+): Promise<Record<string, SecuredLoan[]>> {
+  if (assetIds.length === 0) return {};
+
+  const { data: details, error } = await supabase
+    .from("liability_details")
+    .select("asset_id, secured_asset_id")
+    .in("secured_asset_id", assetIds);
+
+  if (error) {
+    console.error("Error fetching secured loans:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  if (!details || details.length === 0) return {};
+
+  const { data: loans, error: loansError } = await supabase
+    .from("assets")
+    .select("id, name, value")
+    .in(
+      "id",
+      details.map((row) => row.asset_id),
+    );
+
+  if (loansError) {
+    console.error("Error fetching secured loans:", loansError);
+    throw new Error(`Database error: ${loansError.message}`);
+  }
+
+  const loansById = new Map((loans || []).map((loan) => [loan.id, loan]));
+  const loansByAsset: Record<string, SecuredLoan[]> = {};
+
+  for (const row of details) {
+    const loan = loansById.get(row.asset_id);
+    if (!loan) continue;
+
+    (loansByAsset[row.secured_asset_id] ||= []).push({
+      id: loan.id,
+      name: loan.name,
+      balance: Number(loan.value) || 0,
+    });
+  }
+
+  return loansByAsset;
+}
+
+/**
+ * Calculate the equity in an asset after the loans secured by it
+ * @param value The asset's value
+ * @param loans The loans secured by the asset
+ */
+export function calculateEquity(value: number, loans: SecuredLoan[]) {
+  return value - loans.reduce((sum, loan) => sum + loan.balance, 0);
+}
@@ -0,0 +1,196 @@
+/**
+ * Offline market data for development
+ *
+ * Serves a fixed list of popular stocks and cryptocurrencies. Historical
+ * closes are generated deterministically from each symbol, so charts and
+ * forecasts look the same on every run and end at the fixture price.
+ */
+import type {
+  DailyClose,
+  MarketAssetClass,
+  MarketDataProvider,
+  MarketQuote,
+  SymbolMatch,
+} from "./market-data";
+import { toSnapshotDate } from "./net-worth-history";
+
+interface FixtureSymbol {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  price: number;
+}
+
+const FIXTURE_SYMBOLS: Record<MarketAssetClass, FixtureSymbol[]> = {
+  stock: [
+    { symbol: "AAPL", name: "Apple Inc.", exchange: "NASDAQ", price: 175.34 },
+    {
+      symbol: "MSFT",
+      name: "Microsoft Corporation",
+      exchange: "NASDAQ",
+      price: 325.76,
+    },
+    {
+      symbol: "GOOGL",
+      name: "Alphabet Inc.",
+      exchange: "NASDAQ",
+      price: 142.89,
+    },
+    {
+      symbol: "AMZN",
+      name: "Amazon.com Inc.",
+      exchange: "NASDAQ",
+      price: 178.12,
+    },
+    {
+      symbol: "META",
+      name: "Meta Platforms Inc.",
+      exchange: "NASDAQ",
+      price: 485.39,
+    },
+    { symbol: "TSLA", name: "Tesla, Inc.", exchange: "NASDAQ", price: 237.49 },
+    {
+      symbol: "NVDA",
+      name: "NVIDIA Corporation",
+      exchange: "NASDAQ",
+      price: 116.32,
+    },
+    {
+      symbol: "JPM",
+      name: "JPMorgan Chase & Co.",
+      exchange: "NYSE",
+      price: 198.73,
+    },
+    { symbol: "V", name: "Visa Inc.", exchange: "NYSE", price: 276.45 },
+    {
+      symbol: "JNJ",
+      name: "Johnson & Johnson",
+      exchange: "NYSE",
+      price: 152.64,
+    },
+  ],
+  crypto: [
+    { symbol: "BTC", name: "Bitcoin", exchange: null, price: 65432.18 },
+    { symbol: "ETH", name: "Ethereum", exchange: null, price: 3456.78 },
+    { symbol: "SOL", name: "Solana", exchange: null, price: 142.35 },
+    { symbol: "ADA", name: "Cardano", exchange: null, price: 0.45 },
+    { symbol: "DOT", name: "Polkadot", exchange: null, price: 6.78 },
+    { symbol: "DOGE", name: "Dogecoin", exchange: null, price: 0.12 },
+    { symbol: "XRP", name: "Ripple", exchange: null, price: 0.56 },
+    { symbol: "AVAX", name: "Avalanche", exchange: null, price: 34.56 },
+    { symbol: "LINK", name: "Chainlink", exchange: null, price: 14.32 },
+    { symbol: "MATIC", name: "Polygon", exchange: null, price: 0.67 },
+    { symbol: "USDC", name: "USD Coin", exchange: null, price: 1 },
+    { symbol: "USDT", name: "Tether", exchange: null, price: 1 },
+    { symbol: "BNB", name: "BNB", exchange: null, price: 582.4 },
+  ],
+};
+
+// A stable number per symbol, used to vary the generated price paths
+function getSeed(symbol: string) {
+  return Array.from(symbol).reduce(
+    (seed, char) => (seed * 31 + char.charCodeAt(0)) % 1000,
+    7,
+  );
+}
+
+/**
+ * Generate the close of a fixture symbol a number of days before today
+ * @param fixture The fixture symbol
+ * @param daysAgo How many days back
+ */
+function getFixtureClose(fixture: FixtureSymbol, daysAgo: number) {
+  const seed = getSeed(fixture.symbol);
+  // A gentle upward trend with a seeded wave, anchored at today's price
+  const trend = 1 - daysAgo * 0.0003;
+  const wave =
+    0.04 * (Math.sin(daysAgo / 9 + seed) - Math.sin(seed)) +
+    0.015 * (Math.sin(daysAgo / 2.3 + seed * 2) - Math.sin(seed * 2));
+  const close = fixture.price * trend * (1 + wave);
+
+  return Math.max(Math.round(close * 10000) / 10000, 0);
+}
+
+/**
+ * Create the offline provider for an asset class
+ * @param assetClass Stocks or crypto
+ */
+export function createFixtureProvider(
+  assetClass: MarketAssetClass,
+): MarketDataProvider {
+  const fixtures = FIXTURE_SYMBOLS[assetClass];
+  const findFixture = (symbol: string) =>
+    fixtures.find((fixture) => fixture.symbol === symbol.toUpperCase());
+
+  return {
+    name: "fixture",
+
+    async searchSymbols(query: string): Promise<SymbolMatch[]> {
+      const needle = query.trim().toLowerCase();
+      if (!needle) return [];
+
+      return fixtures
+        .filter(
+          (fixture) =>
+            fixture.symbol.toLowerCase().includes(needle) ||
+            fixture.name.toLowerCase().includes(needle),
+        )
+        .map(({ symbol, name, exchange }) => ({ symbol, name, exchange }));
+    },
+
+    async getQuote(symbol: string): Promise<MarketQuote | null> {
+      const fixture = findFixture(symbol);
+      if (!fixture) return null;
+
+      const previousClose = getFixtureClose(fixture, 1);
+      const change = fixture.price - previousClose;
+
+      return {
+        symbol: fixture.symbol,
+        price: fixture.price,
+        currency: "USD",
+        change,
+        changePercent:
+          previousClose > 0 ? (change / previousClose) * 100 : null,
+        asOf: new Date().toISOString(),
+        provider: "fixture",
+      };
+    },
+
+    async getHistoricalCloses(
+      symbol: string,
+      from: string,
+      to: string,
+    ): Promise<DailyClose[]> {
+      const fixture = findFixture(symbol);
+      if (!fixture) return [];
+
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const end = new Date(`${to}T00:00:00`);
+      const closes: DailyClose[] = [];
+
+      for (
+        const day = new Date(`${from}T00:00:00`);
+        day <= end && day <= today;
+        day.setDate(day.getDate() + 1)
+      ) {
+        // Stock markets are closed at weekends
+        const weekday = day.getDay();
+        if (assetClass === "stock" && (weekday === 0 || weekday === 6)) {
+          continue;
+        }
+
+        const daysAgo = Math.round(
+          (today.getTime() - day.getTime()) / 86400000,
+        );
+        closes.push({
+          date: toSnapshotDate(day),
+          close: getFixtureClose(fixture, daysAgo),
+        });
+      }
+
+      return closes;
+    },
+  };
+}
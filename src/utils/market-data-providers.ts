@@ -0,0 +1,237 @@
+/**
+ * Live market data adapters
+ *
+ * - Finnhub for stocks (FINNHUB_API_KEY)
+ * - CoinGecko for cryptocurrencies (COINGECKO_API_KEY, optional demo key)
+ */
+import type {
+  DailyClose,
+  MarketDataProvider,
+  MarketQuote,
+  SymbolMatch,
+} from "./market-data";
+
+const FINNHUB_BASE_URL = "https://finnhub.io/api/v1";
+const COINGECKO_BASE_URL = "https://api.coingecko.com/api/v3";
+
+// A coin in CoinGecko's /search response
+interface CoinGeckoSearchCoin {
+  id: string;
+  name: string;
+  symbol: string;
+  market_cap_rank: number | null;
+}
+
+/**
+ * Fetch JSON from a market data API
+ * @param url The request URL
+ * @param headers Extra request headers, e.g. the API key
+ */
+async function fetchJson(url: string, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: "GET",
+    headers: { Accept: "application/json", ...headers },
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// Convert a YYYY-MM-DD date to Unix seconds; `endOfDay` includes that day
+function toUnixSeconds(date: string, endOfDay: boolean = false) {
+  const time = new Date(`${date}T${endOfDay ? "23:59:59" : "00:00:00"}Z`);
+  return Math.floor(time.getTime() / 1000);
+}
+
+/**
+ * Create the Finnhub stock provider
+ */
+export function createFinnhubProvider(): MarketDataProvider {
+  const apiKey = process.env.FINNHUB_API_KEY;
+  if (!apiKey) {
+    throw new Error("FINNHUB_API_KEY is not configured");
+  }
+
+  const request = (path: string, params: Record<string, string | number>) => {
+    const query = new URLSearchParams(
+      Object.entries(params).map(([key, value]) => [key, String(value)]),
+    );
+    return fetchJson(`${FINNHUB_BASE_URL}${path}?${query}`, {
+      "X-Finnhub-Token": apiKey,
+    });
+  };
+
+  return {
+    name: "finnhub",
+
+    async searchSymbols(query: string): Promise<SymbolMatch[]> {
+      const data = await request("/search", { q: query });
+
+      return (data.result || [])
+        .filter(
+          (item: any) => item.type === "Common Stock" || item.type === "ETP",
+        )
+        .map((item: any) => ({
+          symbol: item.symbol,
+          name: item.description,
+          exchange: null,
+        }));
+    },
+
+    async getQuote(symbol: string): Promise<MarketQuote | null> {
+      const data = await request("/quote", { symbol });
+
+      // Finnhub answers unknown symbols with a zero price
+      if (!data || !data.c) return null;
+
+      return {
+        symbol,
+        price: data.c,
+        currency: "USD",
+        change: data.d ?? null,
+        changePercent: data.dp ?? null,
+        asOf: new Date((data.t || Date.now() / 1000) * 1000).toISOString(),
+        provider: "finnhub",
+      };
+    },
+
+    async getHistoricalCloses(
+      symbol: string,
+      from: string,
+      to: string,
+    ): Promise<DailyClose[]> {
+      const data = await request("/stock/candle", {
+        symbol,
+        resolution: "D",
+        from: toUnixSeconds(from),
+        to: toUnixSeconds(to, true),
+      });
+
+      if (data.s !== "ok") return [];
+
+      return (data.t as number[]).map((timestamp, index) => ({
+        date: new Date(timestamp * 1000).toISOString().split("T")[0],
+        close: data.c[index],
+      }));
+    },
+  };
+}
+
+/**
+ * Create the CoinGecko crypto provider
+ */
+export function createCoinGeckoProvider(): MarketDataProvider {
+  const apiKey = process.env.COINGECKO_API_KEY;
+  const headers: Record<string, string> = apiKey
+    ? { "x-cg-demo-api-key": apiKey }
+    : {};
+  // CoinGecko prices by coin ID; tickers are resolved once per instance
+  const coinIds = new Map<string, string | null>();
+
+  const request = (path: string, params: Record<string, string | number>) => {
+    const query = new URLSearchParams(
+      Object.entries(params).map(([key, value]) => [key, String(value)]),
+    );
+    return fetchJson(`${COINGECKO_BASE_URL}${path}?${query}`, headers);
+  };
+
+  const searchCoins = async (query: string) => {
+    const data = await request("/search", { query });
+    return (data.coins || []) as CoinGeckoSearchCoin[];
+  };
+
+  // Resolve a ticker to the most valuable coin using it
+  const resolveCoinId = async (symbol: string) => {
+    const ticker = symbol.toUpperCase();
+    if (!coinIds.has(ticker)) {
+      const match = (await searchCoins(ticker))
+        .filter((coin) => coin.symbol?.toUpperCase() === ticker)
+        .sort(
+          (a, b) =>
+            (a.market_cap_rank ?? Infinity) - (b.market_cap_rank ?? Infinity),
+        )[0];
+      coinIds.set(ticker, match?.id || null);
+    }
+    return coinIds.get(ticker) || null;
+  };
+
+  return {
+    name: "coingecko",
+
+    async searchSymbols(query: string): Promise<SymbolMatch[]> {
+      const coins = await searchCoins(query);
+
+      // Results come ranked, so the first coin per ticker is kept
+      return coins.map((coin) => {
+        const ticker = coin.symbol.toUpperCase();
+        if (!coinIds.has(ticker)) coinIds.set(ticker, coin.id);
+        return {
+          symbol: ticker,
+          name: coin.name,
+          exchange: null,
+        };
+      });
+    },
+
+    async getQuote(symbol: string): Promise<MarketQuote | null> {
+      const coinId = await resolveCoinId(symbol);
+      if (!coinId) return null;
+
+      const data = await request("/simple/price", {
+        ids: coinId,
+        vs_currencies: "usd",
+        include_24hr_change: "true",
+        include_last_updated_at: "true",
+      });
+      const price = data[coinId];
+      if (!price || typeof price.usd !== "number") return null;
+
+      const changePercent = price.usd_24h_change ?? null;
+
+      return {
+        symbol: symbol.toUpperCase(),
+        price: price.usd,
+        currency: "USD",
+        change:
+          changePercent !== null
+            ? price.usd - price.usd / (1 + changePercent / 100)
+            : null,
+        changePercent,
+        asOf: new Date(
+          (price.last_updated_at || Date.now() / 1000) * 1000,
+        ).toISOString(),
+        provider: "coingecko",
+      };
+    },
+
+    async getHistoricalCloses(
+      symbol: string,
+      from: string,
+      to: string,
+    ): Promise<DailyClose[]> {
+      const coinId = await resolveCoinId(symbol);
+      if (!coinId) return [];
+
+      const data = await request(`/coins/${coinId}/market_chart/range`, {
+        vs_currency: "usd",
+        from: toUnixSeconds(from),
+        to: toUnixSeconds(to, true),
+      });
+
+      // Keep the last price of each day as its close
+      const closes = new Map<string, number>();
+      for (const [timestamp, price] of (data.prices || []) as [
+        number,
+        number,
+      ][]) {
+        closes.set(new Date(timestamp).toISOString().split("T")[0], price);
+      }
+
+      return Array.from(closes, ([date, close]) => ({ date, close }));
+    },
+  };
+}
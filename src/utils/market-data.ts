@@ -0,0 +1,282 @@
+/**
+ * Server-side market data for stocks and cryptocurrencies
+ *
+ * Search, quotes and historical closes all go through a MarketDataProvider,
+ * chosen per asset class from the environment:
+ * - MARKET_DATA_STOCK_PROVIDER: "fixture" or "finnhub"
+ * - MARKET_DATA_CRYPTO_PROVIDER: "fixture" or "coingecko"
+ *
+ * The fixture provider serves bundled offline data for development and tests,
+ * and is the default only there; elsewhere an unset provider is an error, so
+ * real holdings are never valued at its static prices. The live
+ * adapters read their keys from FINNHUB_API_KEY and COINGECKO_API_KEY, which
+ * never leave the server.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createFixtureProvider } from "./market-data-fixtures";
+import {
+  createCoinGeckoProvider,
+  createFinnhubProvider,
+} from "./market-data-providers";
+
+export type MarketAssetClass = "stock" | "crypto";
+
+export const MARKET_ASSET_CLASSES: MarketAssetClass[] = ["stock", "crypto"];
+
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+}
+
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  currency: string;
+  // Change since the previous close, when the provider reports it
+  change: number | null;
+  changePercent: number | null;
+  asOf: string;
+  provider: string;
+}
+
+export interface DailyClose {
+  date: string;
+  close: number;
+}
+
+export interface MarketDataProvider {
+  name: string;
+  /**
+   * Find symbols whose ticker or name matches a query
+   */
+  searchSymbols(query: string): Promise<SymbolMatch[]>;
+  /**
+   * Fetch the latest price of a symbol, or null if it is unknown
+   */
+  getQuote(symbol: string): Promise<MarketQuote | null>;
+  /**
+   * Fetch daily closes between two dates (YYYY-MM-DD, inclusive), oldest first
+   */
+  getHistoricalCloses(
+    symbol: string,
+    from: string,
+    to: string,
+  ): Promise<DailyClose[]>;
+}
+
+export interface SymbolSearchResult extends SymbolMatch {
+  price: number;
+}
+
+export interface MarketRevaluationSummary {
+  updated: number;
+  unchanged: number;
+  failed: number;
+}
+
+// The metadata asset_type written for each class, and its price field
+const HOLDING_TYPES: Record<
+  MarketAssetClass,
+  { assetType: string; priceField: string }
+> = {
+  stock: { assetType: "stock", priceField: "price_per_share" },
+  crypto: { assetType: "cryptocurrency", priceField: "price_per_unit" },
+};
+
+/**
+ * Check whether a string names a supported asset class
+ * @param value The value to check, e.g. a query parameter
+ */
+export function isMarketAssetClass(value: string): value is MarketAssetClass {
+  return MARKET_ASSET_CLASSES.includes(value as MarketAssetClass);
+}
+
+// Providers are created once per server instance so their caches persist
+const providers = new Map<MarketAssetClass, MarketDataProvider>();
+
+/**
+ * Get the configured provider for an asset class
+ * @param assetClass Stocks or crypto
+ */
+export function getMarketDataProvider(
+  assetClass: MarketAssetClass,
+): MarketDataProvider {
+  let provider = providers.get(assetClass);
+  if (!provider) {
+    provider = createMarketDataProvider(assetClass);
+    providers.set(assetClass, provider);
+  }
+  return provider;
+}
+
+function createMarketDataProvider(
+  assetClass: MarketAssetClass,
+): MarketDataProvider {
+  const variable =
+    assetClass === "stock"
+      ? "MARKET_DATA_STOCK_PROVIDER"
+      : "MARKET_DATA_CRYPTO_PROVIDER";
+  const configured =
+    process.env[variable] ||
+    (process.env.NODE_ENV === "development" || process.env.NODE_ENV === "test"
+      ? "fixture"
+      : undefined);
+
+  if (!configured) {
+    throw new Error(
+      `Market data provider is not configured for ${assetClass}: set ${variable}`,
+    );
+  }
+
+  switch (configured) {
+    case "fixture":
+      return createFixtureProvider(assetClass);
+    case "finnhub":
+      if (assetClass === "stock") return createFinnhubProvider();
+      break;
+    case "coingecko":
+      if (assetClass === "crypto") return createCoinGeckoProvider();
+      break;
+  }
+
+  throw new Error(
+    `Unsupported market data provider for ${assetClass}: ${configured}`,
+  );
+}
+
+/**
+ * Search symbols and attach their latest price
+ * @param assetClass Stocks or crypto
+ * @param query The ticker or name to search for
+ * @param limit How many results to quote
+ */
+export async function searchSymbolsWithQuotes(
+  assetClass: MarketAssetClass,
+  query: string,
+  limit: number = 10,
+): Promise<SymbolSearchResult[]> {
+  const provider = getMarketDataProvider(assetClass);
+  const matches = (await provider.searchSymbols(query)).slice(0, limit);
+
+  const results = await Promise.all(
+    matches.map(async (match) => {
+      try {
+        const quote = await provider.getQuote(match.symbol);
+        return quote ? { ...match, price: quote.price } : null;
+      } catch (error) {
+        console.error(`Error quoting ${match.symbol}:`, error);
+        return null;
+      }
+    }),
+  );
+
+  return results.filter(
+    (result): result is SymbolSearchResult => result !== null,
+  );
+}
+
+/**
+ * Revalue manually added stock and crypto holdings at their latest quote.
+ * Broker-synced holdings are priced by their broker and are left alone.
+ * @param supabase A Supabase client allowed to update the assets
+ * @param userId Limit the run to one user; every user when omitted
+ */
+export async function revalueMarketHoldings(
+  supabase: SupabaseClient,
+  userId?: string,
+): Promise<MarketRevaluationSummary> {
+  let query = supabase
+    .from("assets")
+    .select("id, value, metadata")
+    .eq("is_liability", false)
+    .in(
+      "metadata->>asset_type",
+      MARKET_ASSET_CLASSES.map(
+        (assetClass) => HOLDING_TYPES[assetClass].assetType,
+      ),
+    );
+
+  if (userId) {
+    query = query.eq("user_id", userId);
+  }
+
+  const { data: assets, error } = await query;
+
+  if (error) {
+    console.error("Error fetching market holdings:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const summary: MarketRevaluationSummary = {
+    updated: 0,
+    unchanged: 0,
+    failed: 0,
+  };
+  // Quote each symbol once per run
+  const quotes = new Map<string, Promise<MarketQuote | null>>();
+
+  for (const asset of assets || []) {
+    const metadata = asset.metadata || {};
+    if (metadata.source || !metadata.symbol) continue;
+
+    // Without a quantity there is nothing to multiply the price by, so keep
+    // the value the user entered rather than zeroing it
+    const quantity = Number(metadata.quantity);
+    if (!(quantity > 0)) continue;
+
+    const assetClass = MARKET_ASSET_CLASSES.find(
+      (candidate) => HOLDING_TYPES[candidate].assetType === metadata.asset_type,
+    ) as MarketAssetClass;
+    const { priceField } = HOLDING_TYPES[assetClass];
+    const key = `${assetClass}:${metadata.symbol}`;
+
+    if (!quotes.has(key)) {
+      quotes.set(
+        key,
+        getMarketDataProvider(assetClass)
+          .getQuote(metadata.symbol)
+          .catch((quoteError) => {
+            console.error(`Error quoting ${metadata.symbol}:`, quoteError);
+            return null;
+          }),
+      );
+    }
+
+    const quote = await quotes.get(key);
+    if (!quote) {
+      summary.failed++;
+      continue;
+    }
+
+    const value = quantity * quote.price;
+    if (Math.abs(value - (Number(asset.value) || 0)) < 0.005) {
+      summary.unchanged++;
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("assets")
+      .update({
+        value,
+        value_source: "market_data",
+        metadata: {
+          ...metadata,
+          [priceField]: quote.price,
+          last_priced_at: quote.asOf,
+          price_provider: quote.provider,
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", asset.id);
+
+    if (updateError) {
+      console.error(`Error revaluing asset ${asset.id}:`, updateError);
+      summary.failed++;
+    } else {
+      summary.updated++;
+    }
+  }
+
+  return summary;
+}
@@ -1,11 +1,24 @@
 // Metal API utility functions
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getCachedPrice, type CachedPrice } from "./price-quotes";
 
 const API_KEY = "goldapi-k5asm8bkaaim-io";
 const API_BASE_URL = "https://www.goldapi.io/api";
 
-type MetalSymbol = "XAU" | "XAG" | "XPT" | "XPD";
+export type MetalSymbol = "XAU" | "XAG" | "XPT" | "XPD";
 type Currency = "USD";
 
+export const METAL_SYMBOLS: MetalSymbol[] = ["XAU", "XAG", "XPT", "XPD"];
+
+// How long a cached spot price is served before GoldAPI is asked again.
+// Gold and silver trade most actively, so they refresh more often.
+export const METAL_PRICE_TTL_SECONDS: Record<MetalSymbol, number> = {
+  XAU: 15 * 60,
+  XAG: 15 * 60,
+  XPT: 60 * 60,
+  XPD: 60 * 60,
+};
+
 interface MetalPrice {
   price: number;
   currency: Currency;
@@ -69,3 +82,35 @@ export function getMetalSymbol(metalType: string): MetalSymbol {
       throw new Error(`Unsupported metal type: ${metalType}`);
   }
 }
+
+/**
+ * Get the spot price of a metal through the price_quotes cache
+ * @param supabase A Supabase client with the service role
+ * @param metal The metal symbol (XAU, XAG, XPT, XPD)
+ * @param currency The currency code (USD)
+ * @param revalidateInBackground Serve an expired price while refreshing it
+ * @returns The cached or refreshed price, with its fresh/stale status
+ */
+export async function getMetalSpotPrice(
+  supabase: SupabaseClient,
+  metal: MetalSymbol,
+  currency: Currency = "USD",
+  revalidateInBackground: boolean = true,
+): Promise<CachedPrice> {
+  return getCachedPrice(
+    supabase,
+    {
+      symbol: metal,
+      currency,
+      ttlSeconds: METAL_PRICE_TTL_SECONDS[metal],
+      fetchPrice: async () => {
+        const data = await fetchMetalPrice(metal, currency);
+        if (typeof data.price !== "number" || !(data.price > 0)) {
+          throw new Error(`Invalid price for ${metal}: ${data.price}`);
+        }
+        return { price: data.price, source: "goldapi" };
+      },
+    },
+    revalidateInBackground,
+  );
+}
@@ -0,0 +1,365 @@
+/**
+ * Valuation of precious-metal holdings at the current spot price
+ *
+ * Holdings added through AddMetalForm store in assets.metadata:
+ * - metal_type, quantity and unit (ounce, gram, kilogram, tola or piece)
+ * - purity: the fineness as a fraction of 1, e.g. 0.9167 for 22 karat
+ * - fine_ounces_per_unit: the fine weight of one piece, for catalog products
+ * - premium_percent: the dealer premium paid over spot
+ *
+ * Their value is the fine weight in troy ounces times the spot price per
+ * ounce, plus the premium.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getMetalSpotPrice,
+  getMetalSymbol,
+  type MetalSymbol,
+} from "./metal-api";
+import type { CachedPrice } from "./price-quotes";
+
+export const GRAMS_PER_TROY_OUNCE = 31.1035;
+
+export type MetalUnit = "ounce" | "gram" | "kilogram" | "tola";
+
+// Troy ounces in one of each weight unit
+export const METAL_UNIT_OUNCES: Record<MetalUnit, number> = {
+  ounce: 1,
+  gram: 1 / GRAMS_PER_TROY_OUNCE,
+  kilogram: 1000 / GRAMS_PER_TROY_OUNCE,
+  tola: 11.6638 / GRAMS_PER_TROY_OUNCE,
+};
+
+export const METAL_UNIT_LABELS: Record<MetalUnit, string> = {
+  ounce: "Troy ounce",
+  gram: "Gram",
+  kilogram: "Kilogram",
+  tola: "Tola",
+};
+
+export interface MetalPurity {
+  label: string;
+  purity: number;
+}
+
+// Common finenesses per metal; the first is the default
+export const METAL_PURITIES: Record<string, MetalPurity[]> = {
+  gold: [
+    { label: "24K (999.9)", purity: 0.9999 },
+    { label: "24K (999)", purity: 0.999 },
+    { label: "22K (916)", purity: 0.9167 },
+    { label: "21K (875)", purity: 0.875 },
+    { label: "18K (750)", purity: 0.75 },
+    { label: "14K (585)", purity: 0.585 },
+    { label: "10K (417)", purity: 0.417 },
+    { label: "9K (375)", purity: 0.375 },
+  ],
+  silver: [
+    { label: "Fine (999)", purity: 0.999 },
+    { label: "Britannia (958)", purity: 0.958 },
+    { label: "Sterling (925)", purity: 0.925 },
+    { label: "Coin (900)", purity: 0.9 },
+    { label: "800", purity: 0.8 },
+  ],
+  platinum: [
+    { label: "999.5", purity: 0.9995 },
+    { label: "950", purity: 0.95 },
+    { label: "900", purity: 0.9 },
+  ],
+  palladium: [
+    { label: "999.5", purity: 0.9995 },
+    { label: "950", purity: 0.95 },
+  ],
+};
+
+export interface MetalProduct {
+  id: string;
+  name: string;
+  metal: string;
+  // Gross weight of one piece
+  weight: number;
+  unit: MetalUnit;
+  purity: number;
+}
+
+// Common bullion coins and bars
+export const METAL_PRODUCTS: MetalProduct[] = [
+  {
+    id: "gold-eagle-1oz",
+    name: "American Gold Eagle (1 oz)",
+    metal: "gold",
+    weight: 1.0909,
+    unit: "ounce",
+    purity: 0.9167,
+  },
+  {
+    id: "gold-eagle-tenth-oz",
+    name: "American Gold Eagle (1/10 oz)",
+    metal: "gold",
+    weight: 0.1091,
+    unit: "ounce",
+    purity: 0.9167,
+  },
+  {
+    id: "gold-maple-1oz",
+    name: "Canadian Gold Maple Leaf (1 oz)",
+    metal: "gold",
+    weight: 1,
+    unit: "ounce",
+    purity: 0.9999,
+  },
+  {
+    id: "krugerrand-1oz",
+    name: "South African Krugerrand (1 oz)",
+    metal: "gold",
+    weight: 1.0909,
+    unit: "ounce",
+    purity: 0.9167,
+  },
+  {
+    id: "gold-bar-1oz",
+    name: "Gold Bar (1 oz)",
+    metal: "gold",
+    weight: 1,
+    unit: "ounce",
+    purity: 0.9999,
+  },
+  {
+    id: "gold-bar-100g",
+    name: "Gold Bar (100 g)",
+    metal: "gold",
+    weight: 100,
+    unit: "gram",
+    purity: 0.9999,
+  },
+  {
+    id: "gold-bar-1kg",
+    name: "Gold Bar (1 kg)",
+    metal: "gold",
+    weight: 1,
+    unit: "kilogram",
+    purity: 0.9999,
+  },
+  {
+    id: "gold-bar-10-tola",
+    name: "Gold Bar (10 tola)",
+    metal: "gold",
+    weight: 10,
+    unit: "tola",
+    purity: 0.999,
+  },
+  {
+    id: "silver-eagle-1oz",
+    name: "American Silver Eagle (1 oz)",
+    metal: "silver",
+    weight: 1,
+    unit: "ounce",
+    purity: 0.999,
+  },
+  {
+    id: "silver-maple-1oz",
+    name: "Canadian Silver Maple Leaf (1 oz)",
+    metal: "silver",
+    weight: 1,
+    unit: "ounce",
+    purity: 0.9999,
+  },
+  {
+    id: "silver-bar-10oz",
+    name: "Silver Bar (10 oz)",
+    metal: "silver",
+    weight: 10,
+    unit: "ounce",
+    purity: 0.999,
+  },
+  {
+    id: "silver-bar-1kg",
+    name: "Silver Bar (1 kg)",
+    metal: "silver",
+    weight: 1,
+    unit: "kilogram",
+    purity: 0.999,
+  },
+  {
+    id: "platinum-eagle-1oz",
+    name: "American Platinum Eagle (1 oz)",
+    metal: "platinum",
+    weight: 1,
+    unit: "ounce",
+    purity: 0.9995,
+  },
+  {
+    id: "palladium-maple-1oz",
+    name: "Canadian Palladium Maple Leaf (1 oz)",
+    metal: "palladium",
+    weight: 1,
+    unit: "ounce",
+    purity: 0.9995,
+  },
+];
+
+export interface MetalRevaluationSummary {
+  updated: number;
+  unchanged: number;
+  // Holdings left alone because no fresh spot price was available
+  stale: number;
+  failed: number;
+}
+
+/**
+ * Calculate the fine weight of one piece of a catalog product
+ * @param product The bullion product
+ */
+export function getProductFineOunces(product: MetalProduct) {
+  return product.weight * METAL_UNIT_OUNCES[product.unit] * product.purity;
+}
+
+/**
+ * Calculate the fine weight of a holding in troy ounces
+ * @param metadata The asset's metadata
+ * @returns The fine weight, or null if the unit is unknown
+ */
+export function getFineOunces(metadata: Record<string, any>): number | null {
+  const quantity = Number(metadata.quantity) || 0;
+
+  if (metadata.unit === "piece") {
+    const perPiece = Number(metadata.fine_ounces_per_unit);
+    return perPiece > 0 ? quantity * perPiece : null;
+  }
+
+  const unitOunces = METAL_UNIT_OUNCES[(metadata.unit || "ounce") as MetalUnit];
+  if (!unitOunces) return null;
+
+  const purity = metadata.purity != null ? Number(metadata.purity) : 1;
+
+  return quantity * unitOunces * purity;
+}
+
+/**
+ * Value a holding at a spot price
+ * @param metadata The asset's metadata
+ * @param spotPrice The spot price per troy ounce
+ * @returns The value and price per holding unit, or null if it can't be valued
+ */
+export function valueMetalHolding(
+  metadata: Record<string, any>,
+  spotPrice: number,
+) {
+  const fineOunces = getFineOunces(metadata);
+  if (fineOunces === null) return null;
+
+  const quantity = Number(metadata.quantity) || 0;
+  const premium = 1 + (Number(metadata.premium_percent) || 0) / 100;
+  const value = Math.round(fineOunces * spotPrice * premium * 100) / 100;
+
+  return {
+    value,
+    fineOunces,
+    pricePerUnit: quantity > 0 ? value / quantity : 0,
+  };
+}
+
+/**
+ * Revalue every stored precious-metal holding at the cached spot price.
+ * Each change is written with value_source "metal_price", so the asset
+ * history triggers record it.
+ * @param supabase A Supabase client with the service role
+ */
+export async function revalueMetalHoldings(
+  supabase: SupabaseClient,
+): Promise<MetalRevaluationSummary> {
+  const { data: assets, error } = await supabase
+    .from("assets")
+    .select("id, value, metadata")
+    .eq("is_liability", false)
+    .eq("metadata->>asset_type", "precious_metal");
+
+  if (error) {
+    console.error("Error fetching metal holdings:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const summary: MetalRevaluationSummary = {
+    updated: 0,
+    unchanged: 0,
+    stale: 0,
+    failed: 0,
+  };
+  // Fetch each metal's spot price once per run
+  const prices = new Map<MetalSymbol, Promise<CachedPrice | null>>();
+
+  for (const asset of assets || []) {
+    const metadata = asset.metadata || {};
+
+    // Keep the entered value of holdings recorded without a quantity
+    if (!(Number(metadata.quantity) > 0)) continue;
+
+    let symbol: MetalSymbol;
+    try {
+      symbol = getMetalSymbol(metadata.metal_type);
+    } catch {
+      summary.failed++;
+      continue;
+    }
+
+    if (!prices.has(symbol)) {
+      prices.set(
+        symbol,
+        getMetalSpotPrice(supabase, symbol, "USD", false).catch(
+          (priceError) => {
+            console.error(`Error fetching ${symbol} spot price:`, priceError);
+            return null;
+          },
+        ),
+      );
+    }
+
+    const spot = await prices.get(symbol);
+    if (!spot) {
+      summary.failed++;
+      continue;
+    }
+
+    if (spot.status === "stale") {
+      summary.stale++;
+      continue;
+    }
+
+    const valuation = valueMetalHolding(metadata, spot.price);
+    if (!valuation) {
+      summary.failed++;
+      continue;
+    }
+
+    if (Math.abs(valuation.value - (Number(asset.value) || 0)) < 0.005) {
+      summary.unchanged++;
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("assets")
+      .update({
+        value: valuation.value,
+        value_source: "metal_price",
+        metadata: {
+          ...metadata,
+          price_per_unit: valuation.pricePerUnit,
+          price_per_share: valuation.pricePerUnit,
+          fine_ounces: valuation.fineOunces,
+          spot_price: spot.price,
+          price_fetched_at: spot.fetchedAt,
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", asset.id);
+
+    if (updateError) {
+      console.error(`Error revaluing asset ${asset.id}:`, updateError);
+      summary.failed++;
+    } else {
+      summary.updated++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,180 @@
+/**
+ * Functions for recording and querying daily net worth snapshots
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type Timeframe = "1d" | "7d" | "1m" | "ytd" | "1y" | "all";
+
+export const TIMEFRAMES: Timeframe[] = ["1d", "7d", "1m", "ytd", "1y", "all"];
+
+export interface NetWorthPoint {
+  date: string;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  // The base currency the snapshot was recorded in
+  currency: string;
+}
+
+/**
+ * Check if a value is a supported chart timeframe
+ * @param value The value to check
+ */
+export function isTimeframe(value: string | null): value is Timeframe {
+  return !!value && (TIMEFRAMES as string[]).includes(value);
+}
+
+/**
+ * Get the first day included in a timeframe
+ * @param timeframe The chart timeframe
+ * @param now The reference date, defaults to today
+ * @returns The start date, or null for "all"
+ */
+export function getTimeframeStartDate(
+  timeframe: Timeframe,
+  now: Date = new Date(),
+): Date | null {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  switch (timeframe) {
+    case "1d":
+      start.setDate(start.getDate() - 1);
+      return start;
+    case "7d":
+      start.setDate(start.getDate() - 7);
+      return start;
+    case "1m":
+      start.setMonth(start.getMonth() - 1);
+      return start;
+    case "ytd":
+      return new Date(now.getFullYear(), 0, 1);
+    case "1y":
+      start.setFullYear(start.getFullYear() - 1);
+      return start;
+    case "all":
+      return null;
+  }
+}
+
+/**
+ * Format a date as the YYYY-MM-DD string used by snapshot_date columns
+ * @param date The date to format
+ */
+export function toSnapshotDate(date: Date) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Record today's asset values and net worth
+ * @param supabase A Supabase client. With a user session only that user's
+ * assets are snapshotted; with the service role every user is.
+ * @returns The number of net worth rows written
+ */
+export async function recordNetWorthSnapshots(supabase: SupabaseClient) {
+  const { data, error } = await supabase.rpc("record_net_worth_snapshots");
+
+  if (error) {
+    console.error("Error recording net worth snapshots:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return (data as number) || 0;
+}
+
+/**
+ * Fetch the net worth series for a timeframe
+ * @param supabase A Supabase client with the user's session
+ * @param userId The user ID to fetch history for
+ * @param timeframe The chart timeframe
+ */
+export async function fetchNetWorthHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  timeframe: Timeframe,
+): Promise<NetWorthPoint[]> {
+  let query = supabase
+    .from("net_worth_history")
+    .select(
+      "snapshot_date, total_assets, total_liabilities, net_worth, currency",
+    )
+    .eq("user_id", userId)
+    .order("snapshot_date", { ascending: true });
+
+  const startDate = getTimeframeStartDate(timeframe);
+  if (startDate) {
+    query = query.gte("snapshot_date", toSnapshotDate(startDate));
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching net worth history:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    date: row.snapshot_date,
+    totalAssets: Number(row.total_assets),
+    totalLiabilities: Number(row.total_liabilities),
+    netWorth: Number(row.net_worth),
+    currency: row.currency || "USD",
+  }));
+}
+
+/**
+ * Calculate the percentage change of net worth against a past snapshot
+ * @param supabase A Supabase client with the user's session
+ * @param userId The user ID to compare
+ * @param currentNetWorth The live net worth
+ * @param currency The currency of the live net worth; snapshots recorded in
+ * another currency are not compared
+ * @param days How far back to compare, defaults to one month
+ * @returns The percentage change, or 0 when there is no earlier snapshot
+ */
+export async function fetchNetWorthChange(
+  supabase: SupabaseClient,
+  userId: string,
+  currentNetWorth: number,
+  currency: string = "USD",
+  days: number = 30,
+) {
+  const compareDate = new Date();
+  compareDate.setDate(compareDate.getDate() - days);
+
+  // Latest snapshot taken on or before the comparison date
+  const { data, error } = await supabase
+    .from("net_worth_history")
+    .select("net_worth")
+    .eq("user_id", userId)
+    .eq("currency", currency)
+    .lte("snapshot_date", toSnapshotDate(compareDate))
+    .order("snapshot_date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching net worth change:", error);
+    return 0;
+  }
+
+  return calculateChangePercentage(
+    data ? Number(data.net_worth) : null,
+    currentNetWorth,
+  );
+}
+
+/**
+ * Calculate the percentage change between two net worth values
+ * @param previous The earlier value, or null if unknown
+ * @param current The later value
+ */
+export function calculateChangePercentage(
+  previous: number | null,
+  current: number,
+) {
+  if (previous === null || previous === 0) return 0;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
@@ -0,0 +1,204 @@
+/**
+ * Passive income estimates computed from the user's assets
+ *
+ * Stocks and cash accounts carry their rate in metadata:
+ * - dividend_yield: annual dividend yield (%) for stocks and funds
+ * - interest_rate: annual interest rate (%) for cash accounts and balances
+ *
+ * Holdings without a dividend yield fall back to the dividends actually
+ * received over the last twelve months, from the transactions table.
+ *
+ * Real estate earns its cash flow after operating costs and mortgage
+ * payments, from the property's rent roll (see rental-income.ts).
+ */
+import type { RentalMetrics } from "./rental-income";
+
+export type IncomeSourceType = "dividends" | "rent" | "interest";
+
+// Sources whose rate is kept in the asset's metadata
+export type RatedIncomeSourceType = Exclude<IncomeSourceType, "rent">;
+
+// The metadata key holding each source's rate
+export const INCOME_RATE_FIELDS: Record<RatedIncomeSourceType, string> = {
+  dividends: "dividend_yield",
+  interest: "interest_rate",
+};
+
+export const INCOME_SOURCE_LABELS: Record<IncomeSourceType, string> = {
+  dividends: "Dividend Stocks",
+  rent: "Rental Property",
+  interest: "Interest",
+};
+
+export interface AssetIncome {
+  assetId: string;
+  name: string;
+  type: IncomeSourceType;
+  value: number;
+  // The stored rate as a percentage, or the gross monthly rent
+  rate: number;
+  annualIncome: number;
+  monthlyIncome: number;
+  // Annual income as a percentage of the asset's value
+  yield: number;
+  // Whether the estimate uses the stored rate, trailing dividends or the
+  // rent roll
+  basis: "rate" | "trailing" | "rental";
+  rental?: RentalMetrics;
+}
+
+export interface IncomeSourceSummary {
+  type: IncomeSourceType;
+  label: string;
+  annualIncome: number;
+  monthlyIncome: number;
+  percentage: number;
+  assets: AssetIncome[];
+}
+
+export interface PassiveIncomeSummary {
+  monthlyIncome: number;
+  annualIncome: number;
+  // Annual income over the value of every asset
+  portfolioYield: number;
+  totalAssetValue: number;
+  sources: IncomeSourceSummary[];
+  assets: AssetIncome[];
+}
+
+/**
+ * Work out which kind of income an asset can produce
+ * @param asset An assets row with its category
+ * @returns The income source type, or null if the asset produces none
+ */
+export function getIncomeSourceType(asset: any): IncomeSourceType | null {
+  if (asset.is_liability) return null;
+
+  const metadata = asset.metadata || {};
+  if (metadata.position_status === "closed") return null;
+
+  const slug = asset.asset_categories?.slug;
+
+  if (slug === "real-estate") return "rent";
+  if (slug === "cash" || metadata.asset_type === "cash") return "interest";
+  if (
+    metadata.asset_type === "stock" ||
+    (slug === "investments" && metadata.source === "snaptrade")
+  ) {
+    return "dividends";
+  }
+
+  return null;
+}
+
+/**
+ * Estimate the income of a single asset
+ * @param asset An assets row with its category
+ * @param trailingDividends Dividends received over the last twelve months
+ * @param rental The property's rental metrics, for real estate
+ * @returns The income estimate, or null if the asset produces none
+ */
+export function getAssetIncome(
+  asset: any,
+  trailingDividends: number = 0,
+  rental?: RentalMetrics,
+): AssetIncome | null {
+  const type = getIncomeSourceType(asset);
+  if (!type) return null;
+
+  const value = Number(asset.value) || 0;
+
+  if (type === "rent") {
+    const annualIncome = rental?.annualCashFlow ?? 0;
+
+    return {
+      assetId: asset.id,
+      name: asset.name,
+      type,
+      value,
+      rate: rental?.grossMonthlyRent ?? 0,
+      annualIncome,
+      monthlyIncome: annualIncome / 12,
+      yield: value > 0 ? (annualIncome / value) * 100 : 0,
+      basis: "rental",
+      rental,
+    };
+  }
+
+  const rate = Number(asset.metadata?.[INCOME_RATE_FIELDS[type]]) || 0;
+  const useTrailing =
+    type === "dividends" && rate === 0 && trailingDividends > 0;
+  const annualIncome = useTrailing ? trailingDividends : (value * rate) / 100;
+
+  return {
+    assetId: asset.id,
+    name: asset.name,
+    type,
+    value,
+    rate,
+    annualIncome,
+    monthlyIncome: annualIncome / 12,
+    yield: value > 0 ? (annualIncome / value) * 100 : 0,
+    basis: useTrailing ? "trailing" : "rate",
+  };
+}
+
+/**
+ * Summarize passive income across a user's assets
+ * @param assets The user's assets rows, with asset_categories joined
+ * @param dividendsByAsset Trailing twelve-month dividends keyed by asset ID
+ * @param rentalByAsset Rental metrics keyed by property asset ID
+ */
+export function summarizePassiveIncome(
+  assets: any[],
+  dividendsByAsset: Record<string, number> = {},
+  rentalByAsset: Record<string, RentalMetrics> = {},
+): PassiveIncomeSummary {
+  const incomes = assets
+    .map((asset) =>
+      getAssetIncome(
+        asset,
+        dividendsByAsset[asset.id],
+        rentalByAsset[asset.id],
+      ),
+    )
+    .filter((income): income is AssetIncome => income !== null);
+
+  const annualIncome = incomes.reduce(
+    (sum, income) => sum + income.annualIncome,
+    0,
+  );
+  const totalAssetValue = assets
+    .filter((asset) => !asset.is_liability)
+    .reduce((sum, asset) => sum + (Number(asset.value) || 0), 0);
+
+  const sources = (Object.keys(INCOME_SOURCE_LABELS) as IncomeSourceType[])
+    .map((type) => {
+      const sourceAssets = incomes.filter((income) => income.type === type);
+      const sourceAnnual = sourceAssets.reduce(
+        (sum, income) => sum + income.annualIncome,
+        0,
+      );
+
+      return {
+        type,
+        label: INCOME_SOURCE_LABELS[type],
+        annualIncome: sourceAnnual,
+        monthlyIncome: sourceAnnual / 12,
+        percentage: annualIncome > 0 ? (sourceAnnual / annualIncome) * 100 : 0,
+        assets: sourceAssets,
+      };
+    })
+    .filter((source) => source.assets.length > 0)
+    .sort((a, b) => b.annualIncome - a.annualIncome);
+
+  return {
+    monthlyIncome: annualIncome / 12,
+    annualIncome,
+    portfolioYield:
+      totalAssetValue > 0 ? (annualIncome / totalAssetValue) * 100 : 0,
+    totalAssetValue,
+    sources,
+    assets: incomes,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Cached price quotes backed by the price_quotes table
+ *
+ * Quotes are served from the cache while younger than their TTL. Once
+ * expired they are still served, marked "stale", while a refresh runs in the
+ * background; past the stale-while-revalidate window the refresh is awaited.
+ * If the upstream API fails the cached quote is returned as "stale" rather
+ * than replaced by a made-up price. The last quote of each day is kept in
+ * price_history as that day's close.
+ *
+ * Writes need the service role, so pass an admin client.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DailyClose } from "./market-data";
+import { toSnapshotDate } from "./net-worth-history";
+
+export type PriceStatus = "fresh" | "stale";
+
+export interface CachedPrice {
+  symbol: string;
+  currency: string;
+  price: number;
+  source: string;
+  fetchedAt: string;
+  status: PriceStatus;
+}
+
+export interface FetchedPrice {
+  price: number;
+  source: string;
+}
+
+export interface PriceQuoteRequest {
+  symbol: string;
+  currency: string;
+  // How long a quote is served without revalidating
+  ttlSeconds: number;
+  // Fetch the live price from the upstream API
+  fetchPrice: () => Promise<FetchedPrice>;
+}
+
+// How long past its TTL an expired quote may be served while refreshing
+export const STALE_WHILE_REVALIDATE_SECONDS = 60 * 60;
+
+// Refreshes in flight, so concurrent requests share one upstream call
+const refreshes = new Map<string, Promise<CachedPrice>>();
+
+/**
+ * Fetch a live price and store it as the cached quote and today's close
+ * @param supabase A Supabase client with the service role
+ * @param request The symbol to refresh and how to fetch it
+ */
+async function refreshPrice(
+  supabase: SupabaseClient,
+  request: PriceQuoteRequest,
+): Promise<CachedPrice> {
+  const key = `${request.symbol}:${request.currency}`;
+  const pending = refreshes.get(key);
+  if (pending) return pending;
+
+  const refresh = (async () => {
+    const fetched = await request.fetchPrice();
+    const fetchedAt = new Date();
+
+    const { error: quoteError } = await supabase.from("price_quotes").upsert(
+      {
+        symbol: request.symbol,
+        currency: request.currency,
+        price: fetched.price,
+        source: fetched.source,
+        ttl_seconds: request.ttlSeconds,
+        fetched_at: fetchedAt.toISOString(),
+        updated_at: fetchedAt.toISOString(),
+      },
+      { onConflict: "symbol,currency" },
+    );
+
+    if (quoteError) {
+      console.error(`Error caching price for ${key}:`, quoteError);
+    }
+
+    const { error: historyError } = await supabase.from("price_history").upsert(
+      {
+        symbol: request.symbol,
+        currency: request.currency,
+        date: toSnapshotDate(fetchedAt),
+        close: fetched.price,
+        source: fetched.source,
+        updated_at: fetchedAt.toISOString(),
+      },
+      { onConflict: "symbol,currency,date" },
+    );
+
+    if (historyError) {
+      console.error(`Error recording close for ${key}:`, historyError);
+    }
+
+    return {
+      symbol: request.symbol,
+      currency: request.currency,
+      price: fetched.price,
+      source: fetched.source,
+      fetchedAt: fetchedAt.toISOString(),
+      status: "fresh" as PriceStatus,
+    };
+  })();
+
+  refreshes.set(key, refresh);
+  try {
+    return await refresh;
+  } finally {
+    refreshes.delete(key);
+  }
+}
+
+/**
+ * Get a price from the cache, refreshing it when it has expired
+ * @param supabase A Supabase client with the service role
+ * @param request The symbol to quote, its TTL and how to fetch it
+ * @param revalidateInBackground Serve expired quotes while refreshing them.
+ * Scheduled jobs pass false to wait for the refreshed price.
+ * @returns The quote and whether it is fresh or stale. Throws only when
+ * nothing is cached and the upstream API fails.
+ */
+export async function getCachedPrice(
+  supabase: SupabaseClient,
+  request: PriceQuoteRequest,
+  revalidateInBackground: boolean = true,
+): Promise<CachedPrice> {
+  const { data: cached, error } = await supabase
+    .from("price_quotes")
+    .select("price, source, fetched_at, ttl_seconds")
+    .eq("symbol", request.symbol)
+    .eq("currency", request.currency)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error reading cached price:", error);
+  }
+
+  if (!cached) {
+    return refreshPrice(supabase, request);
+  }
+
+  const cachedPrice: CachedPrice = {
+    symbol: request.symbol,
+    currency: request.currency,
+    price: Number(cached.price),
+    source: cached.source,
+    fetchedAt: cached.fetched_at,
+    status: "fresh",
+  };
+  const ageSeconds =
+    (Date.now() - new Date(cached.fetched_at).getTime()) / 1000;
+  const ttlSeconds = cached.ttl_seconds ?? request.ttlSeconds;
+
+  if (ageSeconds < ttlSeconds) {
+    return cachedPrice;
+  }
+
+  if (
+    revalidateInBackground &&
+    ageSeconds < ttlSeconds + STALE_WHILE_REVALIDATE_SECONDS
+  ) {
+    // Serve the expired quote now and refresh it for the next request
+    refreshPrice(supabase, request).catch((refreshError) =>
+      console.error(
+        `Error revalidating price for ${request.symbol}:`,
+        refreshError,
+      ),
+    );
+    return { ...cachedPrice, status: "stale" };
+  }
+
+  try {
+    return await refreshPrice(supabase, request);
+  } catch (refreshError) {
+    console.error(
+      `Error refreshing price for ${request.symbol}:`,
+      refreshError,
+    );
+    return { ...cachedPrice, status: "stale" };
+  }
+}
+
+/**
+ * Fetch the recorded daily closes of a symbol, oldest first
+ * @param supabase A Supabase client
+ * @param symbol The quoted symbol
+ * @param currency The quote currency
+ * @param days How many days of history to include
+ */
+export async function fetchPriceHistory(
+  supabase: SupabaseClient,
+  symbol: string,
+  currency: string,
+  days: number = 365,
+): Promise<DailyClose[]> {
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  const { data, error } = await supabase
+    .from("price_history")
+    .select("date, close")
+    .eq("symbol", symbol)
+    .eq("currency", currency)
+    .gte("date", toSnapshotDate(since))
+    .order("date", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching price history:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    date: row.date,
+    close: Number(row.close),
+  }));
+}
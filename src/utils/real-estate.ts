@@ -0,0 +1,478 @@
+/**
+ * Real-estate valuation, equity and loan-to-value
+ *
+ * Each real-estate asset has a properties row with its type and valuation
+ * method, and optionally dated appraisals in property_appraisals:
+ * - "appreciation" grows the latest appraisal, or the purchase price, at the
+ *   property's yearly appreciation rate
+ * - "appraisal" uses the latest appraisal as is
+ *
+ * Mortgages link to the property through liability_details.secured_asset_id.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AssetHistoryPoint } from "./asset-history";
+import { projectLiability, type LiabilityDetails } from "./liabilities";
+import { toSnapshotDate } from "./net-worth-history";
+
+export const PROPERTY_TYPES = [
+  { value: "single_family", label: "Single-Family Home" },
+  { value: "condo", label: "Condo" },
+  { value: "townhouse", label: "Townhouse" },
+  { value: "multi_family", label: "Multi-Family" },
+  { value: "land", label: "Land" },
+  { value: "commercial", label: "Commercial" },
+  { value: "other", label: "Other" },
+] as const;
+
+export type PropertyType = (typeof PROPERTY_TYPES)[number]["value"];
+
+export const PROPERTY_VALUATION_METHODS = [
+  { value: "appreciation", label: "Yearly appreciation" },
+  { value: "appraisal", label: "Latest appraisal" },
+] as const;
+
+export type PropertyValuationMethod =
+  (typeof PROPERTY_VALUATION_METHODS)[number]["value"];
+
+export const APPRAISAL_SOURCES = [
+  { value: "appraisal", label: "Appraisal" },
+  { value: "assessment", label: "Tax assessment" },
+  { value: "estimate", label: "Estimate" },
+  { value: "purchase", label: "Purchase" },
+] as const;
+
+export const DEFAULT_APPRECIATION_RATE = 3;
+export const DEFAULT_VACANCY_RATE = 5;
+
+export interface PropertyDetails {
+  assetId: string;
+  propertyType: PropertyType;
+  valuationMethod: PropertyValuationMethod;
+  // Yearly appreciation as a percentage, e.g. 3.5
+  appreciationRate: number;
+  // Operating costs when the property is rented out, see rental-income.ts
+  vacancyRate: number;
+  annualPropertyTax: number;
+  annualInsurance: number;
+  monthlyHoa: number;
+  annualMaintenance: number;
+  // Down payment and closing costs, or null if not recorded
+  cashInvested: number | null;
+}
+
+export interface PropertyAppraisal {
+  id: string;
+  appraisedOn: string;
+  value: number;
+  source: string;
+  notes: string | null;
+}
+
+// A known value the estimate grows from
+export interface ValuationBasis {
+  date: string;
+  value: number;
+}
+
+export interface PropertyMortgage {
+  balance: number;
+  details?: LiabilityDetails;
+  // Recorded balances, oldest first
+  history: AssetHistoryPoint[];
+}
+
+export interface PropertyRevaluationSummary {
+  valued: number;
+  // Properties with no appraisal or purchase price to value them from
+  skipped: number;
+  failed: number;
+}
+
+export interface PropertyTimelinePoint {
+  date: string;
+  value: number;
+  loanBalance: number;
+  equity: number;
+  projected: boolean;
+}
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Get the display label of a property type
+ * @param propertyType The stored property type
+ */
+export function getPropertyTypeLabel(propertyType?: string | null) {
+  return (
+    PROPERTY_TYPES.find((type) => type.value === propertyType)?.label ||
+    "Property"
+  );
+}
+
+/**
+ * Map a properties row to PropertyDetails
+ * @param row The row returned by Supabase
+ */
+export function toPropertyDetails(row: any): PropertyDetails {
+  return {
+    assetId: row.asset_id,
+    propertyType: row.property_type || "other",
+    valuationMethod: row.valuation_method || "appreciation",
+    appreciationRate:
+      row.appreciation_rate != null
+        ? Number(row.appreciation_rate)
+        : DEFAULT_APPRECIATION_RATE,
+    vacancyRate:
+      row.vacancy_rate != null
+        ? Number(row.vacancy_rate)
+        : DEFAULT_VACANCY_RATE,
+    annualPropertyTax: Number(row.annual_property_tax) || 0,
+    annualInsurance: Number(row.annual_insurance) || 0,
+    monthlyHoa: Number(row.monthly_hoa) || 0,
+    annualMaintenance: Number(row.annual_maintenance) || 0,
+    cashInvested: row.cash_invested != null ? Number(row.cash_invested) : null,
+  };
+}
+
+/**
+ * Fetch property details for a set of real-estate assets
+ * @param supabase A Supabase client
+ * @param assetIds The property asset IDs
+ * @returns Details keyed by asset ID; assets without details are omitted
+ */
+export async function fetchPropertyDetails(
+  supabase: SupabaseClient,
+  assetIds: string[],
+): Promise<Record<string, PropertyDetails>> {
+  if (assetIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("properties")
+    .select("*")
+    .in("asset_id", assetIds);
+
+  if (error) {
+    console.error("Error fetching property details:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const detailsByAsset: Record<string, PropertyDetails> = {};
+  for (const row of data || []) {
+    detailsByAsset[row.asset_id] = toPropertyDetails(row);
+  }
+
+  return detailsByAsset;
+}
+
+/**
+ * Fetch the appraisals of a property, oldest first
+ * @param supabase A Supabase client
+ * @param assetId The property asset ID
+ */
+export async function fetchAppraisals(
+  supabase: SupabaseClient,
+  assetId: string,
+): Promise<PropertyAppraisal[]> {
+  const { data, error } = await supabase
+    .from("property_appraisals")
+    .select("id, appraised_on, value, source, notes")
+    .eq("asset_id", assetId)
+    .order("appraised_on", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching appraisals:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    appraisedOn: row.appraised_on,
+    value: Number(row.value),
+    source: row.source,
+    notes: row.notes,
+  }));
+}
+
+/**
+ * Find the latest known value of a property on a date: the last appraisal
+ * on or before it, else the purchase price
+ * @param asset The property's assets row
+ * @param appraisals The property's appraisals, oldest first
+ * @param date The date to value the property on (YYYY-MM-DD)
+ * @returns The basis, or null if nothing was known yet on that date
+ */
+export function getValuationBasis(
+  asset: { acquisition_date?: string | null; acquisition_value?: any },
+  appraisals: PropertyAppraisal[],
+  date: string,
+): ValuationBasis | null {
+  const appraisal = appraisals
+    .filter((candidate) => candidate.appraisedOn <= date)
+    .at(-1);
+  if (appraisal) {
+    return { date: appraisal.appraisedOn, value: appraisal.value };
+  }
+
+  const purchaseDate = asset.acquisition_date?.slice(0, 10);
+  if (purchaseDate && purchaseDate <= date && asset.acquisition_value) {
+    return { date: purchaseDate, value: Number(asset.acquisition_value) };
+  }
+
+  return null;
+}
+
+/**
+ * Estimate a property's value on a date from a known value
+ * @param details The property's valuation method and appreciation rate
+ * @param basis The latest known value
+ * @param date The date to value the property on (YYYY-MM-DD)
+ */
+export function estimatePropertyValue(
+  details: PropertyDetails,
+  basis: ValuationBasis,
+  date: string,
+) {
+  if (details.valuationMethod === "appraisal") return basis.value;
+
+  const years =
+    (new Date(`${date}T00:00:00`).getTime() -
+      new Date(`${basis.date}T00:00:00`).getTime()) /
+    MS_PER_YEAR;
+
+  return (
+    Math.round(
+      basis.value *
+        Math.pow(1 + details.appreciationRate / 100, Math.max(0, years)) *
+        100,
+    ) / 100
+  );
+}
+
+/**
+ * Calculate the loan-to-value ratio
+ * @param loanBalance The total balance of the loans secured by the property
+ * @param value The property's value
+ * @returns The ratio as a percentage, or null if the value is zero
+ */
+export function calculateLtv(loanBalance: number, value: number) {
+  return value > 0 ? (loanBalance / value) * 100 : null;
+}
+
+/**
+ * Get a mortgage's balance on a date: the last recorded balance for past
+ * dates and the amortization schedule for future ones
+ */
+function getMortgageBalance(
+  mortgage: PropertyMortgage,
+  date: string,
+  today: string,
+  scheduleRows: { date: string; balance: number }[],
+) {
+  if (date >= today) {
+    if (scheduleRows.length === 0) return mortgage.balance;
+    const row = scheduleRows
+      .filter((candidate) => candidate.date <= date)
+      .at(-1);
+    return row ? row.balance : mortgage.balance;
+  }
+
+  const recorded = mortgage.history
+    .filter((point) => point.recordedAt.slice(0, 10) <= date)
+    .at(-1);
+  // Before the first recorded balance, assume the earliest one we know
+  return recorded?.value ?? mortgage.history[0]?.value ?? mortgage.balance;
+}
+
+/**
+ * Build the property's value and loan balance month by month, from the
+ * first known value (up to ten years back) to a projection into the future
+ * @param asset The property's assets row
+ * @param details The property's valuation settings
+ * @param appraisals The property's appraisals, oldest first
+ * @param mortgages The loans secured by the property
+ * @param projectionYears How many years to project
+ * @param now Today
+ */
+export function buildPropertyTimeline(
+  asset: {
+    value: number;
+    acquisition_date?: string | null;
+    acquisition_value?: any;
+  },
+  details: PropertyDetails,
+  appraisals: PropertyAppraisal[],
+  mortgages: PropertyMortgage[],
+  projectionYears: number = 10,
+  now: Date = new Date(),
+): PropertyTimelinePoint[] {
+  const today = toSnapshotDate(now);
+  const firstKnown = [
+    appraisals[0]?.appraisedOn,
+    asset.acquisition_date?.slice(0, 10),
+  ]
+    .filter((date): date is string => Boolean(date))
+    .sort()[0];
+
+  const start = new Date(now.getFullYear() - 10, now.getMonth(), 1);
+  if (firstKnown) {
+    const firstKnownDate = new Date(`${firstKnown}T00:00:00`);
+    if (firstKnownDate > start) {
+      start.setFullYear(
+        firstKnownDate.getFullYear(),
+        firstKnownDate.getMonth(),
+      );
+    }
+  } else {
+    start.setFullYear(now.getFullYear(), now.getMonth());
+  }
+
+  const schedules = mortgages.map((mortgage) =>
+    mortgage.details
+      ? projectLiability(mortgage.balance, mortgage.details, now).rows
+      : [],
+  );
+  // Future values grow from today's value at the appreciation rate
+  const projection: PropertyDetails = {
+    ...details,
+    valuationMethod: "appreciation",
+  };
+  const points: PropertyTimelinePoint[] = [];
+
+  const addPoint = (date: string, value: number, projected: boolean) => {
+    const loanBalance = mortgages.reduce(
+      (sum, mortgage, index) =>
+        sum + getMortgageBalance(mortgage, date, today, schedules[index]),
+      0,
+    );
+    points.push({
+      date,
+      value,
+      loanBalance,
+      equity: value - loanBalance,
+      projected,
+    });
+  };
+
+  for (
+    const month = new Date(start);
+    toSnapshotDate(month) < today;
+    month.setMonth(month.getMonth() + 1)
+  ) {
+    const date = toSnapshotDate(month);
+    const basis = getValuationBasis(asset, appraisals, date);
+    if (basis) {
+      addPoint(date, estimatePropertyValue(details, basis, date), false);
+    }
+  }
+
+  addPoint(today, Number(asset.value) || 0, false);
+
+  for (let month = 1; month <= projectionYears * 12; month++) {
+    const date = toSnapshotDate(
+      new Date(now.getFullYear(), now.getMonth() + month, now.getDate()),
+    );
+    addPoint(
+      date,
+      estimatePropertyValue(
+        projection,
+        { date: today, value: Number(asset.value) || 0 },
+        date,
+      ),
+      true,
+    );
+  }
+
+  return points;
+}
+
+/**
+ * Estimate a property's current value and store it. Changes are written with
+ * value_source "property_valuation", so the asset history triggers record
+ * them.
+ * @param supabase A Supabase client allowed to update the asset
+ * @param assetId The property asset ID
+ * @returns The new value, or null if there is nothing to value it from
+ */
+export async function revalueProperty(
+  supabase: SupabaseClient,
+  assetId: string,
+) {
+  const { data: asset, error } = await supabase
+    .from("assets")
+    .select("id, value, acquisition_date, acquisition_value")
+    .eq("id", assetId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching property:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  if (!asset) return null;
+
+  const details = (await fetchPropertyDetails(supabase, [assetId]))[assetId];
+  if (!details) return null;
+
+  const today = toSnapshotDate(new Date());
+  const basis = getValuationBasis(
+    asset,
+    await fetchAppraisals(supabase, assetId),
+    today,
+  );
+  if (!basis) return null;
+
+  const value = estimatePropertyValue(details, basis, today);
+  if (Math.abs(value - (Number(asset.value) || 0)) < 0.005) return value;
+
+  const { error: updateError } = await supabase
+    .from("assets")
+    .update({
+      value,
+      value_source: "property_valuation",
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", assetId);
+
+  if (updateError) {
+    console.error(`Error revaluing property ${assetId}:`, updateError);
+    throw new Error(`Database error: ${updateError.message}`);
+  }
+
+  return value;
+}
+
+/**
+ * Revalue every property with a properties row
+ * @param supabase A Supabase client with the service role
+ */
+export async function revalueProperties(
+  supabase: SupabaseClient,
+): Promise<PropertyRevaluationSummary> {
+  const { data, error } = await supabase.from("properties").select("asset_id");
+
+  if (error) {
+    console.error("Error fetching properties:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const summary: PropertyRevaluationSummary = {
+    valued: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  for (const row of data || []) {
+    try {
+      const value = await revalueProperty(supabase, row.asset_id);
+      if (value === null) {
+        summary.skipped++;
+      } else {
+        summary.valued++;
+      }
+    } catch {
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,232 @@
+/**
+ * Rental property cash flow and return metrics
+ *
+ * A rented property has a rent roll in rental_units and its operating costs
+ * on its properties row. From them, per month:
+ * - effective income: the rent roll less the vacancy allowance
+ * - NOI: effective income less tax, insurance, HOA and maintenance
+ * - cash flow: NOI less the payments on the mortgages secured by it
+ *
+ * Cap rate is the yearly NOI over the property's value; cash-on-cash return
+ * is the yearly cash flow over the cash invested in it.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { convertAmount, type FxRates } from "./fx";
+import {
+  fetchLiabilityDetails,
+  fetchSecuredLoans,
+  getMonthlyPayment,
+  type LiabilityDetails,
+  type SecuredLoan,
+} from "./liabilities";
+import {
+  fetchPropertyDetails,
+  toPropertyDetails,
+  type PropertyDetails,
+} from "./real-estate";
+
+export interface RentalUnit {
+  id: string;
+  assetId: string;
+  unitName: string;
+  // Null while the unit is vacant
+  tenantName: string | null;
+  monthlyRent: number;
+  leaseEnd: string | null;
+}
+
+export interface RentalMetrics {
+  grossMonthlyRent: number;
+  vacancyLoss: number;
+  effectiveMonthlyIncome: number;
+  monthlyOperatingExpenses: number;
+  monthlyNoi: number;
+  annualNoi: number;
+  monthlyDebtService: number;
+  monthlyCashFlow: number;
+  annualCashFlow: number;
+  // Percentages, or null when the value or the cash invested is unknown
+  capRate: number | null;
+  cashOnCashReturn: number | null;
+}
+
+/**
+ * Map a rental_units row to RentalUnit
+ * @param row The row returned by Supabase
+ */
+export function toRentalUnit(row: any): RentalUnit {
+  return {
+    id: row.id,
+    assetId: row.asset_id,
+    unitName: row.unit_name,
+    tenantName: row.tenant_name || null,
+    monthlyRent: Number(row.monthly_rent) || 0,
+    leaseEnd: row.lease_end ?? null,
+  };
+}
+
+/**
+ * Fetch the rent rolls of a set of properties
+ * @param supabase A Supabase client carrying the user's session
+ * @param assetIds The property asset IDs
+ * @returns Units keyed by asset ID; properties without units are omitted
+ */
+export async function fetchRentalUnits(
+  supabase: SupabaseClient,
+  assetIds: string[],
+): Promise<Record<string, RentalUnit[]>> {
+  if (assetIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("rental_units")
+    .select("*")
+    .in("asset_id", assetIds)
+    .order("unit_name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching rental units:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const unitsByAsset: Record<string, RentalUnit[]> = {};
+  for (const row of data || []) {
+    (unitsByAsset[row.asset_id] ||= []).push(toRentalUnit(row));
+  }
+
+  return unitsByAsset;
+}
+
+/**
+ * Total the monthly payments on the loans secured by a property
+ * @param loans The loans secured by the property
+ * @param detailsByLoan Liability details keyed by loan ID
+ */
+export function calculateDebtService(
+  loans: SecuredLoan[],
+  detailsByLoan: Record<string, LiabilityDetails>,
+) {
+  return loans.reduce((sum, loan) => {
+    const details = detailsByLoan[loan.id];
+    return sum + (details ? getMonthlyPayment(loan.balance, details) : 0);
+  }, 0);
+}
+
+/**
+ * Calculate a rental property's cash flow and returns
+ * @param units The property's rent roll
+ * @param details The property's operating costs
+ * @param value The property's current value
+ * @param monthlyDebtService The monthly mortgage payments
+ */
+export function calculateRentalMetrics(
+  units: RentalUnit[],
+  details: PropertyDetails,
+  value: number,
+  monthlyDebtService: number,
+): RentalMetrics {
+  const grossMonthlyRent = units.reduce(
+    (sum, unit) => sum + unit.monthlyRent,
+    0,
+  );
+  const vacancyLoss = (grossMonthlyRent * details.vacancyRate) / 100;
+  const effectiveMonthlyIncome = grossMonthlyRent - vacancyLoss;
+  const monthlyOperatingExpenses =
+    (details.annualPropertyTax +
+      details.annualInsurance +
+      details.annualMaintenance) /
+      12 +
+    details.monthlyHoa;
+  const monthlyNoi = effectiveMonthlyIncome - monthlyOperatingExpenses;
+  const monthlyCashFlow = monthlyNoi - monthlyDebtService;
+
+  return {
+    grossMonthlyRent,
+    vacancyLoss,
+    effectiveMonthlyIncome,
+    monthlyOperatingExpenses,
+    monthlyNoi,
+    annualNoi: monthlyNoi * 12,
+    monthlyDebtService,
+    monthlyCashFlow,
+    annualCashFlow: monthlyCashFlow * 12,
+    capRate: value > 0 ? ((monthlyNoi * 12) / value) * 100 : null,
+    cashOnCashReturn: details.cashInvested
+      ? ((monthlyCashFlow * 12) / details.cashInvested) * 100
+      : null,
+  };
+}
+
+/**
+ * Calculate the rental metrics of every rented property among a set of assets
+ * @param supabase A Supabase client carrying the user's session
+ * @param assets The real-estate assets rows
+ * @returns Metrics keyed by asset ID; properties without a rent roll are
+ * omitted
+ */
+export async function fetchRentalMetrics(
+  supabase: SupabaseClient,
+  assets: { id: string; value: any }[],
+): Promise<Record<string, RentalMetrics>> {
+  const unitsByAsset = await fetchRentalUnits(
+    supabase,
+    assets.map((asset) => asset.id),
+  );
+  const rentedIds = Object.keys(unitsByAsset);
+  if (rentedIds.length === 0) return {};
+
+  const [detailsByAsset, loansByAsset] = await Promise.all([
+    fetchPropertyDetails(supabase, rentedIds),
+    fetchSecuredLoans(supabase, rentedIds),
+  ]);
+  const loanDetails = await fetchLiabilityDetails(
+    supabase,
+    Object.values(loansByAsset).flatMap((loans) =>
+      loans.map((loan) => loan.id),
+    ),
+  );
+
+  const metricsByAsset: Record<string, RentalMetrics> = {};
+  for (const asset of assets) {
+    const units = unitsByAsset[asset.id];
+    if (!units) continue;
+
+    metricsByAsset[asset.id] = calculateRentalMetrics(
+      units,
+      detailsByAsset[asset.id] || toPropertyDetails({ asset_id: asset.id }),
+      Number(asset.value) || 0,
+      calculateDebtService(loansByAsset[asset.id] || [], loanDetails),
+    );
+  }
+
+  return metricsByAsset;
+}
+
+/**
+ * Convert a property's rental metrics into another currency. The rates of
+ * return are ratios and stay as they are.
+ * @param metrics Metrics in the property's currency
+ * @param from The property's currency
+ * @param to The currency to convert into
+ * @param rates Rates per US dollar
+ */
+export function convertRentalMetrics(
+  metrics: RentalMetrics,
+  from: string,
+  to: string,
+  rates: FxRates,
+): RentalMetrics {
+  const convert = (amount: number) => convertAmount(amount, from, to, rates);
+
+  return {
+    ...metrics,
+    grossMonthlyRent: convert(metrics.grossMonthlyRent),
+    vacancyLoss: convert(metrics.vacancyLoss),
+    effectiveMonthlyIncome: convert(metrics.effectiveMonthlyIncome),
+    monthlyOperatingExpenses: convert(metrics.monthlyOperatingExpenses),
+    monthlyNoi: convert(metrics.monthlyNoi),
+    annualNoi: convert(metrics.annualNoi),
+    monthlyDebtService: convert(metrics.monthlyDebtService),
+    monthlyCashFlow: convert(metrics.monthlyCashFlow),
+    annualCashFlow: convert(metrics.annualCashFlow),
+  };
+}
@@ -0,0 +1,483 @@
+/**
+ * Reconcile SnapTrade holdings with the assets table
+ *
+ * Each imported asset is identified by (user_id, metadata.account_id,
+ * metadata.symbol), plus the currency for cash balances, so running a sync
+ * again updates the existing rows instead of inserting duplicates.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SnapTradeActivity, SnapTradeHolding } from "./snaptrade";
+
+export interface SyncSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+/**
+ * Build the key that identifies a holding within a user's assets
+ * @param accountId The SnapTrade account ID
+ * @param symbol The ticker, or CASH for cash balances
+ * @param currency The currency, only used to tell cash balances apart
+ */
+export function getHoldingKey(
+  accountId: string,
+  symbol: string,
+  currency?: string,
+) {
+  return symbol === "CASH"
+    ? `${accountId}:CASH:${currency || "USD"}`
+    : `${accountId}:${symbol}`;
+}
+
+/**
+ * Build the assets row written for a holding
+ * @param holding The normalized SnapTrade holding
+ * @param existingMetadata Metadata of the row being updated, if any
+ */
+function toAssetValues(
+  holding: SnapTradeHolding,
+  existingMetadata: Record<string, any> = {},
+) {
+  const isCash = holding.assetType === "cash";
+
+  return {
+    name: isCash ? holding.name : holding.symbol,
+    value: holding.totalValue,
+    currency: holding.currency || "USD",
+    description: isCash
+      ? `Cash balance in ${holding.accountName}`
+      : `${holding.quantity} shares of ${holding.symbol}`,
+    location: holding.accountName || "SnapTrade",
+    is_liability: false,
+    value_source: "snaptrade",
+    metadata: {
+      ...existingMetadata,
+      symbol: holding.symbol,
+      price_per_share: holding.pricePerShare,
+      purchase_price: holding.purchasePrice,
+      quantity: holding.quantity,
+      currency: holding.currency,
+      asset_type: holding.assetType,
+      source: "snaptrade",
+      account_id: holding.accountId,
+      account_name: holding.accountName,
+      broker_name: holding.brokerName,
+      position_status: "open",
+      closed_at: null,
+      last_synced_at: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Check whether a stored asset already reflects a holding
+ * @param asset The stored asset row
+ * @param holding The freshly fetched holding
+ */
+function isUnchanged(asset: any, holding: SnapTradeHolding) {
+  const metadata = asset.metadata || {};
+  return (
+    Number(asset.value) === Number(holding.totalValue.toFixed(2)) &&
+    Number(metadata.quantity) === holding.quantity &&
+    Number(metadata.price_per_share) === holding.pricePerShare &&
+    metadata.position_status !== "closed"
+  );
+}
+
+/**
+ * Upsert a user's SnapTrade holdings into the assets table
+ * @param supabase A Supabase client allowed to write the user's assets
+ * @param userId The user the holdings belong to
+ * @param holdings Every current holding across the user's accounts
+ * @returns Counts of added, updated, closed and unchanged positions
+ */
+export async function syncSnapTradeHoldings(
+  supabase: SupabaseClient,
+  userId: string,
+  holdings: SnapTradeHolding[],
+): Promise<SyncSummary> {
+  const summary: SyncSummary = {
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+  };
+
+  // Get category ID for investments
+  const { data: categoryData, error: categoryError } = await supabase
+    .from("asset_categories")
+    .select("id")
+    .eq("slug", "investments")
+    .single();
+
+  if (categoryError || !categoryData) {
+    console.error("Error getting investment category:", categoryError);
+    throw new Error(
+      `Category error: ${categoryError?.message || "Category not found"}`,
+    );
+  }
+
+  // Load every asset previously imported from SnapTrade
+  const { data: existingAssets, error: existingError } = await supabase
+    .from("assets")
+    .select("id, value, metadata")
+    .eq("user_id", userId)
+    .eq("metadata->>source", "snaptrade");
+
+  if (existingError) {
+    console.error("Error loading SnapTrade assets:", existingError);
+    throw new Error(`Database error: ${existingError.message}`);
+  }
+
+  const assetsByKey = new Map<string, any>();
+  const duplicateIds: string[] = [];
+
+  for (const asset of existingAssets || []) {
+    const metadata = asset.metadata || {};
+    if (!metadata.account_id || !metadata.symbol) continue;
+
+    const key = getHoldingKey(
+      metadata.account_id,
+      metadata.symbol,
+      metadata.currency,
+    );
+
+    // Earlier versions inserted a new row on every callback
+    if (assetsByKey.has(key)) {
+      duplicateIds.push(asset.id);
+    } else {
+      assetsByKey.set(key, asset);
+    }
+  }
+
+  if (duplicateIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("assets")
+      .delete()
+      .in("id", duplicateIds);
+
+    if (deleteError) {
+      console.error("Error removing duplicate SnapTrade assets:", deleteError);
+    } else {
+      console.log(`Removed ${duplicateIds.length} duplicate SnapTrade assets`);
+    }
+  }
+
+  const seenKeys = new Set<string>();
+
+  for (const holding of holdings) {
+    const key = getHoldingKey(
+      holding.accountId,
+      holding.symbol,
+      holding.currency,
+    );
+    seenKeys.add(key);
+
+    const existing = assetsByKey.get(key);
+
+    if (!existing) {
+      const { error: insertError } = await supabase.from("assets").insert({
+        ...toAssetValues(holding),
+        acquisition_date: new Date().toISOString(),
+        acquisition_value: holding.bookValue || holding.totalValue,
+        category_id: categoryData.id,
+        user_id: userId,
+      });
+
+      if (insertError) {
+        console.error(`Error inserting asset ${holding.symbol}:`, insertError);
+      } else {
+        summary.added++;
+      }
+      continue;
+    }
+
+    if (isUnchanged(existing, holding)) {
+      summary.unchanged++;
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("assets")
+      .update({
+        ...toAssetValues(holding, existing.metadata),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", existing.id);
+
+    if (updateError) {
+      console.error(`Error updating asset ${holding.symbol}:`, updateError);
+    } else {
+      summary.updated++;
+    }
+  }
+
+  // Positions no longer reported by the broker have been sold
+  for (const [key, asset] of Array.from(assetsByKey.entries())) {
+    if (seenKeys.has(key) || asset.metadata?.position_status === "closed") {
+      continue;
+    }
+
+    const { error: closeError } = await supabase
+      .from("assets")
+      .update({
+        value: 0,
+        value_source: "snaptrade",
+        metadata: {
+          ...asset.metadata,
+          quantity: 0,
+          position_status: "closed",
+          closed_at: new Date().toISOString(),
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", asset.id);
+
+    if (closeError) {
+      console.error(`Error closing asset ${asset.id}:`, closeError);
+    } else {
+      summary.removed++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Upsert SnapTrade activities into the transactions table
+ * @param supabase A Supabase client allowed to write the user's transactions
+ * @param userId The user the activities belong to
+ * @param activities The activities to import
+ * @returns How many activities were written
+ */
+export async function syncSnapTradeActivities(
+  supabase: SupabaseClient,
+  userId: string,
+  activities: SnapTradeActivity[],
+): Promise<number> {
+  if (activities.length === 0) return 0;
+
+  // Link each activity to the asset for its position, if we hold one
+  const { data: assets, error: assetsError } = await supabase
+    .from("assets")
+    .select("id, metadata")
+    .eq("user_id", userId)
+    .eq("metadata->>source", "snaptrade");
+
+  if (assetsError) {
+    console.error("Error loading SnapTrade assets:", assetsError);
+    throw new Error(`Database error: ${assetsError.message}`);
+  }
+
+  const assetIdsByKey = new Map<string, string>();
+  for (const asset of assets || []) {
+    const metadata = asset.metadata || {};
+    if (metadata.account_id && metadata.symbol && metadata.symbol !== "CASH") {
+      assetIdsByKey.set(
+        getHoldingKey(metadata.account_id, metadata.symbol),
+        asset.id,
+      );
+    }
+  }
+
+  const rows = activities.map((activity) => ({
+    user_id: userId,
+    asset_id: activity.symbol
+      ? assetIdsByKey.get(getHoldingKey(activity.accountId, activity.symbol)) ||
+        null
+      : null,
+    source: "snaptrade",
+    external_id: activity.externalId,
+    account_id: activity.accountId,
+    account_name: activity.accountName,
+    type: activity.type,
+    symbol: activity.symbol,
+    description: activity.description,
+    units: activity.units,
+    price: activity.price,
+    amount: activity.amount,
+    fee: activity.fee,
+    currency: activity.currency,
+    trade_date: activity.tradeDate,
+    settlement_date: activity.settlementDate,
+  }));
+
+  const { error } = await supabase
+    .from("transactions")
+    .upsert(rows, { onConflict: "user_id,source,external_id" });
+
+  if (error) {
+    console.error("Error saving SnapTrade activities:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return rows.length;
+}
+
+export interface ConnectionSyncResult {
+  connectionId: string;
+  userId: string;
+  status: "synced" | "failed" | "skipped";
+  summary?: SyncSummary;
+  activities?: number;
+  error?: string;
+}
+
+export interface SnapTradeFetchers {
+  holdings: (userId: string) => Promise<SnapTradeHolding[]>;
+  activities?: (userId: string, since: Date) => Promise<SnapTradeActivity[]>;
+}
+
+// Re-import a week of activities on every run to pick up late settlements
+const ACTIVITY_OVERLAP_DAYS = 7;
+
+// Failed connections are retried after 15 minutes, doubling up to one day
+const RETRY_BASE_MINUTES = 15;
+const RETRY_MAX_MINUTES = 24 * 60;
+
+/**
+ * Get the delay before the next attempt after a number of failures
+ * @param retryCount How many consecutive syncs have failed
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(retryCount: number) {
+  const minutes = Math.min(
+    RETRY_BASE_MINUTES * 2 ** Math.max(retryCount - 1, 0),
+    RETRY_MAX_MINUTES,
+  );
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Refresh the holdings of every active SnapTrade connection
+ * @param supabase A service-role Supabase client
+ * @param fetchers Fetch the current holdings and recent activities of a user
+ * @param now The time of the run, used for backoff
+ * @returns The outcome for each connection
+ */
+export async function syncSnapTradeConnections(
+  supabase: SupabaseClient,
+  fetchers: SnapTradeFetchers,
+  now: Date = new Date(),
+): Promise<ConnectionSyncResult[]> {
+  const { data: connections, error } = await supabase
+    .from("broker_connections")
+    .select("id, user_id, broker_data")
+    .eq("broker_id", "snaptrade")
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("Error loading SnapTrade connections:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const results: ConnectionSyncResult[] = [];
+
+  for (const connection of connections || []) {
+    const brokerData = connection.broker_data || {};
+
+    // Still backing off after a previous failure
+    if (
+      brokerData.next_retry_at &&
+      new Date(brokerData.next_retry_at).getTime() > now.getTime()
+    ) {
+      results.push({
+        connectionId: connection.id,
+        userId: connection.user_id,
+        status: "skipped",
+      });
+      continue;
+    }
+
+    let result: ConnectionSyncResult;
+    let nextBrokerData: Record<string, any>;
+
+    try {
+      const holdings = await fetchers.holdings(connection.user_id);
+      const summary = await syncSnapTradeHoldings(
+        supabase,
+        connection.user_id,
+        holdings,
+      );
+
+      let activities: number | undefined;
+      if (fetchers.activities) {
+        const since = brokerData.last_synced_at
+          ? new Date(brokerData.last_synced_at)
+          : new Date(now);
+        if (brokerData.last_synced_at) {
+          since.setDate(since.getDate() - ACTIVITY_OVERLAP_DAYS);
+        } else {
+          since.setFullYear(since.getFullYear() - 1);
+        }
+
+        activities = await syncSnapTradeActivities(
+          supabase,
+          connection.user_id,
+          await fetchers.activities(connection.user_id, since),
+        );
+      }
+
+      result = {
+        connectionId: connection.id,
+        userId: connection.user_id,
+        status: "synced",
+        summary,
+        activities,
+      };
+      nextBrokerData = {
+        ...brokerData,
+        last_synced_at: now.toISOString(),
+        last_sync_summary: summary,
+        last_error: null,
+        retry_count: 0,
+        next_retry_at: null,
+      };
+    } catch (syncError) {
+      const errorMessage =
+        syncError instanceof Error ? syncError.message : "Unknown error";
+      const retryCount = (Number(brokerData.retry_count) || 0) + 1;
+
+      console.error(
+        `Error syncing SnapTrade connection ${connection.id}:`,
+        syncError,
+      );
+      result = {
+        connectionId: connection.id,
+        userId: connection.user_id,
+        status: "failed",
+        error: errorMessage,
+      };
+      nextBrokerData = {
+        ...brokerData,
+        last_error: errorMessage,
+        last_error_at: now.toISOString(),
+        retry_count: retryCount,
+        next_retry_at: new Date(
+          now.getTime() + getRetryDelay(retryCount),
+        ).toISOString(),
+      };
+    }
+
+    const { error: updateError } = await supabase
+      .from("broker_connections")
+      .update({
+        broker_data: nextBrokerData,
+        updated_at: now.toISOString(),
+      })
+      .eq("id", connection.id);
+
+    if (updateError) {
+      console.error(
+        `Error saving sync state for connection ${connection.id}:`,
+        updateError,
+      );
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
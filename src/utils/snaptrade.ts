@@ -1,8 +1,21 @@
 /**
  * Functions for interacting with the SnapTrade API
  */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Account,
+  AccountUniversalActivity,
+  Balance,
+  Position,
+} from "snaptrade-typescript-sdk";
 import { snaptrade } from "./snaptrade-sdk";
+import {
+  syncSnapTradeActivities,
+  syncSnapTradeHoldings,
+  type SyncSummary,
+} from "./snaptrade-sync";
 import { createClient } from "@/supabase/client";
+import { decryptBrokerSecret, encryptBrokerSecret } from "./credentials";
 
 /**
  * Check if SnapTrade credentials are configured
@@ -61,7 +74,7 @@ export async function registerSnapTradeUser(userId: string) {
         user_id: userId,
         broker_id: "snaptrade",
         api_key: "snaptrade_user",
-        api_secret_encrypted: response.data.userSecret,
+        ...(await encryptBrokerSecret(response.data.userSecret || "")),
         is_active: true,
         broker_data: {
           registered_at: new Date().toISOString(),
@@ -101,7 +114,9 @@ export async function registerSnapTradeUser(userId: string) {
             user_id: userId,
             broker_id: "snaptrade",
             api_key: "snaptrade_user",
-            api_secret_encrypted: error.responseBody?.userSecret || "",
+            ...(await encryptBrokerSecret(
+              error.responseBody?.userSecret || "",
+            )),
             is_active: true,
             broker_data: {
               registered_at: new Date().toISOString(),
@@ -140,7 +155,7 @@ export async function registerSnapTradeUser(userId: string) {
               await supabase
                 .from("broker_connections")
                 .update({
-                  api_secret_encrypted: userResponse.data.userSecret,
+                  ...(await encryptBrokerSecret(userResponse.data.userSecret)),
                   broker_data: {
                     registered_at: new Date().toISOString(),
                     snap_trade_user_id: userId,
@@ -178,7 +193,7 @@ export async function registerSnapTradeUser(userId: string) {
             await supabase
               .from("broker_connections")
               .update({
-                api_secret_encrypted: newRegistration.data.userSecret,
+                ...(await encryptBrokerSecret(newRegistration.data.userSecret)),
                 broker_data: {
                   registered_at: new Date().toISOString(),
                   snap_trade_user_id: newRegistration.data.userId,
@@ -204,7 +219,7 @@ export async function registerSnapTradeUser(userId: string) {
           await supabase
             .from("broker_connections")
             .update({
-              api_secret_encrypted: response.data.userSecret,
+              ...(await encryptBrokerSecret(response.data.userSecret)),
             })
             .eq("user_id", userId)
             .eq("broker_id", "snaptrade");
@@ -237,7 +252,7 @@ export async function registerSnapTradeUser(userId: string) {
           await supabase
             .from("broker_connections")
             .update({
-              api_secret_encrypted: newResponse.data.userSecret,
+              ...(await encryptBrokerSecret(newResponse.data.userSecret || "")),
               broker_data: {
                 registered_at: new Date().toISOString(),
                 snap_trade_user_id: newResponse.data.userId,
@@ -259,14 +274,17 @@ export async function registerSnapTradeUser(userId: string) {
 }
 
 /**
- * Get the user secret for a SnapTrade user
+ * Get the decrypted user secret for a SnapTrade user
  * @param userId The user ID to get the secret for
+ * @param supabase Optional Supabase client, e.g. one carrying the user's session
  */
-export async function getUserSecret(userId: string) {
-  const supabase = createClient();
+export async function getUserSecret(
+  userId: string,
+  supabase: SupabaseClient = createClient(),
+) {
   const { data, error } = await supabase
     .from("broker_connections")
-    .select("api_secret_encrypted")
+    .select("api_secret_encrypted, api_secret_data_key, api_secret_key_version")
     .eq("user_id", userId)
     .eq("broker_id", "snaptrade")
     .maybeSingle();
@@ -281,7 +299,7 @@ export async function getUserSecret(userId: string) {
     throw new Error("User not registered with SnapTrade");
   }
 
-  return data.api_secret_encrypted;
+  return decryptBrokerSecret(data);
 }
 
 /**
@@ -368,7 +386,9 @@ export async function createSnapTradeUserLink(
                     user_id: userId,
                     broker_id: "snaptrade",
                     api_key: "snaptrade_user",
-                    api_secret_encrypted: newRegistration.data.userSecret,
+                    ...(await encryptBrokerSecret(
+                      newRegistration.data.userSecret,
+                    )),
                     is_active: true,
                     broker_data: {
                       registered_at: new Date().toISOString(),
@@ -439,187 +459,325 @@ export async function fetchSnapTradeAccounts(userId: string) {
   }
 }
 
+/**
+ * A position or cash balance normalized from the SnapTrade API
+ */
+export interface SnapTradeHolding {
+  symbol: string;
+  name: string;
+  quantity: number;
+  pricePerShare: number;
+  totalValue: number;
+  bookValue: number;
+  gainLoss: number;
+  purchasePrice: number;
+  accountId: string;
+  accountName: string;
+  brokerName: string;
+  currency: string;
+  assetType: "stock" | "cash";
+}
+
+/**
+ * Normalize a SnapTrade position into a holding
+ * @param position The position returned by getUserAccountPositions
+ * @param account The account the position belongs to
+ */
+function toPositionHolding(
+  position: Position,
+  account: Account,
+): SnapTradeHolding | null {
+  // Older API versions returned the ticker directly, newer ones a UniversalSymbol
+  const universalSymbol = position.symbol?.symbol;
+  const symbol =
+    typeof universalSymbol === "string"
+      ? universalSymbol
+      : universalSymbol?.symbol;
+
+  if (!symbol) return null;
+
+  const quantity = Number(position.units ?? position.quantity ?? 0);
+  const price = Number(position.price ?? 0);
+  const bookValue =
+    position.bookValue != null
+      ? Number(position.bookValue)
+      : Number(position.average_purchase_price ?? 0) * quantity;
+  const totalValue = quantity * price;
+
+  return {
+    symbol,
+    name:
+      (typeof universalSymbol === "object" && universalSymbol?.description) ||
+      position.symbol?.description ||
+      symbol,
+    quantity,
+    pricePerShare: price,
+    totalValue,
+    bookValue,
+    gainLoss: totalValue - bookValue,
+    purchasePrice: quantity ? bookValue / quantity : 0,
+    accountId: account.id,
+    accountName: account.name || "Investment Account",
+    brokerName:
+      account.institution_name || account.brokerage?.name || "SnapTrade",
+    currency:
+      (typeof universalSymbol === "object" &&
+        universalSymbol?.currency?.code) ||
+      position.currency ||
+      "USD",
+    assetType: "stock",
+  };
+}
+
+/**
+ * Normalize a SnapTrade cash balance into a holding
+ * @param balance The balance returned by getUserAccountBalance
+ * @param account The account the balance belongs to
+ */
+function toCashHolding(
+  balance: Balance,
+  account: Account,
+): SnapTradeHolding | null {
+  const amount = Number(balance.cash ?? balance.amount ?? 0);
+  if (!(amount > 0)) return null;
+
+  const currency = balance.currency?.code || "USD";
+
+  return {
+    symbol: "CASH",
+    name: `Cash (${currency})`,
+    quantity: 1,
+    pricePerShare: amount,
+    totalValue: amount,
+    bookValue: amount,
+    gainLoss: 0,
+    purchasePrice: amount,
+    accountId: account.id,
+    accountName: account.name || "Investment Account",
+    brokerName:
+      account.institution_name || account.brokerage?.name || "SnapTrade",
+    currency,
+    assetType: "cash",
+  };
+}
+
 /**
  * Fetch holdings for a SnapTrade user
+ * @param supabase A Supabase client that can read the user's connection: the
+ * user's session, or the service role in scheduled jobs
  * @param userId The user ID to fetch holdings for
  * @param accountId Optional account ID to filter by
  */
 export async function fetchSnapTradeHoldings(
+  supabase: SupabaseClient,
   userId: string,
   accountId?: string,
-) {
+): Promise<SnapTradeHolding[]> {
   if (!snaptrade) {
     throw new Error("SnapTrade SDK not initialized");
   }
 
   try {
     // Get the user secret from the database
-    const userSecret = await getUserSecret(userId);
+    const userSecret = await getUserSecret(userId, supabase);
+
+    // Get all accounts for the user
+    const accountsResponse =
+      await snaptrade.accountInformation.listUserAccounts({
+        userId: userId,
+        userSecret: userSecret,
+      });
 
-    let holdings = [];
+    if (!accountsResponse.data) {
+      throw new Error("Failed to fetch accounts");
+    }
+
+    const accounts = accountId
+      ? accountsResponse.data.filter((account) => account.id === accountId)
+      : accountsResponse.data;
+
+    if (accountId && accounts.length === 0) {
+      throw new Error(`Account ${accountId} not found`);
+    }
 
-    if (accountId) {
-      // Get positions for a specific account
+    const holdings: SnapTradeHolding[] = [];
+
+    // For each account, get the positions and balances
+    for (const account of accounts) {
       const positionsResponse =
         await snaptrade.accountInformation.getUserAccountPositions({
           userId: userId,
           userSecret: userSecret,
-          accountId: accountId,
+          accountId: account.id,
         });
 
       if (!positionsResponse.data) {
-        throw new Error("Failed to fetch positions");
+        throw new Error(`Failed to fetch positions for account ${account.id}`);
       }
 
-      // Get account details
-      const accountsResponse =
-        await snaptrade.accountInformation.listUserAccounts({
-          userId: userId,
-          userSecret: userSecret,
-        });
-
-      const account = accountsResponse.data?.find(
-        (acc) => acc.id === accountId,
-      );
-
-      // Process positions
-      holdings = positionsResponse.data.map((position) => {
-        const quantity = parseFloat(position.quantity || "0");
-        const price = parseFloat(position.price || "0");
-        const bookValue = parseFloat(position.bookValue || "0");
-        const totalValue = quantity * price;
-
-        return {
-          symbol: position.symbol.symbol || position.symbol,
-          name:
-            position.symbol.description ||
-            position.symbol.symbol ||
-            position.symbol,
-          quantity: quantity,
-          pricePerShare: price,
-          totalValue: totalValue,
-          gainLoss: totalValue - bookValue,
-          purchasePrice: bookValue / quantity,
-          accountId: accountId,
-          accountName: account?.name || "Investment Account",
-          brokerName: account?.brokerage?.name || "SnapTrade",
-          currency: position.currency || "USD",
-        };
-      });
+      for (const position of positionsResponse.data) {
+        const holding = toPositionHolding(position, account);
+        if (holding) holdings.push(holding);
+      }
 
-      // Get balances for the account
       const balancesResponse =
         await snaptrade.accountInformation.getUserAccountBalance({
           userId: userId,
           userSecret: userSecret,
-          accountId: accountId,
+          accountId: account.id,
         });
 
-      // Add cash balances
-      if (balancesResponse.data) {
-        for (const balance of balancesResponse.data) {
-          if (balance.cash && parseFloat(balance.amount) > 0) {
-            holdings.push({
-              symbol: "CASH",
-              name: `Cash (${balance.currency})`,
-              quantity: 1,
-              pricePerShare: parseFloat(balance.amount),
-              totalValue: parseFloat(balance.amount),
-              gainLoss: 0,
-              purchasePrice: parseFloat(balance.amount),
-              accountId: accountId,
-              accountName: account?.name || "Investment Account",
-              brokerName: account?.brokerage?.name || "SnapTrade",
-              currency: balance.currency || "USD",
-            });
-          }
-        }
+      for (const balance of balancesResponse.data || []) {
+        const holding = toCashHolding(balance, account);
+        if (holding) holdings.push(holding);
       }
-    } else {
-      // Get all accounts for the user
-      const accountsResponse =
-        await snaptrade.accountInformation.listUserAccounts({
-          userId: userId,
-          userSecret: userSecret,
-        });
+    }
 
-      if (!accountsResponse.data) {
-        throw new Error("Failed to fetch accounts");
-      }
+    return holdings;
+  } catch (error) {
+    console.error("Error fetching SnapTrade holdings:", error);
+    throw error;
+  }
+}
 
-      // For each account, get the positions and balances
-      for (const account of accountsResponse.data) {
-        // Get positions for the account
-        const positionsResponse =
-          await snaptrade.accountInformation.getUserAccountPositions({
-            userId: userId,
-            userSecret: userSecret,
-            accountId: account.id,
-          });
+export type TransactionType =
+  | "dividend"
+  | "interest"
+  | "fee"
+  | "buy"
+  | "sell"
+  | "deposit"
+  | "withdrawal"
+  | "other";
 
-        if (positionsResponse.data) {
-          // Process positions
-          const accountHoldings = positionsResponse.data.map((position) => {
-            const quantity = parseFloat(position.quantity || "0");
-            const price = parseFloat(position.price || "0");
-            const bookValue = parseFloat(position.bookValue || "0");
-            const totalValue = quantity * price;
-
-            return {
-              symbol: position.symbol.symbol || position.symbol,
-              name:
-                position.symbol.description ||
-                position.symbol.symbol ||
-                position.symbol,
-              quantity: quantity,
-              pricePerShare: price,
-              totalValue: totalValue,
-              gainLoss: totalValue - bookValue,
-              purchasePrice: bookValue / quantity,
-              accountId: account.id,
-              accountName: account.name || "Investment Account",
-              brokerName: account.brokerage?.name || "SnapTrade",
-              currency: position.currency || "USD",
-            };
-          });
+/**
+ * An account activity normalized from the SnapTrade API
+ */
+export interface SnapTradeActivity {
+  externalId: string;
+  accountId: string;
+  accountName: string;
+  type: TransactionType;
+  symbol: string | null;
+  description: string;
+  units: number;
+  price: number;
+  amount: number;
+  fee: number;
+  currency: string;
+  tradeDate: string | null;
+  settlementDate: string | null;
+}
 
-          holdings = [...holdings, ...accountHoldings];
-        }
+// SnapTrade activity types mapped to our transaction types
+const activityTypes: Record<string, TransactionType> = {
+  DIVIDEND: "dividend",
+  STOCK_DIVIDEND: "dividend",
+  REI: "dividend",
+  INTEREST: "interest",
+  FEE: "fee",
+  TAX: "fee",
+  BUY: "buy",
+  SELL: "sell",
+  CONTRIBUTION: "deposit",
+  WITHDRAWAL: "withdrawal",
+};
+
+// Activities are requested in pages of this size
+const ACTIVITY_PAGE_SIZE = 1000;
 
-        // Get balances for the account
-        const balancesResponse =
-          await snaptrade.accountInformation.getUserAccountBalance({
+/**
+ * Normalize a SnapTrade activity
+ * @param activity The activity returned by getAccountActivities
+ * @param account The account the activity belongs to
+ */
+function toActivity(
+  activity: AccountUniversalActivity,
+  account: Account,
+): SnapTradeActivity | null {
+  if (!activity.id) return null;
+
+  return {
+    externalId: activity.id,
+    accountId: account.id,
+    accountName: account.name || "Investment Account",
+    type: activityTypes[(activity.type || "").toUpperCase()] || "other",
+    symbol: activity.symbol?.symbol || null,
+    description: activity.description || activity.type || "",
+    units: Number(activity.units ?? 0),
+    price: Number(activity.price ?? 0),
+    amount: Number(activity.amount ?? 0),
+    fee: Number(activity.fee ?? 0),
+    currency: activity.currency?.code || "USD",
+    tradeDate: activity.trade_date ? activity.trade_date.split("T")[0] : null,
+    settlementDate: activity.settlement_date
+      ? activity.settlement_date.split("T")[0]
+      : null,
+  };
+}
+
+/**
+ * Fetch account activities (dividends, interest, fees, trades) for a SnapTrade user
+ * @param supabase A Supabase client that can read the user's connection: the
+ * user's session, or the service role in scheduled jobs
+ * @param userId The user ID to fetch activities for
+ * @param startDate Only include activities on or after this date
+ */
+export async function fetchSnapTradeActivities(
+  supabase: SupabaseClient,
+  userId: string,
+  startDate: Date,
+): Promise<SnapTradeActivity[]> {
+  if (!snaptrade) {
+    throw new Error("SnapTrade SDK not initialized");
+  }
+
+  try {
+    const userSecret = await getUserSecret(userId, supabase);
+
+    const accountsResponse =
+      await snaptrade.accountInformation.listUserAccounts({
+        userId: userId,
+        userSecret: userSecret,
+      });
+
+    if (!accountsResponse.data) {
+      throw new Error("Failed to fetch accounts");
+    }
+
+    const activities: SnapTradeActivity[] = [];
+    const endDate = new Date();
+
+    for (const account of accountsResponse.data) {
+      let offset = 0;
+
+      // Page through the account's activities
+      while (true) {
+        const response =
+          await snaptrade.accountInformation.getAccountActivities({
+            accountId: account.id,
             userId: userId,
             userSecret: userSecret,
-            accountId: account.id,
+            startDate: startDate.toISOString().split("T")[0],
+            endDate: endDate.toISOString().split("T")[0],
+            offset,
+            limit: ACTIVITY_PAGE_SIZE,
           });
 
-        // Add cash balances
-        if (balancesResponse.data) {
-          for (const balance of balancesResponse.data) {
-            if (balance.cash && parseFloat(balance.amount) > 0) {
-              holdings.push({
-                symbol: "CASH",
-                name: `Cash (${balance.currency})`,
-                quantity: 1,
-                pricePerShare: parseFloat(balance.amount),
-                totalValue: parseFloat(balance.amount),
-                gainLoss: 0,
-                purchasePrice: parseFloat(balance.amount),
-                accountId: account.id,
-                accountName: account.name || "Investment Account",
-                brokerName: account.brokerage?.name || "SnapTrade",
-                currency: balance.currency || "USD",
-              });
-            }
-          }
+        const page = response.data?.data || [];
+        for (const activity of page) {
+          const normalized = toActivity(activity, account);
+          if (normalized) activities.push(normalized);
         }
+
+        if (page.length < ACTIVITY_PAGE_SIZE) break;
+        offset += page.length;
       }
     }
 
-    return holdings;
+    return activities;
   } catch (error) {
-    console.error("Error fetching SnapTrade holdings:", error);
+    console.error("Error fetching SnapTrade activities:", error);
     throw error;
   }
 }
@@ -629,23 +787,20 @@ export async function fetchSnapTradeHoldings(
  * @param userId The user ID for the callback
  * @param authorizationId The authorization ID from the callback
  * @param brokerage The brokerage name from the callback
+ * @param supabase Optional Supabase client, e.g. one carrying the user's session
+ * @returns A summary of the positions added, updated and closed
  */
 export async function handleSnapTradeCallback(
   userId: string,
   authorizationId: string,
   brokerage: string,
-) {
+  supabase: SupabaseClient = createClient(),
+): Promise<SyncSummary> {
   if (!snaptrade) {
     throw new Error("SnapTrade SDK not initialized");
   }
 
   try {
-    // Get the user secret from the database
-    const userSecret = await getUserSecret(userId);
-
-    // Update the connection in the database
-    const supabase = createClient();
-
     // First get the existing broker_data to preserve any fields
     const { data: existingData } = await supabase
       .from("broker_connections")
@@ -671,139 +826,138 @@ export async function handleSnapTradeCallback(
       .eq("user_id", userId)
       .eq("broker_id", "snaptrade");
 
-    // Get all accounts for the user
-    const accountsResponse =
-      await snaptrade.accountInformation.listUserAccounts({
-        userId: userId,
-        userSecret: userSecret,
-      });
-
-    if (!accountsResponse.data) {
-      throw new Error("Failed to fetch accounts");
-    }
+    // Pull every position and cash balance, then reconcile with stored assets
+    const holdings = await fetchSnapTradeHoldings(supabase, userId);
+    const summary = await syncSnapTradeHoldings(supabase, userId, holdings);
 
-    // Get category ID for investments
-    const { data: categoryData, error: categoryError } = await supabase
-      .from("asset_categories")
-      .select("id")
-      .eq("slug", "investments")
-      .single();
+    console.log("SnapTrade holdings synced:", summary);
 
-    if (categoryError) {
-      console.error("Error getting investment category:", categoryError);
-      throw new Error(`Category error: ${categoryError.message}`);
+    // Import the last year of activities; holdings are already saved, so a
+    // failure here shouldn't fail the connection
+    try {
+      const since = new Date();
+      since.setFullYear(since.getFullYear() - 1);
+      const activities = await fetchSnapTradeActivities(
+        supabase,
+        userId,
+        since,
+      );
+      const imported = await syncSnapTradeActivities(
+        supabase,
+        userId,
+        activities,
+      );
+      console.log(`Imported ${imported} SnapTrade activities`);
+    } catch (activityError) {
+      console.error("Error importing SnapTrade activities:", activityError);
     }
+    return summary;
+  } catch (error) {
+    console.error("Error handling SnapTrade callback:", error);
+    throw error;
+  }
+}
 
-    if (!categoryData) {
-      console.error("Investment category not found");
-      throw new Error("Category not found");
-    }
+export interface SnapTradeAuthorization {
+  id: string;
+  brokerName: string;
+  // Disabled authorizations no longer refresh and need reconnecting
+  disabled: boolean;
+  disabledAt: string | null;
+}
 
-    // For each account, get the positions and balances
-    for (const account of accountsResponse.data) {
-      // Get positions for the account
-      const positionsResponse =
-        await snaptrade.accountInformation.getUserAccountPositions({
-          userId: userId,
-          userSecret: userSecret,
-          accountId: account.id,
-        });
+/**
+ * List the brokerage authorizations of a SnapTrade user
+ * @param userId The user ID
+ * @param supabase Optional Supabase client, e.g. one carrying the user's session
+ */
+export async function fetchSnapTradeAuthorizations(
+  userId: string,
+  supabase: SupabaseClient = createClient(),
+): Promise<SnapTradeAuthorization[]> {
+  if (!snaptrade) {
+    throw new Error("SnapTrade SDK not initialized");
+  }
 
-      if (positionsResponse.data) {
-        // Process each position
-        for (const position of positionsResponse.data) {
-          if (!position.symbol) continue;
-
-          // Calculate values
-          const quantity = parseFloat(position.quantity || "0");
-          const price = parseFloat(position.price || "0");
-          const bookValue = parseFloat(position.bookValue || "0");
-          const totalValue = quantity * price;
-
-          // Insert the position as an asset
-          const { error: insertError } = await supabase.from("assets").insert({
-            name: position.symbol.symbol || position.symbol,
-            value: totalValue,
-            description: `${quantity} shares of ${position.symbol.symbol || position.symbol}`,
-            location: account.name || "SnapTrade",
-            acquisition_date: new Date().toISOString(),
-            acquisition_value: bookValue || totalValue,
-            category_id: categoryData.id,
-            is_liability: false,
-            user_id: userId,
-            metadata: {
-              symbol: position.symbol.symbol || position.symbol,
-              price_per_share: price,
-              purchase_price: bookValue / quantity,
-              quantity: quantity,
-              currency: position.currency || "USD",
-              asset_type: "stock",
-              source: "snaptrade",
-              account_id: account.id,
-              account_name: account.name || "Investment Account",
-              broker_name: account.brokerage?.name || "SnapTrade",
-            },
-          });
+  const userSecret = await getUserSecret(userId, supabase);
+  const response = await snaptrade.connections.listBrokerageAuthorizations({
+    userId,
+    userSecret,
+  });
+
+  return (response.data || []).map((authorization) => ({
+    id: authorization.id || "",
+    brokerName:
+      authorization.brokerage?.display_name ||
+      authorization.brokerage?.name ||
+      authorization.name ||
+      "Brokerage",
+    disabled: !!authorization.disabled,
+    disabledAt: authorization.disabled_date || null,
+  }));
+}
 
-          if (insertError) {
-            console.error(
-              `Error inserting asset ${position.symbol}:`,
-              insertError,
-            );
-          }
-        }
-      }
+/**
+ * Generate a connection portal URL that repairs a disabled authorization,
+ * keeping its accounts and history
+ * @param userId The user ID
+ * @param authorizationId The disabled authorization
+ * @param redirectUri Where the portal sends the user afterwards
+ * @param supabase Optional Supabase client, e.g. one carrying the user's session
+ */
+export async function createSnapTradeReconnectLink(
+  userId: string,
+  authorizationId: string,
+  redirectUri: string,
+  supabase: SupabaseClient = createClient(),
+) {
+  if (!snaptrade) {
+    throw new Error("SnapTrade SDK not initialized");
+  }
 
-      // Get balances for the account
-      const balancesResponse =
-        await snaptrade.accountInformation.getUserAccountBalance({
-          userId: userId,
-          userSecret: userSecret,
-          accountId: account.id,
-        });
+  const userSecret = await getUserSecret(userId, supabase);
+  const response = await snaptrade.authentication.loginSnapTradeUser({
+    userId,
+    userSecret,
+    reconnect: authorizationId,
+    immediateRedirect: false,
+    customRedirect: redirectUri,
+    connectionPortalVersion: "v4",
+  });
+
+  // The response is either the portal URL or an encrypted payload
+  const data = response.data;
+  if (!data || !("redirectURI" in data) || !data.redirectURI) {
+    throw new Error("Failed to generate connection portal URL");
+  }
 
-      if (balancesResponse.data) {
-        // Process cash balances
-        for (const balance of balancesResponse.data) {
-          if (balance.cash && parseFloat(balance.amount) > 0) {
-            // Insert the cash as an asset
-            const { error: insertError } = await supabase
-              .from("assets")
-              .insert({
-                name: `Cash (${balance.currency})`,
-                value: parseFloat(balance.amount),
-                description: `Cash balance in ${account.name}`,
-                location: account.name || "SnapTrade",
-                acquisition_date: new Date().toISOString(),
-                acquisition_value: parseFloat(balance.amount),
-                category_id: categoryData.id,
-                is_liability: false,
-                user_id: userId,
-                metadata: {
-                  symbol: "CASH",
-                  price_per_share: parseFloat(balance.amount),
-                  purchase_price: parseFloat(balance.amount),
-                  quantity: 1,
-                  currency: balance.currency || "USD",
-                  asset_type: "cash",
-                  source: "snaptrade",
-                  account_id: account.id,
-                  account_name: account.name || "Investment Account",
-                  broker_name: account.brokerage?.name || "SnapTrade",
-                },
-              });
+  return data.redirectURI;
+}
 
-            if (insertError) {
-              console.error(`Error inserting cash asset:`, insertError);
-            }
-          }
-        }
-      }
-    }
+/**
+ * Revoke every brokerage authorization of a SnapTrade user, then delete the
+ * SnapTrade user so its stored secret can no longer be used
+ * @param userId The user ID
+ * @param supabase Optional Supabase client, e.g. one carrying the user's session
+ */
+export async function revokeSnapTradeUser(
+  userId: string,
+  supabase: SupabaseClient = createClient(),
+) {
+  if (!snaptrade) {
+    throw new Error("SnapTrade SDK not initialized");
+  }
 
-    return accountsResponse.data;
-  } catch (error) {
-    console.error("Error handling SnapTrade callback:", error);
-    throw error;
+  const userSecret = await getUserSecret(userId, supabase);
+  const authorizations = await fetchSnapTradeAuthorizations(userId, supabase);
+
+  for (const authorization of authorizations) {
+    await snaptrade.connections.removeBrokerageAuthorization({
+      authorizationId: authorization.id,
+      userId,
+      userSecret,
+    });
   }
+
+  await snaptrade.authentication.deleteSnapTradeUser({ userId });
 }
@@ -0,0 +1,155 @@
+/**
+ * Functions for reading imported account transactions
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { convertAmount, DEFAULT_CURRENCY, type FxRates } from "./fx";
+import type { TransactionType } from "./snaptrade";
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  dividend: "Dividend",
+  interest: "Interest",
+  fee: "Fee",
+  buy: "Buy",
+  sell: "Sell",
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  other: "Other",
+};
+
+export interface RecentTransaction {
+  id: string;
+  type: "increase" | "decrease";
+  name: string;
+  category: string;
+  date: string;
+  amount: number;
+}
+
+export interface ReceivedIncome {
+  dividends: number;
+  interest: number;
+  total: number;
+  // Dividends received per asset ID
+  byAsset: Record<string, number>;
+}
+
+/**
+ * Format a transaction date relative to today
+ * @param date The trade date (YYYY-MM-DD)
+ * @param now The current date
+ */
+function formatTransactionDate(date: string | null, now: Date) {
+  if (!date) return "";
+
+  const day = new Date(`${date}T00:00:00`);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const diffDays = Math.round((today.getTime() - day.getTime()) / 86400000);
+
+  if (diffDays === 0) return "Today";
+  if (diffDays === 1) return "Yesterday";
+  return day.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Fetch the latest transactions for the dashboard
+ * @param supabase A Supabase client carrying the user's session
+ * @param userId The user to fetch transactions for
+ * @param limit How many transactions to return
+ */
+export async function fetchRecentTransactions(
+  supabase: SupabaseClient,
+  userId: string,
+  limit: number = 5,
+): Promise<RecentTransaction[]> {
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("id, type, symbol, description, amount, trade_date, account_name")
+    .eq("user_id", userId)
+    .order("trade_date", { ascending: false, nullsFirst: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching transactions:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const now = new Date();
+
+  return (data || []).map((row: any) => {
+    const amount = Number(row.amount) || 0;
+    const label =
+      TRANSACTION_TYPE_LABELS[row.type as TransactionType] || "Transaction";
+
+    return {
+      id: row.id,
+      type: amount >= 0 ? "increase" : "decrease",
+      name: row.symbol ? `${label} · ${row.symbol}` : label,
+      category: row.account_name || row.description || label,
+      date: formatTransactionDate(row.trade_date, now),
+      amount: Math.abs(amount),
+    };
+  });
+}
+
+/**
+ * Sum the dividends and interest received over the last months
+ * @param supabase A Supabase client carrying the user's session
+ * @param userId The user to sum income for
+ * @param baseCurrency The currency to sum in
+ * @param rates Rates per US dollar
+ * @param months How many months back to include
+ */
+export async function fetchReceivedIncome(
+  supabase: SupabaseClient,
+  userId: string,
+  baseCurrency: string = DEFAULT_CURRENCY,
+  rates: FxRates = {},
+  months: number = 12,
+): Promise<ReceivedIncome> {
+  const since = new Date();
+  since.setMonth(since.getMonth() - months);
+
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("type, amount, currency, asset_id")
+    .eq("user_id", userId)
+    .in("type", ["dividend", "interest"])
+    .gte("trade_date", since.toISOString().split("T")[0]);
+
+  if (error) {
+    console.error("Error fetching received income:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const income: ReceivedIncome = {
+    dividends: 0,
+    interest: 0,
+    total: 0,
+    byAsset: {},
+  };
+
+  for (const row of data || []) {
+    const amount = convertAmount(
+      Number(row.amount) || 0,
+      (row.currency || DEFAULT_CURRENCY).toUpperCase(),
+      baseCurrency,
+      rates,
+    );
+    if (row.type === "dividend") {
+      income.dividends += amount;
+      if (row.asset_id) {
+        income.byAsset[row.asset_id] =
+          (income.byAsset[row.asset_id] || 0) + amount;
+      }
+    } else {
+      income.interest += amount;
+    }
+    income.total += amount;
+  }
+
+  return income;
+}
@@ -0,0 +1,434 @@
+/**
+ * Deterministic vehicle depreciation model
+ *
+ * Starts from the model's price when new and applies, in order:
+ * - a depreciation curve: a first-year drop, then a yearly rate that depends
+ *   on how well the make holds its value
+ * - the trim level
+ * - mileage above or below the typical 12,000 miles a year
+ * - condition and region
+ *
+ * The confidence range widens with every detail left out and with age.
+ * Comparable listings are generated from a seed of the vehicle, so every
+ * request for the same car returns the same numbers.
+ */
+import type {
+  ValuationConfidence,
+  VehicleCondition,
+  VehicleListing,
+  VehicleRegion,
+  VehicleValuationProvider,
+  VehicleValuationRequest,
+} from "./vehicle-valuation";
+
+// Approximate price when new, by make and model
+const NEW_PRICES: Record<string, Record<string, number>> = {
+  toyota: {
+    camry: 28000,
+    corolla: 22000,
+    rav4: 30000,
+    highlander: 40000,
+    tacoma: 33000,
+    prius: 28500,
+  },
+  honda: {
+    civic: 24500,
+    accord: 28500,
+    "cr-v": 31000,
+    pilot: 40000,
+    odyssey: 39000,
+    fit: 17500,
+  },
+  ford: {
+    "f-150": 45000,
+    mustang: 33000,
+    explorer: 38000,
+    escape: 29000,
+    edge: 37000,
+    bronco: 40000,
+  },
+  chevrolet: {
+    silverado: 43000,
+    equinox: 28000,
+    tahoe: 58000,
+    malibu: 25000,
+    camaro: 32000,
+    suburban: 61000,
+  },
+  bmw: {
+    "3 series": 45000,
+    "5 series": 57000,
+    x3: 48000,
+    x5: 65000,
+    "7 series": 95000,
+    i4: 57000,
+  },
+  mercedes: {
+    "c-class": 47000,
+    "e-class": 58000,
+    "s-class": 115000,
+    glc: 49000,
+    gle: 62000,
+    "a-class": 35000,
+  },
+  audi: {
+    a4: 42000,
+    a6: 57000,
+    q5: 46000,
+    q7: 60000,
+    "e-tron": 67000,
+    a3: 36000,
+  },
+  tesla: {
+    "model 3": 42000,
+    "model y": 47000,
+    "model s": 80000,
+    "model x": 90000,
+    cybertruck: 82000,
+  },
+  volkswagen: {
+    golf: 26000,
+    jetta: 23000,
+    tiguan: 30000,
+    atlas: 38000,
+    "id.4": 41000,
+    passat: 27000,
+  },
+  hyundai: {
+    elantra: 22000,
+    tucson: 29000,
+    "santa fe": 33000,
+    sonata: 27000,
+    kona: 24500,
+    palisade: 39000,
+  },
+  kia: {
+    forte: 21000,
+    sportage: 29000,
+    telluride: 38000,
+    sorento: 33000,
+    soul: 21000,
+    seltos: 25000,
+  },
+  nissan: {
+    altima: 27000,
+    rogue: 30000,
+    sentra: 21500,
+    pathfinder: 37000,
+    murano: 35000,
+    kicks: 22000,
+  },
+  subaru: {
+    outback: 31000,
+    forester: 30000,
+    crosstrek: 26000,
+    impreza: 23000,
+    ascent: 37000,
+    legacy: 26000,
+  },
+  mazda: {
+    "cx-5": 30000,
+    mazda3: 24500,
+    "cx-9": 39000,
+    "cx-30": 26000,
+    "mx-5 miata": 30000,
+    mazda6: 27000,
+  },
+  lexus: {
+    rx: 50000,
+    es: 44000,
+    nx: 42000,
+    is: 41000,
+    gx: 62000,
+    ux: 37000,
+  },
+};
+
+// Used when the model isn't in the table above
+const DEFAULT_NEW_PRICE = 30000;
+
+// Yearly depreciation after the first year; makes not listed use the default
+const MAKE_DEPRECIATION_RATES: Record<string, number> = {
+  toyota: 0.1,
+  lexus: 0.1,
+  honda: 0.11,
+  subaru: 0.11,
+  mazda: 0.12,
+  bmw: 0.17,
+  mercedes: 0.17,
+  audi: 0.16,
+  tesla: 0.15,
+};
+const DEFAULT_DEPRECIATION_RATE = 0.13;
+
+// Share of the new price lost when the car leaves the lot, and the floor
+const FIRST_YEAR_DEPRECIATION = 0.2;
+const MINIMUM_RETAINED_VALUE = 0.08;
+
+export const MILES_PER_YEAR = 12000;
+// Value change per 1,000 miles away from the typical mileage, capped
+const MILEAGE_ADJUSTMENT_PER_THOUSAND = 0.004;
+const MAX_MILEAGE_ADJUSTMENT = 0.25;
+
+const CONDITION_FACTORS: Record<VehicleCondition, number> = {
+  excellent: 1.08,
+  good: 1,
+  fair: 0.88,
+  poor: 0.72,
+};
+
+const REGION_FACTORS: Record<VehicleRegion, number> = {
+  northeast: 1,
+  midwest: 0.97,
+  south: 0.99,
+  west: 1.04,
+};
+
+// Trim keywords, matched against the trim name in order
+const TRIM_FACTORS: { pattern: RegExp; factor: number }[] = [
+  { pattern: /platinum|limited|prestige|signature|denali/i, factor: 1.15 },
+  { pattern: /touring|premium|lariat|luxury|xse|ex-l/i, factor: 1.1 },
+  { pattern: /sport|xle|\bex\b|\bsel\b|\bgt\b|\bst\b/i, factor: 1.05 },
+  { pattern: /base|\bl\b|\bs\b/i, factor: 0.96 },
+];
+
+const DEALER_LOCATIONS: Record<VehicleRegion, VehicleListing["dealer"][]> = {
+  northeast: [
+    { city: "New York", state: "NY" },
+    { city: "Boston", state: "MA" },
+    { city: "Philadelphia", state: "PA" },
+  ],
+  midwest: [
+    { city: "Chicago", state: "IL" },
+    { city: "Columbus", state: "OH" },
+    { city: "Minneapolis", state: "MN" },
+  ],
+  south: [
+    { city: "Houston", state: "TX" },
+    { city: "Atlanta", state: "GA" },
+    { city: "Miami", state: "FL" },
+  ],
+  west: [
+    { city: "Los Angeles", state: "CA" },
+    { city: "Phoenix", state: "AZ" },
+    { city: "Seattle", state: "WA" },
+  ],
+};
+
+const LISTING_TRIMS = ["Base", "SE", "Sport", "Touring", "Limited"];
+
+/**
+ * Hash a string into a 32-bit seed
+ */
+function getSeed(value: string) {
+  let hash = 2166136261;
+  for (const char of value) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded random number generator returning values in [0, 1)
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Look up the price of a model when new
+ * @returns The price, and whether the model was found
+ */
+function getNewPrice(make: string, model: string) {
+  const price = NEW_PRICES[make.toLowerCase()]?.[model.toLowerCase()];
+  return { price: price ?? DEFAULT_NEW_PRICE, known: price !== undefined };
+}
+
+/**
+ * Share of the new price a car keeps at a given age
+ * @param make The make, which sets the yearly rate
+ * @param age The age in years
+ */
+export function getRetainedValue(make: string, age: number) {
+  if (age <= 0) return 1 - FIRST_YEAR_DEPRECIATION / 2;
+
+  const rate =
+    MAKE_DEPRECIATION_RATES[make.toLowerCase()] ?? DEFAULT_DEPRECIATION_RATE;
+  const retained =
+    (1 - FIRST_YEAR_DEPRECIATION) * Math.pow(1 - rate, Math.max(0, age - 1));
+
+  return Math.max(MINIMUM_RETAINED_VALUE, retained);
+}
+
+/**
+ * Get the price factor of a trim level
+ * @param trim The trim name, e.g. "XLE"
+ */
+function getTrimFactor(trim?: string) {
+  if (!trim) return 1;
+  return TRIM_FACTORS.find(({ pattern }) => pattern.test(trim))?.factor ?? 1;
+}
+
+/**
+ * Get the value adjustment for mileage above or below typical
+ * @param mileage The odometer reading
+ * @param age The age in years
+ */
+function getMileageFactor(mileage: number | undefined, age: number) {
+  if (mileage === undefined) return 1;
+
+  const expected = MILES_PER_YEAR * Math.max(age, 0.5);
+  const adjustment =
+    ((expected - mileage) / 1000) * MILEAGE_ADJUSTMENT_PER_THOUSAND;
+
+  return (
+    1 +
+    Math.min(
+      MAX_MILEAGE_ADJUSTMENT,
+      Math.max(-MAX_MILEAGE_ADJUSTMENT, adjustment),
+    )
+  );
+}
+
+/**
+ * Get how far either side of the estimate the range extends
+ */
+function getRangeSpread(request: VehicleValuationRequest, age: number) {
+  let spread = 0.06;
+  if (!request.trim) spread += 0.02;
+  if (request.mileage === undefined) spread += 0.04;
+  if (!request.condition) spread += 0.03;
+  if (!request.region) spread += 0.01;
+  if (!getNewPrice(request.make, request.model).known) spread += 0.08;
+  // Older cars vary more with history and upkeep
+  spread += Math.max(0, age - 5) * 0.005;
+
+  return Math.min(spread, 0.35);
+}
+
+/**
+ * Describe a range spread as a confidence level
+ */
+function getConfidence(spread: number): ValuationConfidence {
+  if (spread <= 0.1) return "high";
+  if (spread <= 0.18) return "medium";
+  return "low";
+}
+
+/**
+ * Value a vehicle with the depreciation model
+ * @param request The vehicle to value
+ * @param now The valuation date, defaults to today
+ */
+export function estimateVehicleValue(
+  request: VehicleValuationRequest,
+  now: Date = new Date(),
+) {
+  const age = Math.max(0, now.getFullYear() - request.year);
+  const { price: newPrice } = getNewPrice(request.make, request.model);
+
+  const value =
+    newPrice *
+    getRetainedValue(request.make, age) *
+    getTrimFactor(request.trim) *
+    getMileageFactor(request.mileage, age) *
+    CONDITION_FACTORS[request.condition || "good"] *
+    REGION_FACTORS[request.region || "northeast"];
+  const spread = getRangeSpread(request, age);
+
+  return {
+    value: Math.round(value),
+    low: Math.round(value * (1 - spread)),
+    high: Math.round(value * (1 + spread)),
+    confidence: getConfidence(spread),
+    age,
+  };
+}
+
+/**
+ * Generate comparable listings around an estimate
+ */
+function generateListings(
+  request: VehicleValuationRequest,
+  estimate: ReturnType<typeof estimateVehicleValue>,
+) {
+  const random = createRandom(
+    getSeed(
+      [request.make, request.model, request.year, request.region || ""]
+        .join("|")
+        .toLowerCase(),
+    ),
+  );
+  const count = 3 + Math.floor(random() * 5);
+  const locations = DEALER_LOCATIONS[request.region || "northeast"];
+  const listings: VehicleListing[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const trim = LISTING_TRIMS[Math.floor(random() * LISTING_TRIMS.length)];
+    const miles = Math.round(
+      MILES_PER_YEAR * Math.max(estimate.age, 0.5) * (0.6 + random() * 0.8),
+    );
+    // Price each listing with the model, then spread it across the range
+    const listingEstimate = estimateVehicleValue({
+      ...request,
+      trim,
+      mileage: miles,
+    });
+    const price =
+      listingEstimate.value *
+      (1 +
+        (random() - 0.5) * ((estimate.high - estimate.low) / estimate.value));
+
+    listings.push({
+      id: `${request.year}-${request.make}-${request.model}-${i}`
+        .toLowerCase()
+        .replace(/\s+/g, "-"),
+      price: Math.round(price),
+      miles,
+      build: {
+        year: String(request.year),
+        make: request.make,
+        model: request.model,
+        trim,
+      },
+      dealer: locations[Math.floor(random() * locations.length)],
+    });
+  }
+
+  return {
+    listings,
+    totalListings: count + Math.floor(random() * 20),
+  };
+}
+
+/**
+ * Create the provider backed by the depreciation model
+ */
+export function createDepreciationModelProvider(): VehicleValuationProvider {
+  return {
+    name: "model",
+    async valueVehicle(request) {
+      const estimate = estimateVehicleValue(request);
+      const { listings, totalListings } = generateListings(request, estimate);
+
+      return {
+        value: estimate.value,
+        averagePrice: estimate.value,
+        low: estimate.low,
+        high: estimate.high,
+        confidence: estimate.confidence,
+        totalListings,
+        listings,
+        provider: "model",
+      };
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Vehicle valuation
+ *
+ * Estimates go through a VehicleValuationProvider chosen by
+ * VEHICLE_VALUATION_PROVIDER. The only provider today is "model" (default),
+ * a deterministic depreciation model, so the same car always gets the same
+ * estimate. A MarketCheck adapter can implement the same interface once
+ * their API is reachable.
+ */
+import { createDepreciationModelProvider } from "./vehicle-valuation-model";
+
+export type VehicleCondition = "excellent" | "good" | "fair" | "poor";
+
+export type VehicleRegion = "northeast" | "midwest" | "south" | "west";
+
+export type ValuationConfidence = "high" | "medium" | "low";
+
+export const VEHICLE_CONDITIONS: { value: VehicleCondition; label: string }[] =
+  [
+    { value: "excellent", label: "Excellent" },
+    { value: "good", label: "Good" },
+    { value: "fair", label: "Fair" },
+    { value: "poor", label: "Poor" },
+  ];
+
+export const VEHICLE_REGIONS: { value: VehicleRegion; label: string }[] = [
+  { value: "northeast", label: "Northeast" },
+  { value: "midwest", label: "Midwest" },
+  { value: "south", label: "South" },
+  { value: "west", label: "West" },
+];
+
+export interface VehicleValuationRequest {
+  make: string;
+  model: string;
+  year: number;
+  trim?: string;
+  mileage?: number;
+  condition?: VehicleCondition;
+  region?: VehicleRegion;
+}
+
+export interface VehicleListing {
+  id: string;
+  price: number;
+  miles: number;
+  build: {
+    year: string;
+    make: string;
+    model: string;
+    trim: string;
+  };
+  dealer: {
+    city: string;
+    state: string;
+  };
+}
+
+export interface VehicleValuation {
+  // The point estimate, kept as averagePrice for existing callers
+  value: number;
+  averagePrice: number;
+  // The range the market value most likely falls in
+  low: number;
+  high: number;
+  confidence: ValuationConfidence;
+  totalListings: number;
+  listings: VehicleListing[];
+  provider: string;
+}
+
+export interface VehicleValuationProvider {
+  name: string;
+  /**
+   * Estimate the market value of a vehicle
+   */
+  valueVehicle(request: VehicleValuationRequest): Promise<VehicleValuation>;
+}
+
+/**
+ * Check whether a string is a supported vehicle condition
+ * @param value The value to check, e.g. a query parameter
+ */
+export function isVehicleCondition(value: string): value is VehicleCondition {
+  return VEHICLE_CONDITIONS.some((condition) => condition.value === value);
+}
+
+/**
+ * Check whether a string is a supported region
+ * @param value The value to check, e.g. a query parameter
+ */
+export function isVehicleRegion(value: string): value is VehicleRegion {
+  return VEHICLE_REGIONS.some((region) => region.value === value);
+}
+
+/**
+ * Get the configured vehicle valuation provider
+ */
+export function getVehicleValuationProvider(): VehicleValuationProvider {
+  const configured = process.env.VEHICLE_VALUATION_PROVIDER || "model";
+
+  switch (configured) {
+    case "model":
+      return createDepreciationModelProvider();
+    default:
+      throw new Error(`Unsupported vehicle valuation provider: ${configured}`);
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Vehicle assets and their ongoing revaluation
+ *
+ * Vehicles added through CarSearch store in assets.metadata:
+ * - asset_type "vehicle", make, model, year and optionally vin and trim
+ * - mileage and mileage_recorded_at: the odometer reading and when it was
+ *   taken; later valuations assume the usual yearly mileage since then
+ * - condition and region, used by the valuation engine
+ * - last_valued_at and the valuation range from the latest estimate
+ *
+ * Auto loans link to their vehicle through liability_details.secured_asset_id,
+ * see fetchSecuredLoans.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getVehicleValuationProvider,
+  isVehicleCondition,
+  isVehicleRegion,
+  type VehicleValuationRequest,
+} from "./vehicle-valuation";
+import { MILES_PER_YEAR } from "./vehicle-valuation-model";
+
+// Vehicles valued more recently than this are skipped by the scheduled job
+export const VEHICLE_REVALUATION_INTERVAL_DAYS = 28;
+
+export interface VehicleRevaluationSummary {
+  updated: number;
+  unchanged: number;
+  // Vehicles valued within the revaluation interval
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Estimate the current odometer reading from the last recorded one
+ * @param metadata The vehicle's metadata
+ * @param now The date to estimate for
+ * @returns The estimated mileage, or undefined if none was recorded
+ */
+export function estimateCurrentMileage(
+  metadata: Record<string, any>,
+  now: Date = new Date(),
+) {
+  if (metadata.mileage == null || metadata.mileage === "") return undefined;
+
+  const mileage = Number(metadata.mileage);
+  if (!metadata.mileage_recorded_at) return mileage;
+
+  const years =
+    (now.getTime() - new Date(metadata.mileage_recorded_at).getTime()) /
+    (365.25 * 24 * 60 * 60 * 1000);
+
+  return Math.round(mileage + Math.max(0, years) * MILES_PER_YEAR);
+}
+
+/**
+ * Build a valuation request from a vehicle's metadata
+ * @param metadata The vehicle's metadata
+ * @returns The request, or null if make, model or year is missing
+ */
+export function toVehicleValuationRequest(
+  metadata: Record<string, any>,
+): VehicleValuationRequest | null {
+  const year = parseInt(metadata.year);
+  if (!metadata.make || !metadata.model || isNaN(year)) return null;
+
+  return {
+    make: metadata.make,
+    model: metadata.model,
+    year,
+    trim: metadata.trim || undefined,
+    mileage: estimateCurrentMileage(metadata),
+    condition: isVehicleCondition(metadata.condition)
+      ? metadata.condition
+      : undefined,
+    region: isVehicleRegion(metadata.region) ? metadata.region : undefined,
+  };
+}
+
+/**
+ * Fetch the user's vehicle assets
+ * @param supabase A Supabase client carrying the user's session
+ */
+export async function fetchVehicles(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("assets")
+    .select("id, name, value, currency, metadata")
+    .eq("is_liability", false)
+    .eq("metadata->>asset_type", "vehicle")
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching vehicles:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Revalue every vehicle not valued within the revaluation interval. Each
+ * change is written with value_source "car_valuation", so the asset history
+ * triggers record the depreciation.
+ * @param supabase A Supabase client with the service role
+ * @param now The valuation date, defaults to today
+ */
+export async function revalueVehicles(
+  supabase: SupabaseClient,
+  now: Date = new Date(),
+): Promise<VehicleRevaluationSummary> {
+  const { data: assets, error } = await supabase
+    .from("assets")
+    .select("id, value, metadata")
+    .eq("is_liability", false)
+    .eq("metadata->>asset_type", "vehicle");
+
+  if (error) {
+    console.error("Error fetching vehicles:", error);
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const summary: VehicleRevaluationSummary = {
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  const provider = getVehicleValuationProvider();
+  const dueBefore =
+    now.getTime() - VEHICLE_REVALUATION_INTERVAL_DAYS * 24 * 60 * 60 * 1000;
+
+  for (const asset of assets || []) {
+    const metadata = asset.metadata || {};
+
+    if (
+      metadata.last_valued_at &&
+      new Date(metadata.last_valued_at).getTime() > dueBefore
+    ) {
+      summary.skipped++;
+      continue;
+    }
+
+    const valuationRequest = toVehicleValuationRequest(metadata);
+    if (!valuationRequest) {
+      summary.failed++;
+      continue;
+    }
+
+    let valuation;
+    try {
+      valuation = await provider.valueVehicle(valuationRequest);
+    } catch (valuationError) {
+      console.error(`Error valuing vehicle ${asset.id}:`, valuationError);
+      summary.failed++;
+      continue;
+    }
+
+    const changed =
+      Math.abs(valuation.value - (Number(asset.value) || 0)) >= 0.005;
+
+    const { error: updateError } = await supabase
+      .from("assets")
+      .update({
+        value: valuation.value,
+        value_source: "car_valuation",
+        metadata: {
+          ...metadata,
+          price_per_share: valuation.value,
+          estimated_mileage: valuationRequest.mileage ?? null,
+          valuation_low: valuation.low,
+          valuation_high: valuation.high,
+          valuation_confidence: valuation.confidence,
+          valuation_provider: valuation.provider,
+          last_valued_at: now.toISOString(),
+        },
+        updated_at: now.toISOString(),
+      })
+      .eq("id", asset.id);
+
+    if (updateError) {
+      console.error(`Error revaluing vehicle ${asset.id}:`, updateError);
+      summary.failed++;
+    } else if (changed) {
+      summary.updated++;
+    } else {
+      summary.unchanged++;
+    }
+  }
+
+  return summary;
+}
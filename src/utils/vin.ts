@@ -0,0 +1,298 @@
+/**
+ * Offline VIN decoding
+ *
+ * Decodes a 17-character Vehicle Identification Number without any network
+ * call:
+ * - positions 1-3, the World Manufacturer Identifier, from a bundled table
+ * - position 9, the check digit, which must match the weighted sum of the
+ *   other characters for vehicles built for North America
+ * - position 10, the model year; for North American vehicles a letter in
+ *   position 7 marks the 2010-2039 cycle
+ * - position 11, the manufacturer's plant code
+ */
+
+export interface VinManufacturer {
+  make: string;
+  country: string;
+}
+
+export interface DecodedVin {
+  vin: string;
+  // False when the VIN has errors; warnings don't make it invalid
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  wmi: string;
+  manufacturer: VinManufacturer | null;
+  modelYear: number | null;
+  plantCode: string | null;
+  serialNumber: string;
+  checkDigitValid: boolean;
+}
+
+// World Manufacturer Identifiers of common makes
+const WMI_MANUFACTURERS: Record<string, VinManufacturer> = {
+  // Toyota
+  JTD: { make: "Toyota", country: "Japan" },
+  JTE: { make: "Toyota", country: "Japan" },
+  JTM: { make: "Toyota", country: "Japan" },
+  JTN: { make: "Toyota", country: "Japan" },
+  JT2: { make: "Toyota", country: "Japan" },
+  JT3: { make: "Toyota", country: "Japan" },
+  "2T1": { make: "Toyota", country: "Canada" },
+  "2T3": { make: "Toyota", country: "Canada" },
+  "3TM": { make: "Toyota", country: "Mexico" },
+  "4T1": { make: "Toyota", country: "United States" },
+  "4T3": { make: "Toyota", country: "United States" },
+  "5TD": { make: "Toyota", country: "United States" },
+  "5TF": { make: "Toyota", country: "United States" },
+  "5YF": { make: "Toyota", country: "United States" },
+  // Lexus
+  JTH: { make: "Lexus", country: "Japan" },
+  JTJ: { make: "Lexus", country: "Japan" },
+  "2T2": { make: "Lexus", country: "Canada" },
+  "58A": { make: "Lexus", country: "United States" },
+  // Honda
+  JHM: { make: "Honda", country: "Japan" },
+  JHL: { make: "Honda", country: "Japan" },
+  "1HG": { make: "Honda", country: "United States" },
+  "2HG": { make: "Honda", country: "Canada" },
+  "2HK": { make: "Honda", country: "Canada" },
+  "5FN": { make: "Honda", country: "United States" },
+  "5J6": { make: "Honda", country: "United States" },
+  "7FA": { make: "Honda", country: "United States" },
+  SHH: { make: "Honda", country: "United Kingdom" },
+  // Ford
+  "1FA": { make: "Ford", country: "United States" },
+  "1FM": { make: "Ford", country: "United States" },
+  "1FT": { make: "Ford", country: "United States" },
+  "2FM": { make: "Ford", country: "Canada" },
+  "3FA": { make: "Ford", country: "Mexico" },
+  "3FM": { make: "Ford", country: "Mexico" },
+  "3FT": { make: "Ford", country: "Mexico" },
+  WF0: { make: "Ford", country: "Germany" },
+  // Chevrolet
+  "1G1": { make: "Chevrolet", country: "United States" },
+  "1GC": { make: "Chevrolet", country: "United States" },
+  "1GN": { make: "Chevrolet", country: "United States" },
+  "2G1": { make: "Chevrolet", country: "Canada" },
+  "3GC": { make: "Chevrolet", country: "Mexico" },
+  "3GN": { make: "Chevrolet", country: "Mexico" },
+  // BMW
+  WBA: { make: "BMW", country: "Germany" },
+  WBS: { make: "BMW", country: "Germany" },
+  WBY: { make: "BMW", country: "Germany" },
+  "5UX": { make: "BMW", country: "United States" },
+  // Mercedes-Benz
+  WDB: { make: "Mercedes", country: "Germany" },
+  WDC: { make: "Mercedes", country: "Germany" },
+  WDD: { make: "Mercedes", country: "Germany" },
+  W1K: { make: "Mercedes", country: "Germany" },
+  W1N: { make: "Mercedes", country: "Germany" },
+  "4JG": { make: "Mercedes", country: "United States" },
+  "55S": { make: "Mercedes", country: "United States" },
+  // Audi
+  WAU: { make: "Audi", country: "Germany" },
+  WA1: { make: "Audi", country: "Germany" },
+  WUA: { make: "Audi", country: "Germany" },
+  TRU: { make: "Audi", country: "Hungary" },
+  // Tesla
+  "5YJ": { make: "Tesla", country: "United States" },
+  "7SA": { make: "Tesla", country: "United States" },
+  "7G2": { make: "Tesla", country: "United States" },
+  LRW: { make: "Tesla", country: "China" },
+  XP7: { make: "Tesla", country: "Germany" },
+  // Volkswagen
+  WVW: { make: "Volkswagen", country: "Germany" },
+  WVG: { make: "Volkswagen", country: "Germany" },
+  "1VW": { make: "Volkswagen", country: "United States" },
+  "1V2": { make: "Volkswagen", country: "United States" },
+  "3VW": { make: "Volkswagen", country: "Mexico" },
+  "3VV": { make: "Volkswagen", country: "Mexico" },
+  // Hyundai
+  KMH: { make: "Hyundai", country: "South Korea" },
+  KM8: { make: "Hyundai", country: "South Korea" },
+  "5NP": { make: "Hyundai", country: "United States" },
+  "5NM": { make: "Hyundai", country: "United States" },
+  // Kia
+  KNA: { make: "Kia", country: "South Korea" },
+  KND: { make: "Kia", country: "South Korea" },
+  "5XX": { make: "Kia", country: "United States" },
+  "5XY": { make: "Kia", country: "United States" },
+  "3KP": { make: "Kia", country: "Mexico" },
+  // Nissan
+  JN1: { make: "Nissan", country: "Japan" },
+  JN8: { make: "Nissan", country: "Japan" },
+  "1N4": { make: "Nissan", country: "United States" },
+  "1N6": { make: "Nissan", country: "United States" },
+  "3N1": { make: "Nissan", country: "Mexico" },
+  "5N1": { make: "Nissan", country: "United States" },
+  // Subaru
+  JF1: { make: "Subaru", country: "Japan" },
+  JF2: { make: "Subaru", country: "Japan" },
+  "4S3": { make: "Subaru", country: "United States" },
+  "4S4": { make: "Subaru", country: "United States" },
+  // Mazda
+  JM1: { make: "Mazda", country: "Japan" },
+  JM3: { make: "Mazda", country: "Japan" },
+  "3MZ": { make: "Mazda", country: "Mexico" },
+  "3MV": { make: "Mazda", country: "Mexico" },
+  "7MM": { make: "Mazda", country: "United States" },
+};
+
+// Value of each character in the check digit sum
+const TRANSLITERATION: Record<string, number> = {
+  A: 1,
+  B: 2,
+  C: 3,
+  D: 4,
+  E: 5,
+  F: 6,
+  G: 7,
+  H: 8,
+  J: 1,
+  K: 2,
+  L: 3,
+  M: 4,
+  N: 5,
+  P: 7,
+  R: 9,
+  S: 2,
+  T: 3,
+  U: 4,
+  V: 5,
+  W: 6,
+  X: 7,
+  Y: 8,
+  Z: 9,
+};
+
+// Weight of each position in the check digit sum; position 9 is the digit
+const POSITION_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Model year codes in order, starting from 1980 and repeating every 30 years
+const MODEL_YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+const FIRST_MODEL_YEAR = 1980;
+
+/**
+ * Clean up a VIN as typed by a user
+ * @param vin The VIN, in any case and possibly with spaces or dashes
+ */
+export function normalizeVin(vin: string) {
+  return vin.toUpperCase().replace(/[\s-]/g, "");
+}
+
+/**
+ * Get the value of a VIN character in the check digit sum
+ */
+function getCharacterValue(char: string) {
+  if (/[0-9]/.test(char)) return Number(char);
+  return TRANSLITERATION[char];
+}
+
+/**
+ * Calculate the check digit of a VIN
+ * @param vin A normalized 17-character VIN
+ * @returns The expected check digit, "0"-"9" or "X"
+ */
+export function calculateCheckDigit(vin: string) {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    sum += (getCharacterValue(vin[i]) ?? 0) * POSITION_WEIGHTS[i];
+  }
+
+  const remainder = sum % 11;
+  return remainder === 10 ? "X" : String(remainder);
+}
+
+/**
+ * Decode the model year from positions 7 and 10
+ * @param vin A normalized 17-character VIN
+ * @param northAmerican Whether the vehicle follows the North American rules
+ * @param now Used to pick the cycle of non-North American vehicles
+ */
+function decodeModelYear(vin: string, northAmerican: boolean, now: Date) {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) return null;
+
+  const firstCycle = FIRST_MODEL_YEAR + index;
+
+  if (northAmerican) {
+    return /[A-Z]/.test(vin[6]) ? firstCycle + 30 : firstCycle;
+  }
+
+  // Otherwise take the latest cycle that isn't past next year's models
+  const latestYear = now.getFullYear() + 1;
+  let year = firstCycle;
+  while (year + 30 <= latestYear) {
+    year += 30;
+  }
+  return year;
+}
+
+/**
+ * Decode a VIN
+ * @param input The VIN as entered
+ * @param now The date used to resolve the model year cycle
+ */
+export function decodeVin(input: string, now: Date = new Date()): DecodedVin {
+  const vin = normalizeVin(input);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const decoded: DecodedVin = {
+    vin,
+    valid: false,
+    errors,
+    warnings,
+    wmi: vin.slice(0, 3),
+    manufacturer: null,
+    modelYear: null,
+    plantCode: null,
+    serialNumber: vin.slice(11),
+    checkDigitValid: false,
+  };
+
+  if (vin.length !== 17) {
+    errors.push(`A VIN has 17 characters, this one has ${vin.length}`);
+    return decoded;
+  }
+
+  if (/[IOQ]/.test(vin)) {
+    errors.push("A VIN never contains the letters I, O or Q");
+  }
+
+  if (!/^[A-HJ-NPR-Z0-9]{17}$/.test(vin)) {
+    errors.push("A VIN only contains letters and digits");
+    return decoded;
+  }
+
+  // Vehicles built for North America start with 1-5 and must carry a
+  // valid check digit; elsewhere it is optional
+  const northAmerican = /^[1-5]/.test(vin);
+
+  decoded.manufacturer = WMI_MANUFACTURERS[decoded.wmi] || null;
+  if (!decoded.manufacturer) {
+    warnings.push(`Unknown manufacturer code ${decoded.wmi}`);
+  }
+
+  decoded.checkDigitValid = calculateCheckDigit(vin) === vin[8];
+  if (!decoded.checkDigitValid) {
+    const message = `Check digit ${vin[8]} doesn't match, expected ${calculateCheckDigit(vin)}. Check the VIN for typos.`;
+    if (northAmerican) {
+      errors.push(message);
+    } else {
+      warnings.push(message);
+    }
+  }
+
+  decoded.modelYear = decodeModelYear(vin, northAmerican, now);
+  if (decoded.modelYear === null) {
+    errors.push(`Invalid model year code ${vin[9]}`);
+  }
+
+  decoded.plantCode = vin[10];
+  decoded.valid = errors.length === 0;
+
+  return decoded;
+}
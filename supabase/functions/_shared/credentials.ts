@@ -0,0 +1,213 @@
+/**
+ * Envelope encryption for the broker credentials in broker_connections
+ *
+ * Each secret is encrypted with its own random AES-256-GCM data key, and the
+ * data key is encrypted ("wrapped") with a server master key:
+ * - api_secret_encrypted: the secret, encrypted with the data key
+ * - api_secret_data_key: the data key, wrapped with the master key
+ * - api_secret_key_version: the version of the master key that wrapped it
+ *
+ * Master keys are configured as CREDENTIAL_MASTER_KEYS, a comma-separated
+ * list of "<version>:<base64 key>" pairs such as "2:...,1:...". New secrets
+ * use the highest version; older versions are kept until rotation has
+ * re-wrapped every data key. Generate a key with `openssl rand -base64 32`.
+ *
+ * The module only uses Web Crypto, so it runs both in the edge functions
+ * and in the Next.js server.
+ */
+
+export interface MasterKey {
+  version: number;
+  key: Uint8Array;
+}
+
+// The credential columns of a broker_connections row
+export interface CredentialColumns {
+  api_secret_encrypted: string | null;
+  api_secret_data_key: string | null;
+  // Null for secrets written before encryption, which are stored as is
+  api_secret_key_version: number | null;
+}
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * Parse the master keys configuration
+ * @param value The CREDENTIAL_MASTER_KEYS value
+ * @returns The keys, current version first
+ */
+export function parseMasterKeys(value: string | undefined): MasterKey[] {
+  if (!value) {
+    throw new Error("CREDENTIAL_MASTER_KEYS is not configured");
+  }
+
+  const keys = value.split(",").map((entry) => {
+    const [version, encoded] = entry.trim().split(":");
+    let key = new Uint8Array();
+    try {
+      key = fromBase64(encoded || "");
+    } catch {
+      // Reported as an invalid key below
+    }
+
+    if (!/^\d+$/.test(version) || key.length !== KEY_BYTES) {
+      throw new Error(
+        `Invalid master key "${version}": expected <version>:<base64 32-byte key>`,
+      );
+    }
+    return { version: Number(version), key };
+  });
+
+  return keys.sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Encrypt a secret under a new data key and the current master key
+ * @param secret The plaintext secret
+ * @param masterKeys The configured master keys, current version first
+ */
+export async function encryptCredential(
+  secret: string,
+  masterKeys: MasterKey[],
+): Promise<CredentialColumns> {
+  const [current] = masterKeys;
+  const dataKey = crypto.getRandomValues(new Uint8Array(KEY_BYTES));
+
+  return {
+    api_secret_encrypted: await seal(dataKey, new TextEncoder().encode(secret)),
+    api_secret_data_key: await seal(current.key, dataKey),
+    api_secret_key_version: current.version,
+  };
+}
+
+/**
+ * Decrypt the secret stored in a row
+ * @param columns The row's credential columns
+ * @param masterKeys The configured master keys
+ * @returns The plaintext secret; legacy rows are returned as stored
+ */
+export async function decryptCredential(
+  columns: CredentialColumns,
+  masterKeys: MasterKey[],
+): Promise<string> {
+  if (columns.api_secret_key_version == null) {
+    return columns.api_secret_encrypted || "";
+  }
+
+  const dataKey = await unwrapDataKey(columns, masterKeys);
+  return new TextDecoder().decode(
+    await open(dataKey, columns.api_secret_encrypted || ""),
+  );
+}
+
+/**
+ * Bring a row up to the current master key. Only the data key is
+ * re-wrapped; legacy rows are encrypted for the first time.
+ * @param columns The row's credential columns
+ * @param masterKeys The configured master keys, current version first
+ * @returns The new column values, or null when the row is already current
+ */
+export async function rotateCredential(
+  columns: CredentialColumns,
+  masterKeys: MasterKey[],
+): Promise<CredentialColumns | null> {
+  const [current] = masterKeys;
+
+  if (columns.api_secret_key_version === current.version) {
+    return null;
+  }
+  if (columns.api_secret_key_version == null) {
+    return encryptCredential(columns.api_secret_encrypted || "", masterKeys);
+  }
+
+  const dataKey = await unwrapDataKey(columns, masterKeys);
+  return {
+    api_secret_encrypted: columns.api_secret_encrypted,
+    api_secret_data_key: await seal(current.key, dataKey),
+    api_secret_key_version: current.version,
+  };
+}
+
+/**
+ * Check whether a row holds an exchange secret from before encryption,
+ * which connect-broker stored as a SHA-256 hash that cannot be reversed
+ * @param row A broker_connections row with broker_id and the credential
+ * columns
+ */
+export function isHashedLegacySecret(
+  row: CredentialColumns & { broker_id: string },
+) {
+  return (
+    row.api_secret_key_version == null &&
+    row.broker_id !== "snaptrade" &&
+    /^[0-9a-f]{64}$/.test(row.api_secret_encrypted || "")
+  );
+}
+
+async function unwrapDataKey(
+  columns: CredentialColumns,
+  masterKeys: MasterKey[],
+) {
+  const masterKey = masterKeys.find(
+    (candidate) => candidate.version === columns.api_secret_key_version,
+  );
+  if (!masterKey) {
+    throw new Error(
+      `Master key version ${columns.api_secret_key_version} is not configured`,
+    );
+  }
+  return open(masterKey.key, columns.api_secret_data_key || "");
+}
+
+// Encrypt with AES-256-GCM; the result is base64(iv || ciphertext || tag)
+async function seal(key: Uint8Array, plaintext: Uint8Array) {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    "AES-GCM",
+    false,
+    ["encrypt"],
+  );
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv }, cryptoKey, plaintext),
+  );
+
+  const sealed = new Uint8Array(iv.length + ciphertext.length);
+  sealed.set(iv);
+  sealed.set(ciphertext, iv.length);
+  return toBase64(sealed);
+}
+
+// Decrypt a value produced by seal; throws if it was tampered with
+async function open(key: Uint8Array, sealed: string) {
+  const bytes = fromBase64(sealed);
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    "AES-GCM",
+    false,
+    ["decrypt"],
+  );
+
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: bytes.slice(0, IV_BYTES) },
+        cryptoKey,
+        bytes.slice(IV_BYTES),
+      ),
+    );
+  } catch {
+    throw new Error("Stored credential could not be decrypted");
+  }
+}
+
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...Array.from(bytes)));
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,138 @@
+// Binance spot connector: https://developers.binance.com/docs/binance-spot-api-docs/rest-api
+import { hmac, toHex } from "./signing.ts";
+import {
+  ExchangeError,
+  type ExchangeConnector,
+  type ExchangeCredentials,
+  type ExchangeTrade,
+  type Fetch,
+} from "./types.ts";
+
+const BINANCE_BASE_URL = "https://api.binance.com";
+
+// Trades are listed per market; holdings are looked up against this quote
+const TRADE_QUOTE_ASSET = "USDT";
+const STABLE_ASSETS = ["USDT", "USDC", "FDUSD", "BUSD", "DAI"];
+
+// Binance's error code for a market that does not exist
+const INVALID_SYMBOL_CODE = -1121;
+
+// A balance in the /api/v3/account response; amounts are decimal strings
+interface BinanceBalance {
+  asset: string;
+  free: string;
+  locked: string;
+}
+
+export function createBinanceConnector(
+  fetcher: Fetch = fetch,
+): ExchangeConnector {
+  // Call a signed endpoint; the query string is signed with the API secret
+  const signedRequest = async (
+    credentials: ExchangeCredentials,
+    path: string,
+    params: Record<string, string> = {},
+  ) => {
+    const query = new URLSearchParams({
+      ...params,
+      recvWindow: "5000",
+      timestamp: Date.now().toString(),
+    }).toString();
+    const signature = toHex(
+      await hmac("SHA-256", credentials.apiSecret, query),
+    );
+
+    const response = await fetcher(
+      `${BINANCE_BASE_URL}${path}?${query}&signature=${signature}`,
+      {
+        method: "GET",
+        headers: { "X-MBX-APIKEY": credentials.apiKey },
+      },
+    );
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new ExchangeError(
+        "binance",
+        data?.msg || `API error: ${response.status}`,
+        data?.code,
+      );
+    }
+
+    return data;
+  };
+
+  const fetchBalances = async (credentials: ExchangeCredentials) => {
+    const account = await signedRequest(credentials, "/api/v3/account", {
+      omitZeroBalances: "true",
+    });
+
+    return ((account.balances || []) as BinanceBalance[])
+      .map((balance) => ({
+        asset: balance.asset,
+        symbol: balance.asset,
+        quantity:
+          (parseFloat(balance.free) || 0) + (parseFloat(balance.locked) || 0),
+      }))
+      .filter((balance) => balance.quantity > 0);
+  };
+
+  return {
+    id: "binance",
+    name: "Binance",
+
+    async validateCredentials(credentials) {
+      const account = await signedRequest(credentials, "/api/v3/account", {
+        omitZeroBalances: "true",
+      });
+      return {
+        canTrade: account.canTrade ?? null,
+        canWithdraw: account.canWithdraw ?? null,
+      };
+    },
+
+    fetchBalances,
+
+    async fetchTrades(credentials, since) {
+      const trades: ExchangeTrade[] = [];
+      const markets = (await fetchBalances(credentials))
+        .filter((balance) => !STABLE_ASSETS.includes(balance.asset))
+        .map((balance) => `${balance.asset}${TRADE_QUOTE_ASSET}`);
+
+      for (const market of markets) {
+        let page: any[];
+        try {
+          page = await signedRequest(credentials, "/api/v3/myTrades", {
+            symbol: market,
+            startTime: since.getTime().toString(),
+            limit: "1000",
+          });
+        } catch (error) {
+          // Assets without a USDT market were never traded against it
+          if (
+            error instanceof ExchangeError &&
+            error.code === INVALID_SYMBOL_CODE
+          ) {
+            continue;
+          }
+          throw error;
+        }
+
+        for (const trade of page) {
+          trades.push({
+            id: `${market}:${trade.id}`,
+            market,
+            side: trade.isBuyer ? "buy" : "sell",
+            quantity: parseFloat(trade.qty) || 0,
+            price: parseFloat(trade.price) || 0,
+            fee: parseFloat(trade.commission) || 0,
+            executedAt: new Date(trade.time).toISOString(),
+          });
+        }
+      }
+
+      return trades.sort((a, b) => a.executedAt.localeCompare(b.executedAt));
+    },
+  };
+}
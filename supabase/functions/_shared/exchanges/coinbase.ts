@@ -0,0 +1,146 @@
+// Coinbase Advanced Trade connector, with HMAC-signed API keys:
+// https://docs.cdp.coinbase.com/advanced-trade/reference
+import { hmac, toHex } from "./signing.ts";
+import {
+  ExchangeError,
+  type ExchangeBalance,
+  type ExchangeConnector,
+  type ExchangeCredentials,
+  type ExchangeTrade,
+  type Fetch,
+} from "./types.ts";
+
+const COINBASE_BASE_URL = "https://api.coinbase.com";
+
+export function createCoinbaseConnector(
+  fetcher: Fetch = fetch,
+): ExchangeConnector {
+  // Call a signed endpoint; the signature covers the path without its query
+  const signedRequest = async (
+    credentials: ExchangeCredentials,
+    path: string,
+    params: Record<string, string> = {},
+  ) => {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = toHex(
+      await hmac("SHA-256", credentials.apiSecret, `${timestamp}GET${path}`),
+    );
+    const query = new URLSearchParams(params).toString();
+
+    const response = await fetcher(
+      `${COINBASE_BASE_URL}${path}${query ? `?${query}` : ""}`,
+      {
+        method: "GET",
+        headers: {
+          "CB-ACCESS-KEY": credentials.apiKey,
+          "CB-ACCESS-SIGN": signature,
+          "CB-ACCESS-TIMESTAMP": timestamp,
+        },
+      },
+    );
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new ExchangeError(
+        "coinbase",
+        data?.message || data?.error || `API error: ${response.status}`,
+        data?.error,
+      );
+    }
+
+    return data;
+  };
+
+  return {
+    id: "coinbase",
+    name: "Coinbase",
+
+    async validateCredentials(credentials) {
+      const permissions = await signedRequest(
+        credentials,
+        "/api/v3/brokerage/key_permissions",
+      );
+
+      if (!permissions.can_view) {
+        throw new ExchangeError(
+          "coinbase",
+          "The API key is missing the view permission",
+        );
+      }
+
+      return {
+        canTrade: permissions.can_trade ?? null,
+        canWithdraw: permissions.can_transfer ?? null,
+      };
+    },
+
+    async fetchBalances(credentials) {
+      const balances: ExchangeBalance[] = [];
+      let cursor = "";
+
+      do {
+        const page = await signedRequest(
+          credentials,
+          "/api/v3/brokerage/accounts",
+          { limit: "250", ...(cursor ? { cursor } : {}) },
+        );
+
+        for (const account of page.accounts || []) {
+          const quantity =
+            (parseFloat(account.available_balance?.value) || 0) +
+            (parseFloat(account.hold?.value) || 0);
+          if (quantity > 0) {
+            balances.push({
+              asset: account.currency,
+              symbol: account.currency,
+              quantity,
+            });
+          }
+        }
+
+        cursor = page.has_next ? page.cursor : "";
+      } while (cursor);
+
+      return balances;
+    },
+
+    async fetchTrades(credentials, since) {
+      const trades: ExchangeTrade[] = [];
+      let cursor = "";
+
+      do {
+        const page = await signedRequest(
+          credentials,
+          "/api/v3/brokerage/orders/historical/fills",
+          {
+            start_sequence_timestamp: since.toISOString(),
+            limit: "100",
+            ...(cursor ? { cursor } : {}),
+          },
+        );
+
+        for (const fill of page.fills || []) {
+          const price = parseFloat(fill.price) || 0;
+          const size = parseFloat(fill.size) || 0;
+
+          trades.push({
+            id: fill.entry_id || fill.trade_id,
+            market: fill.product_id,
+            side: fill.side === "SELL" ? "sell" : "buy",
+            // Some fills are sized in the quote currency
+            quantity: fill.size_in_quote && price > 0 ? size / price : size,
+            price,
+            fee: parseFloat(fill.commission) || 0,
+            executedAt: new Date(fill.trade_time).toISOString(),
+          });
+        }
+
+        // An empty page ends the listing even if a cursor is returned
+        cursor = page.fills?.length ? page.cursor || "" : "";
+      } while (cursor);
+
+      return trades.sort((a, b) => a.executedAt.localeCompare(b.executedAt));
+    },
+  };
+}
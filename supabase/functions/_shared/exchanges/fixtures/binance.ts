@@ -0,0 +1,80 @@
+// Recorded Binance responses for a small spot account
+import type { HttpRecording } from "../recorded-fetch.ts";
+
+export const binanceRecordings: HttpRecording[] = [
+  {
+    method: "GET",
+    url: "https://api.binance.com/api/v3/account",
+    status: 200,
+    body: {
+      makerCommission: 10,
+      takerCommission: 10,
+      canTrade: true,
+      canWithdraw: false,
+      canDeposit: true,
+      accountType: "SPOT",
+      balances: [
+        { asset: "BTC", free: "0.10000000", locked: "0.02000000" },
+        { asset: "BNB", free: "1.50000000", locked: "0.00000000" },
+        { asset: "USDT", free: "842.17000000", locked: "0.00000000" },
+      ],
+      permissions: ["SPOT"],
+    },
+  },
+  {
+    method: "GET",
+    url: "https://api.binance.com/api/v3/myTrades",
+    params: { symbol: "BTCUSDT" },
+    status: 200,
+    body: [
+      {
+        symbol: "BTCUSDT",
+        id: 3524611002,
+        orderId: 27514023412,
+        price: "66210.00000000",
+        qty: "0.12000000",
+        quoteQty: "7945.20000000",
+        commission: "0.00012000",
+        commissionAsset: "BTC",
+        time: 1716163200000,
+        isBuyer: true,
+        isMaker: false,
+        isBestMatch: true,
+      },
+    ],
+  },
+  {
+    method: "GET",
+    url: "https://api.binance.com/api/v3/myTrades",
+    params: { symbol: "BNBUSDT" },
+    status: 200,
+    body: [
+      {
+        symbol: "BNBUSDT",
+        id: 712004511,
+        orderId: 5531008210,
+        price: "590.40000000",
+        qty: "1.50000000",
+        quoteQty: "885.60000000",
+        commission: "0.00150000",
+        commissionAsset: "BNB",
+        time: 1717027200000,
+        isBuyer: true,
+        isMaker: true,
+        isBestMatch: true,
+      },
+    ],
+  },
+];
+
+export const binanceInvalidKeyRecordings: HttpRecording[] = [
+  {
+    method: "GET",
+    url: "https://api.binance.com/api/v3/account",
+    status: 401,
+    body: {
+      code: -2015,
+      msg: "Invalid API-key, IP, or permissions for action.",
+    },
+  },
+];
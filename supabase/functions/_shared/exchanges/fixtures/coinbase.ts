@@ -0,0 +1,102 @@
+// Recorded Coinbase Advanced Trade responses for a small account
+import type { HttpRecording } from "../recorded-fetch.ts";
+
+export const coinbaseRecordings: HttpRecording[] = [
+  {
+    method: "GET",
+    url: "https://api.coinbase.com/api/v3/brokerage/key_permissions",
+    status: 200,
+    body: {
+      can_view: true,
+      can_trade: false,
+      can_transfer: false,
+      portfolio_uuid: "8b4a7a4e-1b44-4c3a-9d3e-5a9c1e2f0d11",
+      portfolio_type: "DEFAULT",
+    },
+  },
+  {
+    method: "GET",
+    url: "https://api.coinbase.com/api/v3/brokerage/accounts",
+    status: 200,
+    body: {
+      accounts: [
+        {
+          uuid: "0c9b2f3e-6a0e-4b55-9f1d-3f8a7c2b1e01",
+          name: "BTC Wallet",
+          currency: "BTC",
+          available_balance: { value: "0.0412", currency: "BTC" },
+          hold: { value: "0", currency: "BTC" },
+        },
+        {
+          uuid: "5e1d8c4a-2f7b-4d9e-8a6c-1b3f5d7e9a02",
+          name: "ETH Wallet",
+          currency: "ETH",
+          available_balance: { value: "1.25", currency: "ETH" },
+          hold: { value: "0.25", currency: "ETH" },
+        },
+        {
+          uuid: "9a7c5e3b-1d2f-4a6b-8c9d-0e1f2a3b4c03",
+          name: "Cash (USD)",
+          currency: "USD",
+          available_balance: { value: "310.55", currency: "USD" },
+          hold: { value: "0", currency: "USD" },
+        },
+        {
+          uuid: "3b5d7f9a-4c6e-4b8a-9d0f-2a4c6e8b0d04",
+          name: "SOL Wallet",
+          currency: "SOL",
+          available_balance: { value: "0", currency: "SOL" },
+          hold: { value: "0", currency: "SOL" },
+        },
+      ],
+      has_next: false,
+      cursor: "",
+      size: 4,
+    },
+  },
+  {
+    method: "GET",
+    url: "https://api.coinbase.com/api/v3/brokerage/orders/historical/fills",
+    status: 200,
+    body: {
+      fills: [
+        {
+          entry_id: "22222-2222222-22222222",
+          trade_id: "1111-11111-111111",
+          order_id: "0000-000000-000000",
+          trade_time: "2024-06-03T14:21:08.123Z",
+          trade_type: "FILL",
+          price: "3780.50",
+          size: "1.5",
+          commission: "34.02",
+          product_id: "ETH-USD",
+          side: "BUY",
+          size_in_quote: false,
+        },
+        {
+          entry_id: "33333-3333333-33333333",
+          trade_id: "4444-44444-444444",
+          order_id: "5555-555555-555555",
+          trade_time: "2024-06-10T09:02:44.456Z",
+          trade_type: "FILL",
+          price: "69120.00",
+          size: "2847.73",
+          commission: "17.09",
+          product_id: "BTC-USD",
+          side: "BUY",
+          size_in_quote: true,
+        },
+      ],
+      cursor: "",
+    },
+  },
+];
+
+export const coinbaseInvalidKeyRecordings: HttpRecording[] = [
+  {
+    method: "GET",
+    url: "https://api.coinbase.com/api/v3/brokerage/key_permissions",
+    status: 401,
+    body: { error: "UNAUTHENTICATED", message: "Unauthorized" },
+  },
+];
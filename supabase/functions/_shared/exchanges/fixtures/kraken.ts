@@ -0,0 +1,66 @@
+// Recorded Kraken responses for a small spot account
+import type { HttpRecording } from "../recorded-fetch.ts";
+
+export const krakenRecordings: HttpRecording[] = [
+  {
+    method: "POST",
+    url: "https://api.kraken.com/0/private/Balance",
+    status: 200,
+    body: {
+      error: [],
+      result: {
+        ZUSD: "1520.4100",
+        XXBT: "0.2500000000",
+        XETH: "3.1000000000",
+        DOT: "0.0000000000",
+        "SOL.S": "12.5000000000",
+      },
+    },
+  },
+  {
+    method: "POST",
+    url: "https://api.kraken.com/0/private/TradesHistory",
+    params: { ofs: "0" },
+    status: 200,
+    body: {
+      error: [],
+      result: {
+        count: 2,
+        trades: {
+          "TZX2WP-XSEOP-FP7WYR": {
+            ordertxid: "OQCLML-BW3P3-BUCMWZ",
+            pair: "XXBTZUSD",
+            time: 1717507200.1234,
+            type: "buy",
+            ordertype: "limit",
+            price: "68500.00000",
+            cost: "17125.00000",
+            fee: "27.40000",
+            vol: "0.25000000",
+          },
+          "TJKLXX-PGMUI-4NTLXU": {
+            ordertxid: "OXXT5H-YJ2MI-MYXCWQ",
+            pair: "XETHZUSD",
+            time: 1718112000.5678,
+            type: "buy",
+            ordertype: "market",
+            price: "3550.00000",
+            cost: "11005.00000",
+            fee: "28.61300",
+            vol: "3.10000000",
+          },
+        },
+      },
+    },
+  },
+];
+
+// Kraken answers bad keys with a 200 and an error list
+export const krakenInvalidKeyRecordings: HttpRecording[] = [
+  {
+    method: "POST",
+    url: "https://api.kraken.com/0/private/Balance",
+    status: 200,
+    body: { error: ["EAPI:Invalid key"] },
+  },
+];
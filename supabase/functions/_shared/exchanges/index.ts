@@ -0,0 +1,46 @@
+// Exchange connectors used to link crypto exchange accounts
+import { createBinanceConnector } from "./binance.ts";
+import { createCoinbaseConnector } from "./coinbase.ts";
+import { binanceRecordings } from "./fixtures/binance.ts";
+import { coinbaseRecordings } from "./fixtures/coinbase.ts";
+import { krakenRecordings } from "./fixtures/kraken.ts";
+import { createKrakenConnector } from "./kraken.ts";
+import { createRecordedFetch, type HttpRecording } from "./recorded-fetch.ts";
+import type { ExchangeConnector, ExchangeId, Fetch } from "./types.ts";
+
+export * from "./types.ts";
+
+const CONNECTORS: Record<ExchangeId, (fetcher?: Fetch) => ExchangeConnector> = {
+  kraken: createKrakenConnector,
+  binance: createBinanceConnector,
+  coinbase: createCoinbaseConnector,
+};
+
+const RECORDINGS: Record<ExchangeId, HttpRecording[]> = {
+  kraken: krakenRecordings,
+  binance: binanceRecordings,
+  coinbase: coinbaseRecordings,
+};
+
+/**
+ * Check whether a string names a supported exchange
+ * @param value The value to check, e.g. a request field
+ */
+export function isExchangeId(value: string): value is ExchangeId {
+  return Object.prototype.hasOwnProperty.call(CONNECTORS, value);
+}
+
+/**
+ * Get the connector of an exchange
+ * @param exchangeId The exchange
+ * @param options.recorded Answer from the recorded responses instead of the
+ * live API, for local development
+ */
+export function getExchangeConnector(
+  exchangeId: ExchangeId,
+  options: { recorded?: boolean } = {},
+): ExchangeConnector {
+  return CONNECTORS[exchangeId](
+    options.recorded ? createRecordedFetch(RECORDINGS[exchangeId]) : fetch,
+  );
+}
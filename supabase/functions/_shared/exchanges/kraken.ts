@@ -0,0 +1,160 @@
+// Kraken spot connector: https://docs.kraken.com/api/docs/rest-api/get-account-balance
+import { concatBytes, fromBase64, hmac, sha256, toBase64 } from "./signing.ts";
+import {
+  ExchangeError,
+  type ExchangeConnector,
+  type ExchangeCredentials,
+  type ExchangeTrade,
+  type Fetch,
+} from "./types.ts";
+
+const KRAKEN_BASE_URL = "https://api.kraken.com";
+
+// TradesHistory returns at most this many trades per page
+const TRADES_PAGE_SIZE = 50;
+
+// Kraken's legacy codes for assets listed before its current naming scheme
+const KRAKEN_ASSET_SYMBOLS: Record<string, string> = {
+  XXBT: "BTC",
+  XBT: "BTC",
+  XETH: "ETH",
+  ETH2: "ETH",
+  XXDG: "DOGE",
+  XDG: "DOGE",
+  XLTC: "LTC",
+  XXRP: "XRP",
+  XXLM: "XLM",
+  XXMR: "XMR",
+  XETC: "ETC",
+  XZEC: "ZEC",
+  XREP: "REP",
+  XMLN: "MLN",
+  ZUSD: "USD",
+  ZEUR: "EUR",
+  ZGBP: "GBP",
+  ZCAD: "CAD",
+  ZJPY: "JPY",
+  ZAUD: "AUD",
+};
+
+/**
+ * Map a Kraken asset code to its common ticker
+ * @param asset The code from the Balance endpoint, e.g. XXBT or SOL.S
+ */
+export function getKrakenSymbol(asset: string) {
+  // Staked, rewards, bonded and held balances carry a suffix, e.g. .S, .M,
+  // .B or .HOLD
+  const code = asset.replace(/\.[A-Z]+$/, "");
+  return KRAKEN_ASSET_SYMBOLS[code] || code;
+}
+
+export function createKrakenConnector(
+  fetcher: Fetch = fetch,
+): ExchangeConnector {
+  // Call a private endpoint, signed with the API secret
+  const privateRequest = async (
+    credentials: ExchangeCredentials,
+    path: string,
+    params: Record<string, string> = {},
+  ) => {
+    const nonce = Date.now().toString();
+    const body = new URLSearchParams({ nonce, ...params }).toString();
+
+    // HMAC-SHA512 of the path and SHA-256(nonce + body), keyed with the
+    // base64-decoded secret
+    let signature: string;
+    try {
+      signature = toBase64(
+        await hmac(
+          "SHA-512",
+          fromBase64(credentials.apiSecret),
+          concatBytes(
+            new TextEncoder().encode(path),
+            await sha256(nonce + body),
+          ),
+        ),
+      );
+    } catch {
+      throw new ExchangeError("kraken", "The API secret is not valid base64");
+    }
+
+    const response = await fetcher(KRAKEN_BASE_URL + path, {
+      method: "POST",
+      headers: {
+        "API-Key": credentials.apiKey,
+        "API-Sign": signature,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body,
+    });
+
+    const data = await response.json();
+
+    if (data.error && data.error.length > 0) {
+      throw new ExchangeError("kraken", data.error[0]);
+    }
+    if (!response.ok) {
+      throw new ExchangeError("kraken", `API error: ${response.status}`);
+    }
+
+    return data.result;
+  };
+
+  const fetchBalances = async (credentials: ExchangeCredentials) => {
+    const result = await privateRequest(credentials, "/0/private/Balance");
+
+    return Object.entries(result || {})
+      .map(([asset, quantity]) => ({
+        asset,
+        symbol: getKrakenSymbol(asset),
+        quantity: parseFloat(quantity as string) || 0,
+      }))
+      .filter((balance) => balance.quantity > 0);
+  };
+
+  return {
+    id: "kraken",
+    name: "Kraken",
+
+    async validateCredentials(credentials) {
+      // Kraken does not report a key's permissions; reading the balance
+      // proves the key works and can query funds
+      await privateRequest(credentials, "/0/private/Balance");
+      return { canTrade: null, canWithdraw: null };
+    },
+
+    fetchBalances,
+
+    async fetchTrades(credentials, since) {
+      const trades: ExchangeTrade[] = [];
+      const start = Math.floor(since.getTime() / 1000).toString();
+
+      for (let offset = 0; ; offset += TRADES_PAGE_SIZE) {
+        const result = await privateRequest(
+          credentials,
+          "/0/private/TradesHistory",
+          { start, ofs: offset.toString() },
+        );
+        const page = Object.entries(result?.trades || {}) as [string, any][];
+
+        for (const [id, trade] of page) {
+          trades.push({
+            id,
+            market: trade.pair,
+            side: trade.type === "sell" ? "sell" : "buy",
+            quantity: parseFloat(trade.vol) || 0,
+            price: parseFloat(trade.price) || 0,
+            fee: parseFloat(trade.fee) || 0,
+            executedAt: new Date(trade.time * 1000).toISOString(),
+          });
+        }
+
+        if (page.length < TRADES_PAGE_SIZE || trades.length >= result.count) {
+          break;
+        }
+      }
+
+      return trades.sort((a, b) => a.executedAt.localeCompare(b.executedAt));
+    },
+  };
+}
@@ -0,0 +1,53 @@
+// A fetch that answers from recorded exchange responses, so connectors can
+// be exercised without credentials or network access. Signatures, nonces
+// and timestamps differ on every call and are ignored when matching.
+import type { Fetch } from "./types.ts";
+
+export interface HttpRecording {
+  method: "GET" | "POST";
+  // The URL without its query string
+  url: string;
+  // Query or form parameters the request must carry, e.g. a page cursor
+  params?: Record<string, string>;
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Create a fetch that replays recordings; the first matching one answers
+ * @param recordings The recorded responses
+ */
+export function createRecordedFetch(recordings: HttpRecording[]): Fetch {
+  return async (input, init) => {
+    const url = new URL(
+      typeof input === "string" || input instanceof URL ? input : input.url,
+    );
+    const method = (init?.method || "GET").toUpperCase();
+    const params = new URLSearchParams(url.search);
+    if (typeof init?.body === "string") {
+      new URLSearchParams(init.body).forEach((value, key) =>
+        params.set(key, value),
+      );
+    }
+
+    const recording = recordings.find(
+      (candidate) =>
+        candidate.method === method &&
+        candidate.url === `${url.origin}${url.pathname}` &&
+        Object.entries(candidate.params || {}).every(
+          ([key, value]) => params.get(key) === value,
+        ),
+    );
+
+    if (!recording) {
+      throw new Error(
+        `No recording for ${method} ${url.origin}${url.pathname}`,
+      );
+    }
+
+    return new Response(JSON.stringify(recording.body), {
+      status: recording.status,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+}
@@ -0,0 +1,80 @@
+// Request signing helpers shared by the exchange connectors, built on the
+// Web Crypto API available in Deno
+
+const encoder = new TextEncoder();
+
+function toBytes(value: string | Uint8Array) {
+  return typeof value === "string" ? encoder.encode(value) : value;
+}
+
+/**
+ * Compute an HMAC
+ * @param hash The digest, SHA-256 or SHA-512
+ * @param key The secret key
+ * @param message The message to sign
+ */
+export async function hmac(
+  hash: "SHA-256" | "SHA-512",
+  key: string | Uint8Array,
+  message: string | Uint8Array,
+): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    toBytes(key),
+    { name: "HMAC", hash },
+    false,
+    ["sign"],
+  );
+
+  return new Uint8Array(
+    await crypto.subtle.sign("HMAC", cryptoKey, toBytes(message)),
+  );
+}
+
+/**
+ * Compute a SHA-256 digest
+ * @param message The message to hash
+ */
+export async function sha256(message: string | Uint8Array) {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", toBytes(message)),
+  );
+}
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(...parts: Uint8Array[]) {
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export function toHex(bytes: Uint8Array) {
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,77 @@
+/**
+ * The interface every exchange connector implements
+ *
+ * Connectors only read: credentials should be created read-only on the
+ * exchange. Each connector takes the fetch function it sends requests with,
+ * so it can be run against recorded responses (see recorded-fetch.ts).
+ */
+
+export type ExchangeId = "kraken" | "binance" | "coinbase";
+
+export type Fetch = typeof fetch;
+
+export interface ExchangeCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+// What the exchange reports about the key, stored with the connection
+export interface ExchangeAccountInfo {
+  // Whether the key can place orders or withdraw, when the exchange says
+  canTrade: boolean | null;
+  canWithdraw: boolean | null;
+}
+
+export interface ExchangeBalance {
+  // The asset code as the exchange reports it, e.g. XXBT on Kraken
+  asset: string;
+  // The asset's common ticker, e.g. BTC; staked and reward balances share
+  // the ticker of the underlying asset
+  symbol: string;
+  quantity: number;
+}
+
+export interface ExchangeTrade {
+  id: string;
+  // The traded market as the exchange names it, e.g. XXBTZUSD or BTC-USD
+  market: string;
+  side: "buy" | "sell";
+  quantity: number;
+  price: number;
+  fee: number;
+  executedAt: string;
+}
+
+export interface ExchangeConnector {
+  id: ExchangeId;
+  name: string;
+  /**
+   * Check the credentials against the exchange; throws if they are rejected
+   */
+  validateCredentials(
+    credentials: ExchangeCredentials,
+  ): Promise<ExchangeAccountInfo>;
+  /**
+   * Fetch every non-zero balance, including amounts held in open orders
+   */
+  fetchBalances(credentials: ExchangeCredentials): Promise<ExchangeBalance[]>;
+  /**
+   * Fetch the trades executed since a date, oldest first
+   */
+  fetchTrades(
+    credentials: ExchangeCredentials,
+    since: Date,
+  ): Promise<ExchangeTrade[]>;
+}
+
+export class ExchangeError extends Error {
+  constructor(
+    public exchange: ExchangeId,
+    message: string,
+    // The exchange's own error code, when it reports one
+    public code?: string | number,
+  ) {
+    super(`${exchange}: ${message}`);
+    this.name = "ExchangeError";
+  }
+}
@@ -0,0 +1,80 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  decryptCredential,
+  isHashedLegacySecret,
+  parseMasterKeys,
+} from "../_shared/credentials.ts";
+import {
+  getExchangeConnector,
+  isExchangeId,
+} from "../_shared/exchanges/index.ts";
+
+// Fetch the current balances of an exchange connection with its stored
+// credentials. Called by the scheduled exchange sync with the service role
+// key; the caller prices the balances and writes them to the assets table.
+serve(async (req) => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") as string;
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") as string;
+
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(
+      JSON.stringify({ success: false, error: "Unauthorized" }),
+      { headers: { "Content-Type": "application/json" }, status: 401 },
+    );
+  }
+
+  try {
+    const { connectionId } = await req.json();
+
+    if (!connectionId) {
+      throw new Error("Missing required parameters");
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const { data: connection, error } = await supabase
+      .from("broker_connections")
+      .select(
+        "id, broker_id, api_key, api_secret_encrypted, api_secret_data_key, api_secret_key_version, is_active",
+      )
+      .eq("id", connectionId)
+      .single();
+
+    if (error || !connection) {
+      throw new Error(error?.message || "Connection not found");
+    }
+    if (!connection.is_active) {
+      throw new Error("Connection is not active");
+    }
+    if (!isExchangeId(connection.broker_id)) {
+      throw new Error(`Unsupported exchange: ${connection.broker_id}`);
+    }
+    // Connections made before secrets were encrypted only kept a hash
+    if (isHashedLegacySecret(connection)) {
+      throw new Error(
+        "The stored API secret cannot be read; reconnect the account to refresh its balances",
+      );
+    }
+
+    // Set EXCHANGE_CONNECTOR_MODE=recorded to answer from recorded responses
+    const connector = getExchangeConnector(connection.broker_id, {
+      recorded: Deno.env.get("EXCHANGE_CONNECTOR_MODE") === "recorded",
+    });
+    const balances = await connector.fetchBalances({
+      apiKey: connection.api_key,
+      apiSecret: await decryptCredential(
+        connection,
+        parseMasterKeys(Deno.env.get("CREDENTIAL_MASTER_KEYS")),
+      ),
+    });
+
+    return new Response(JSON.stringify({ success: true, balances }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { "Content-Type": "application/json" }, status: 400 },
+    );
+  }
+});
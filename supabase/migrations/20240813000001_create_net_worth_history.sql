@@ -0,0 +1,86 @@
+-- Daily snapshot date on asset_history so a snapshot can be re-run without duplicating rows
+ALTER TABLE public.asset_history ADD COLUMN IF NOT EXISTS snapshot_date DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS asset_history_asset_snapshot_idx
+  ON public.asset_history (asset_id, snapshot_date);
+
+CREATE INDEX IF NOT EXISTS asset_history_asset_recorded_idx
+  ON public.asset_history (asset_id, recorded_at);
+
+-- Aggregated per-user net worth series, one row per user per day
+CREATE TABLE IF NOT EXISTS public.net_worth_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    snapshot_date DATE NOT NULL,
+    total_assets DECIMAL(18, 2) NOT NULL DEFAULT 0,
+    total_liabilities DECIMAL(18, 2) NOT NULL DEFAULT 0,
+    net_worth DECIMAL(18, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, snapshot_date)
+);
+
+ALTER TABLE public.net_worth_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own net worth history" ON public.net_worth_history;
+CREATE POLICY "Users can view their own net worth history"
+    ON public.net_worth_history
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+GRANT ALL ON public.net_worth_history TO service_role;
+GRANT SELECT ON public.net_worth_history TO authenticated;
+
+-- Record today's value of every asset and the aggregated net worth.
+-- Called by the daily cron with the service role (all users, p_user_id NULL)
+-- and by signed-in users, in which case it only snapshots their own assets.
+CREATE OR REPLACE FUNCTION public.record_net_worth_snapshots(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    snapshot_count INTEGER;
+BEGIN
+    IF coalesce(auth.role(), '') <> 'service_role' THEN
+        IF auth.uid() IS NULL THEN
+            RAISE EXCEPTION 'Not authenticated';
+        END IF;
+        p_user_id := auth.uid();
+    END IF;
+
+    INSERT INTO public.asset_history (asset_id, value, recorded_at, snapshot_date)
+    SELECT a.id, a.value, NOW(), CURRENT_DATE
+    FROM public.assets a
+    WHERE p_user_id IS NULL OR a.user_id = p_user_id
+    ON CONFLICT (asset_id, snapshot_date)
+    DO UPDATE SET value = EXCLUDED.value, recorded_at = EXCLUDED.recorded_at;
+
+    INSERT INTO public.net_worth_history (
+        user_id, snapshot_date, total_assets, total_liabilities, net_worth
+    )
+    SELECT
+        a.user_id,
+        CURRENT_DATE,
+        coalesce(sum(a.value) FILTER (WHERE NOT coalesce(a.is_liability, false)), 0),
+        coalesce(sum(a.value) FILTER (WHERE coalesce(a.is_liability, false)), 0),
+        coalesce(sum(CASE WHEN coalesce(a.is_liability, false) THEN -a.value ELSE a.value END), 0)
+    FROM public.assets a
+    WHERE p_user_id IS NULL OR a.user_id = p_user_id
+    GROUP BY a.user_id
+    ON CONFLICT (user_id, snapshot_date)
+    DO UPDATE SET
+        total_assets = EXCLUDED.total_assets,
+        total_liabilities = EXCLUDED.total_liabilities,
+        net_worth = EXCLUDED.net_worth,
+        updated_at = NOW();
+
+    GET DIAGNOSTICS snapshot_count = ROW_COUNT;
+    RETURN snapshot_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_net_worth_snapshots(UUID) TO authenticated, service_role;
+
+alter publication supabase_realtime add table public.net_worth_history;
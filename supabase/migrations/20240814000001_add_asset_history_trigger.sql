@@ -0,0 +1,81 @@
+-- Track where each asset value came from (manual, snaptrade, metal_price, car_valuation, ...)
+ALTER TABLE public.assets ADD COLUMN IF NOT EXISTS value_source TEXT DEFAULT 'manual';
+
+ALTER TABLE public.asset_history ADD COLUMN IF NOT EXISTS source TEXT;
+
+UPDATE public.asset_history SET source = 'snapshot' WHERE snapshot_date IS NOT NULL AND source IS NULL;
+
+-- Append a history row whenever an asset is created or its value changes
+CREATE OR REPLACE FUNCTION public.record_asset_value_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.asset_history (asset_id, value, recorded_at, source)
+    VALUES (NEW.id, NEW.value, NOW(), coalesce(NEW.value_source, 'manual'));
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assets_value_inserted ON public.assets;
+CREATE TRIGGER assets_value_inserted
+    AFTER INSERT ON public.assets
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_asset_value_change();
+
+DROP TRIGGER IF EXISTS assets_value_updated ON public.assets;
+CREATE TRIGGER assets_value_updated
+    AFTER UPDATE OF value ON public.assets
+    FOR EACH ROW
+    WHEN (OLD.value IS DISTINCT FROM NEW.value)
+    EXECUTE FUNCTION public.record_asset_value_change();
+
+-- Daily snapshots are labelled so they can be told apart from value changes
+CREATE OR REPLACE FUNCTION public.record_net_worth_snapshots(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    snapshot_count INTEGER;
+BEGIN
+    IF coalesce(auth.role(), '') <> 'service_role' THEN
+        IF auth.uid() IS NULL THEN
+            RAISE EXCEPTION 'Not authenticated';
+        END IF;
+        p_user_id := auth.uid();
+    END IF;
+
+    INSERT INTO public.asset_history (asset_id, value, recorded_at, snapshot_date, source)
+    SELECT a.id, a.value, NOW(), CURRENT_DATE, 'snapshot'
+    FROM public.assets a
+    WHERE p_user_id IS NULL OR a.user_id = p_user_id
+    ON CONFLICT (asset_id, snapshot_date)
+    DO UPDATE SET value = EXCLUDED.value, recorded_at = EXCLUDED.recorded_at;
+
+    INSERT INTO public.net_worth_history (
+        user_id, snapshot_date, total_assets, total_liabilities, net_worth
+    )
+    SELECT
+        a.user_id,
+        CURRENT_DATE,
+        coalesce(sum(a.value) FILTER (WHERE NOT coalesce(a.is_liability, false)), 0),
+        coalesce(sum(a.value) FILTER (WHERE coalesce(a.is_liability, false)), 0),
+        coalesce(sum(CASE WHEN coalesce(a.is_liability, false) THEN -a.value ELSE a.value END), 0)
+    FROM public.assets a
+    WHERE p_user_id IS NULL OR a.user_id = p_user_id
+    GROUP BY a.user_id
+    ON CONFLICT (user_id, snapshot_date)
+    DO UPDATE SET
+        total_assets = EXCLUDED.total_assets,
+        total_liabilities = EXCLUDED.total_liabilities,
+        net_worth = EXCLUDED.net_worth,
+        updated_at = NOW();
+
+    GET DIAGNOSTICS snapshot_count = ROW_COUNT;
+    RETURN snapshot_count;
+END;
+$$;
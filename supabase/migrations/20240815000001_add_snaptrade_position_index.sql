@@ -0,0 +1,4 @@
+-- SnapTrade positions are matched on (user, account, symbol) stored in metadata
+CREATE INDEX IF NOT EXISTS assets_snaptrade_position_idx
+    ON public.assets (user_id, (metadata->>'account_id'), (metadata->>'symbol'))
+    WHERE metadata->>'source' = 'snaptrade';
@@ -0,0 +1,30 @@
+-- Structured loan terms for debt rows (assets with is_liability = true)
+CREATE TABLE IF NOT EXISTS public.liability_details (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    asset_id UUID NOT NULL UNIQUE REFERENCES public.assets(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    loan_type TEXT NOT NULL DEFAULT 'other'
+        CHECK (loan_type IN ('mortgage', 'auto', 'student', 'personal', 'credit_card', 'other')),
+    -- APR as a percentage, e.g. 5.25
+    interest_rate DECIMAL(7, 4) NOT NULL DEFAULT 0 CHECK (interest_rate >= 0),
+    minimum_payment DECIMAL(15, 2) CHECK (minimum_payment >= 0),
+    term_months INTEGER CHECK (term_months > 0),
+    payment_day SMALLINT CHECK (payment_day BETWEEN 1 AND 31),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS liability_details_user_idx
+    ON public.liability_details (user_id);
+
+ALTER TABLE public.liability_details ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only manage their own liability details" ON public.liability_details;
+CREATE POLICY "Users can only manage their own liability details"
+    ON public.liability_details
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.liability_details TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.liability_details TO authenticated;
@@ -0,0 +1,28 @@
+-- The user's active debt payoff plan, one per user
+CREATE TABLE IF NOT EXISTS public.debt_payoff_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    strategy TEXT NOT NULL DEFAULT 'avalanche'
+        CHECK (strategy IN ('avalanche', 'snowball', 'custom')),
+    extra_payment DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (extra_payment >= 0),
+    -- Debt asset IDs in payoff order, used by the custom strategy
+    custom_order UUID[] NOT NULL DEFAULT '{}',
+    -- Projection at the time the plan was saved
+    months_to_payoff INTEGER,
+    total_interest DECIMAL(15, 2),
+    debt_free_date DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.debt_payoff_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only manage their own payoff plan" ON public.debt_payoff_plans;
+CREATE POLICY "Users can only manage their own payoff plan"
+    ON public.debt_payoff_plans
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.debt_payoff_plans TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.debt_payoff_plans TO authenticated;
@@ -0,0 +1,28 @@
+-- Financial goals; progress comes from the linked assets and categories
+CREATE TABLE IF NOT EXISTS public.goals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    target_amount DECIMAL(18, 2) NOT NULL CHECK (target_amount > 0),
+    deadline DATE,
+    linked_asset_ids UUID[] NOT NULL DEFAULT '{}',
+    linked_category_slugs TEXT[] NOT NULL DEFAULT '{}',
+    -- Used as the current amount when nothing is linked
+    manual_amount DECIMAL(18, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS goals_user_idx ON public.goals (user_id);
+
+ALTER TABLE public.goals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only manage their own goals" ON public.goals;
+CREATE POLICY "Users can only manage their own goals"
+    ON public.goals
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.goals TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.goals TO authenticated;
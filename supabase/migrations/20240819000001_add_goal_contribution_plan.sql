@@ -0,0 +1,5 @@
+-- Contribution plan used to forecast when a goal will be reached
+ALTER TABLE public.goals ADD COLUMN IF NOT EXISTS monthly_contribution DECIMAL(15, 2) NOT NULL DEFAULT 0;
+
+-- Expected annual return as a percentage, e.g. 6.5
+ALTER TABLE public.goals ADD COLUMN IF NOT EXISTS expected_return DECIMAL(7, 4) NOT NULL DEFAULT 0;
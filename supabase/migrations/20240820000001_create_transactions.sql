@@ -0,0 +1,43 @@
+-- Account activity (dividends, interest, fees, trades) imported from brokers
+CREATE TABLE IF NOT EXISTS public.transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    asset_id UUID REFERENCES public.assets(id) ON DELETE SET NULL,
+    source TEXT NOT NULL DEFAULT 'manual',
+    -- The provider's ID for the activity, used to make imports idempotent
+    external_id TEXT,
+    account_id TEXT,
+    account_name TEXT,
+    type TEXT NOT NULL
+        CHECK (type IN ('dividend', 'interest', 'fee', 'buy', 'sell', 'deposit', 'withdrawal', 'other')),
+    symbol TEXT,
+    description TEXT,
+    units DECIMAL(24, 8),
+    price DECIMAL(18, 6),
+    amount DECIMAL(18, 2) NOT NULL DEFAULT 0,
+    fee DECIMAL(18, 2) DEFAULT 0,
+    currency TEXT DEFAULT 'USD',
+    trade_date DATE,
+    settlement_date DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, source, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS transactions_user_date_idx
+    ON public.transactions (user_id, trade_date DESC);
+
+CREATE INDEX IF NOT EXISTS transactions_asset_idx
+    ON public.transactions (asset_id);
+
+ALTER TABLE public.transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only manage their own transactions" ON public.transactions;
+CREATE POLICY "Users can only manage their own transactions"
+    ON public.transactions
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.transactions TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.transactions TO authenticated;
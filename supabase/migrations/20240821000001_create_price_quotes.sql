@@ -0,0 +1,49 @@
+-- Shared cache of market prices (metal spot, FX) fetched from external APIs
+CREATE TABLE IF NOT EXISTS public.price_quotes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    symbol TEXT NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    price DECIMAL(18, 6) NOT NULL,
+    source TEXT NOT NULL,
+    -- How long the quote is served without revalidating
+    ttl_seconds INTEGER NOT NULL DEFAULT 900,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(symbol, currency)
+);
+
+-- The last quote of each day, kept as that day's close
+CREATE TABLE IF NOT EXISTS public.price_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    symbol TEXT NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USD',
+    date DATE NOT NULL,
+    close DECIMAL(18, 6) NOT NULL,
+    source TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(symbol, currency, date)
+);
+
+ALTER TABLE public.price_quotes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_history ENABLE ROW LEVEL SECURITY;
+
+-- Prices are public market data: anyone signed in may read them, only the
+-- server (service role) writes them
+DROP POLICY IF EXISTS "Authenticated users can read price quotes" ON public.price_quotes;
+CREATE POLICY "Authenticated users can read price quotes"
+    ON public.price_quotes
+    FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can read price history" ON public.price_history;
+CREATE POLICY "Authenticated users can read price history"
+    ON public.price_history
+    FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+GRANT ALL ON public.price_quotes TO service_role;
+GRANT ALL ON public.price_history TO service_role;
+GRANT SELECT ON public.price_quotes TO authenticated;
+GRANT SELECT ON public.price_history TO authenticated;
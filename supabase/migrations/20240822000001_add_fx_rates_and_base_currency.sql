@@ -0,0 +1,132 @@
+-- Per-user display preferences, starting with the currency totals are shown in
+CREATE TABLE IF NOT EXISTS public.user_preferences (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    base_currency TEXT NOT NULL DEFAULT 'USD',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only manage their own preferences" ON public.user_preferences;
+CREATE POLICY "Users can only manage their own preferences"
+    ON public.user_preferences
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.user_preferences TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.user_preferences TO authenticated;
+
+-- Daily exchange rates, as units of the currency per one US dollar
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    currency TEXT NOT NULL,
+    rate_date DATE NOT NULL,
+    rate DECIMAL(18, 8) NOT NULL CHECK (rate > 0),
+    source TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(currency, rate_date)
+);
+
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+
+-- Rates are public market data: anyone signed in may read them, only the
+-- server (service role) writes them
+DROP POLICY IF EXISTS "Authenticated users can read fx rates" ON public.fx_rates;
+CREATE POLICY "Authenticated users can read fx rates"
+    ON public.fx_rates
+    FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+GRANT ALL ON public.fx_rates TO service_role;
+GRANT SELECT ON public.fx_rates TO authenticated;
+
+-- SnapTrade positions kept their currency in metadata only
+UPDATE public.assets
+SET currency = metadata->>'currency'
+WHERE metadata->>'source' = 'snaptrade'
+  AND metadata->>'currency' IS NOT NULL
+  AND currency IS DISTINCT FROM metadata->>'currency';
+
+-- The latest rate on or before a date; 1 for USD and for unknown currencies
+CREATE OR REPLACE FUNCTION public.fx_rate(p_currency TEXT, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT coalesce(
+        (
+            SELECT r.rate
+            FROM public.fx_rates r
+            WHERE r.currency = upper(coalesce(p_currency, 'USD'))
+              AND r.rate_date <= p_date
+            ORDER BY r.rate_date DESC
+            LIMIT 1
+        ),
+        1
+    );
+$$;
+
+-- Net worth snapshots are recorded in the user's base currency
+ALTER TABLE public.net_worth_history ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+CREATE OR REPLACE FUNCTION public.record_net_worth_snapshots(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    snapshot_count INTEGER;
+BEGIN
+    IF coalesce(auth.role(), '') <> 'service_role' THEN
+        IF auth.uid() IS NULL THEN
+            RAISE EXCEPTION 'Not authenticated';
+        END IF;
+        p_user_id := auth.uid();
+    END IF;
+
+    INSERT INTO public.asset_history (asset_id, value, recorded_at, snapshot_date, source)
+    SELECT a.id, a.value, NOW(), CURRENT_DATE, 'snapshot'
+    FROM public.assets a
+    WHERE p_user_id IS NULL OR a.user_id = p_user_id
+    ON CONFLICT (asset_id, snapshot_date)
+    DO UPDATE SET value = EXCLUDED.value, recorded_at = EXCLUDED.recorded_at;
+
+    INSERT INTO public.net_worth_history (
+        user_id, snapshot_date, total_assets, total_liabilities, net_worth, currency
+    )
+    SELECT
+        converted.user_id,
+        CURRENT_DATE,
+        coalesce(sum(converted.value) FILTER (WHERE NOT converted.is_liability), 0),
+        coalesce(sum(converted.value) FILTER (WHERE converted.is_liability), 0),
+        coalesce(sum(CASE WHEN converted.is_liability THEN -converted.value ELSE converted.value END), 0),
+        converted.base_currency
+    FROM (
+        SELECT
+            a.user_id,
+            coalesce(a.is_liability, false) AS is_liability,
+            coalesce(p.base_currency, 'USD') AS base_currency,
+            a.value / public.fx_rate(a.currency) * public.fx_rate(coalesce(p.base_currency, 'USD')) AS value
+        FROM public.assets a
+        LEFT JOIN public.user_preferences p ON p.user_id = a.user_id
+        WHERE p_user_id IS NULL OR a.user_id = p_user_id
+    ) converted
+    GROUP BY converted.user_id, converted.base_currency
+    ON CONFLICT (user_id, snapshot_date)
+    DO UPDATE SET
+        total_assets = EXCLUDED.total_assets,
+        total_liabilities = EXCLUDED.total_liabilities,
+        net_worth = EXCLUDED.net_worth,
+        currency = EXCLUDED.currency,
+        updated_at = NOW();
+
+    GET DIAGNOSTICS snapshot_count = ROW_COUNT;
+    RETURN snapshot_count;
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Link a loan to the asset securing it, e.g. an auto loan to its vehicle,
+-- so the asset's equity (value minus the loan balance) can be shown
+ALTER TABLE public.liability_details
+    ADD COLUMN IF NOT EXISTS secured_asset_id UUID REFERENCES public.assets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS liability_details_secured_asset_idx
+    ON public.liability_details (secured_asset_id)
+    WHERE secured_asset_id IS NOT NULL;
+
@@ -0,0 +1,60 @@
+-- Property records for real-estate assets; mortgages link to the property
+-- through liability_details.secured_asset_id
+CREATE TABLE IF NOT EXISTS public.properties (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    asset_id UUID NOT NULL UNIQUE REFERENCES public.assets(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    property_type TEXT NOT NULL DEFAULT 'single_family'
+        CHECK (property_type IN ('single_family', 'condo', 'townhouse', 'multi_family', 'land', 'commercial', 'other')),
+    -- "appreciation" grows the last known value at appreciation_rate;
+    -- "appraisal" uses the latest appraisal as is
+    valuation_method TEXT NOT NULL DEFAULT 'appreciation'
+        CHECK (valuation_method IN ('appreciation', 'appraisal')),
+    -- Yearly appreciation as a percentage, e.g. 3.5
+    appreciation_rate DECIMAL(6, 3) NOT NULL DEFAULT 3 CHECK (appreciation_rate > -100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS properties_user_idx ON public.properties (user_id);
+
+ALTER TABLE public.properties ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only manage their own properties" ON public.properties;
+CREATE POLICY "Users can only manage their own properties"
+    ON public.properties
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.properties TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.properties TO authenticated;
+
+-- Appraisals, assessments and other dated valuations of a property
+CREATE TABLE IF NOT EXISTS public.property_appraisals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    appraised_on DATE NOT NULL,
+    value DECIMAL(18, 2) NOT NULL CHECK (value >= 0),
+    source TEXT NOT NULL DEFAULT 'appraisal'
+        CHECK (source IN ('appraisal', 'assessment', 'estimate', 'purchase')),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (asset_id, appraised_on)
+);
+
+CREATE INDEX IF NOT EXISTS property_appraisals_user_idx
+    ON public.property_appraisals (user_id);
+
+ALTER TABLE public.property_appraisals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only manage their own property appraisals" ON public.property_appraisals;
+CREATE POLICY "Users can only manage their own property appraisals"
+    ON public.property_appraisals
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.property_appraisals TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.property_appraisals TO authenticated;
@@ -0,0 +1,60 @@
+-- Operating costs of rental properties, used for NOI, cap rate and
+-- cash-on-cash return
+ALTER TABLE public.properties
+    -- Share of the rent roll expected to go uncollected, as a percentage
+    ADD COLUMN IF NOT EXISTS vacancy_rate DECIMAL(5, 2) NOT NULL DEFAULT 5
+        CHECK (vacancy_rate >= 0 AND vacancy_rate <= 100),
+    ADD COLUMN IF NOT EXISTS annual_property_tax DECIMAL(18, 2) NOT NULL DEFAULT 0
+        CHECK (annual_property_tax >= 0),
+    ADD COLUMN IF NOT EXISTS annual_insurance DECIMAL(18, 2) NOT NULL DEFAULT 0
+        CHECK (annual_insurance >= 0),
+    ADD COLUMN IF NOT EXISTS monthly_hoa DECIMAL(18, 2) NOT NULL DEFAULT 0
+        CHECK (monthly_hoa >= 0),
+    ADD COLUMN IF NOT EXISTS annual_maintenance DECIMAL(18, 2) NOT NULL DEFAULT 0
+        CHECK (annual_maintenance >= 0),
+    -- Down payment and closing costs, the base of the cash-on-cash return
+    ADD COLUMN IF NOT EXISTS cash_invested DECIMAL(18, 2)
+        CHECK (cash_invested IS NULL OR cash_invested >= 0);
+
+-- The rent roll: one row per leasable unit of a property
+CREATE TABLE IF NOT EXISTS public.rental_units (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    unit_name TEXT NOT NULL,
+    -- NULL while the unit is vacant
+    tenant_name TEXT,
+    monthly_rent DECIMAL(18, 2) NOT NULL DEFAULT 0 CHECK (monthly_rent >= 0),
+    lease_end DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rental_units_asset_idx ON public.rental_units (asset_id);
+CREATE INDEX IF NOT EXISTS rental_units_user_idx ON public.rental_units (user_id);
+
+ALTER TABLE public.rental_units ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only manage their own rental units" ON public.rental_units;
+CREATE POLICY "Users can only manage their own rental units"
+    ON public.rental_units
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.rental_units TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.rental_units TO authenticated;
+
+-- Carry over the single monthly rent previously kept in asset metadata
+INSERT INTO public.rental_units (asset_id, user_id, unit_name, monthly_rent)
+SELECT a.id, a.user_id, 'Unit 1', (a.metadata->>'monthly_rent')::DECIMAL(18, 2)
+FROM public.assets a
+WHERE NOT coalesce(a.is_liability, false)
+    AND CASE
+        WHEN (a.metadata->>'monthly_rent') ~ '^[0-9]+(\.[0-9]+)?$'
+            THEN (a.metadata->>'monthly_rent')::DECIMAL > 0
+        ELSE false
+    END
+    AND NOT EXISTS (
+        SELECT 1 FROM public.rental_units r WHERE r.asset_id = a.id
+    );
@@ -0,0 +1,28 @@
+-- Watch-only crypto wallets: public addresses whose on-chain balances are
+-- synced into cryptocurrency assets (metadata.source = 'wallet')
+CREATE TABLE IF NOT EXISTS public.crypto_wallets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    chain TEXT NOT NULL
+        CHECK (chain IN ('bitcoin', 'ethereum', 'polygon', 'arbitrum', 'optimism', 'base')),
+    address TEXT NOT NULL,
+    label TEXT NOT NULL,
+    last_synced_at TIMESTAMP WITH TIME ZONE,
+    -- The error of the last failed sync, cleared by the next successful one
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, chain, address)
+);
+
+ALTER TABLE public.crypto_wallets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can only manage their own crypto wallets" ON public.crypto_wallets;
+CREATE POLICY "Users can only manage their own crypto wallets"
+    ON public.crypto_wallets
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON public.crypto_wallets TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.crypto_wallets TO authenticated;
@@ -0,0 +1,7 @@
+-- Envelope encryption for broker credentials: api_secret_encrypted holds the
+-- secret encrypted with a per-row data key, which is stored wrapped with the
+-- server master key of the recorded version. Rows with no key version were
+-- written before encryption and are encrypted by /api/credentials/rotate.
+ALTER TABLE public.broker_connections
+  ADD COLUMN IF NOT EXISTS api_secret_data_key TEXT,
+  ADD COLUMN IF NOT EXISTS api_secret_key_version INTEGER;
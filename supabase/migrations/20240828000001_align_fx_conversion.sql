@@ -0,0 +1,141 @@
+-- Seed the bundled approximate rates, so snapshots are converted before the
+-- first refresh. They are dated far back, so any refreshed rate wins.
+INSERT INTO public.fx_rates (currency, rate_date, rate, source)
+VALUES
+    ('EUR', '2000-01-01', 0.92, 'seed'),
+    ('GBP', '2000-01-01', 0.79, 'seed'),
+    ('CAD', '2000-01-01', 1.36, 'seed'),
+    ('AUD', '2000-01-01', 1.52, 'seed'),
+    ('NZD', '2000-01-01', 1.66, 'seed'),
+    ('CHF', '2000-01-01', 0.88, 'seed'),
+    ('JPY', '2000-01-01', 151.5, 'seed'),
+    ('CNY', '2000-01-01', 7.24, 'seed'),
+    ('HKD', '2000-01-01', 7.82, 'seed'),
+    ('SGD', '2000-01-01', 1.35, 'seed'),
+    ('INR', '2000-01-01', 83.4, 'seed'),
+    ('SEK', '2000-01-01', 10.6, 'seed'),
+    ('NOK', '2000-01-01', 10.8, 'seed'),
+    ('DKK', '2000-01-01', 6.87, 'seed'),
+    ('PLN', '2000-01-01', 3.98, 'seed'),
+    ('ZAR', '2000-01-01', 18.6, 'seed'),
+    ('BRL', '2000-01-01', 5.05, 'seed'),
+    ('MXN', '2000-01-01', 16.8, 'seed')
+ON CONFLICT (currency, rate_date) DO NOTHING;
+
+-- The latest rate of every currency on or before a date. fetchFxRates reads
+-- rates through this too, so live totals and snapshots use the same rates.
+CREATE OR REPLACE FUNCTION public.latest_fx_rates(p_date DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (currency TEXT, rate DECIMAL)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT DISTINCT ON (r.currency) r.currency, r.rate
+    FROM public.fx_rates r
+    WHERE r.rate_date <= p_date
+    ORDER BY r.currency, r.rate_date DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.latest_fx_rates(DATE) TO authenticated, service_role;
+
+-- The latest rate on or before a date; 1 for USD, NULL for unknown currencies
+CREATE OR REPLACE FUNCTION public.fx_rate(p_currency TEXT, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN upper(coalesce(p_currency, 'USD')) = 'USD' THEN 1
+        ELSE (
+            SELECT r.rate
+            FROM public.latest_fx_rates(p_date) r
+            WHERE r.currency = upper(p_currency)
+        )
+    END;
+$$;
+
+-- Mirrors convertAmount: the amount is left unchanged when either rate is
+-- unknown
+CREATE OR REPLACE FUNCTION public.convert_amount(
+    p_amount DECIMAL,
+    p_from TEXT,
+    p_to TEXT,
+    p_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_from = p_to THEN p_amount
+        ELSE coalesce(
+            p_amount / public.fx_rate(p_from, p_date) * public.fx_rate(p_to, p_date),
+            p_amount
+        )
+    END;
+$$;
+
+-- An asset's currency is looked up like getAssetCurrency: the column, then
+-- metadata.currency (SnapTrade and exchange imports), then USD
+CREATE OR REPLACE FUNCTION public.record_net_worth_snapshots(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    snapshot_count INTEGER;
+BEGIN
+    IF coalesce(auth.role(), '') <> 'service_role' THEN
+        IF auth.uid() IS NULL THEN
+            RAISE EXCEPTION 'Not authenticated';
+        END IF;
+        p_user_id := auth.uid();
+    END IF;
+
+    INSERT INTO public.asset_history (asset_id, value, recorded_at, snapshot_date, source)
+    SELECT a.id, a.value, NOW(), CURRENT_DATE, 'snapshot'
+    FROM public.assets a
+    WHERE p_user_id IS NULL OR a.user_id = p_user_id
+    ON CONFLICT (asset_id, snapshot_date)
+    DO UPDATE SET value = EXCLUDED.value, recorded_at = EXCLUDED.recorded_at;
+
+    INSERT INTO public.net_worth_history (
+        user_id, snapshot_date, total_assets, total_liabilities, net_worth, currency
+    )
+    SELECT
+        converted.user_id,
+        CURRENT_DATE,
+        coalesce(sum(converted.value) FILTER (WHERE NOT converted.is_liability), 0),
+        coalesce(sum(converted.value) FILTER (WHERE converted.is_liability), 0),
+        coalesce(sum(CASE WHEN converted.is_liability THEN -converted.value ELSE converted.value END), 0),
+        converted.base_currency
+    FROM (
+        SELECT
+            a.user_id,
+            coalesce(a.is_liability, false) AS is_liability,
+            coalesce(nullif(p.base_currency, ''), 'USD') AS base_currency,
+            public.convert_amount(
+                a.value,
+                upper(coalesce(nullif(a.currency, ''), nullif(a.metadata->>'currency', ''), 'USD')),
+                coalesce(nullif(p.base_currency, ''), 'USD')
+            ) AS value
+        FROM public.assets a
+        LEFT JOIN public.user_preferences p ON p.user_id = a.user_id
+        WHERE p_user_id IS NULL OR a.user_id = p_user_id
+    ) converted
+    GROUP BY converted.user_id, converted.base_currency
+    ON CONFLICT (user_id, snapshot_date)
+    DO UPDATE SET
+        total_assets = EXCLUDED.total_assets,
+        total_liabilities = EXCLUDED.total_liabilities,
+        net_worth = EXCLUDED.net_worth,
+        currency = EXCLUDED.currency,
+        updated_at = NOW();
+
+    GET DIAGNOSTICS snapshot_count = ROW_COUNT;
+    RETURN snapshot_count;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- term_months is the remaining term as of term_start_date, so a payment
+-- derived from the term counts down instead of restarting every month
+ALTER TABLE public.liability_details ADD COLUMN IF NOT EXISTS term_start_date DATE;
+
+UPDATE public.liability_details
+SET term_start_date = created_at::date
+WHERE term_months IS NOT NULL AND term_start_date IS NULL;